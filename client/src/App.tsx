@@ -7,15 +7,20 @@ import { AuthProvider } from "@/contexts/auth-context";
 import NotFound from "@/pages/not-found";
 import LoginPage from "@/pages/login";
 import RegisterPage from "@/pages/register";
+import ForgotPasswordPage from "@/pages/forgot-password";
+import ResetPasswordPage from "@/pages/reset-password";
+import VerifyEmailPage from "@/pages/verify-email";
 import DashboardPage from "@/pages/dashboard";
 import ProjectsPage from "@/pages/projects";
 import TasksPage from "@/pages/tasks";
 import CalendarPage from "@/pages/calendar";
+import TimesheetPage from "@/pages/timesheet";
 import ChatPage from "@/pages/chat";
 import FilesPage from "@/pages/files";
 import TeamsPage from "@/pages/teams";
 import SettingsPage from "@/pages/settings";
 import AdminUsersPage from "@/pages/admin/users-fix";
+import AuditLogPage from "@/pages/admin/audit-log";
 import { ROUTES } from "@/lib/constants";
 
 function Router() {
@@ -23,16 +28,21 @@ function Router() {
     <Switch>
       <Route path={ROUTES.LOGIN} component={LoginPage} />
       <Route path={ROUTES.REGISTER} component={RegisterPage} />
+      <Route path={ROUTES.FORGOT_PASSWORD} component={ForgotPasswordPage} />
+      <Route path={ROUTES.RESET_PASSWORD} component={ResetPasswordPage} />
+      <Route path={ROUTES.VERIFY_EMAIL} component={VerifyEmailPage} />
       <Route path={ROUTES.DASHBOARD} component={DashboardPage} />
       <Route path={ROUTES.PROJECTS} component={ProjectsPage} />
       <Route path="/projects/:id" component={ProjectsPage} />
       <Route path={ROUTES.TASKS} component={TasksPage} />
       <Route path={ROUTES.CALENDAR} component={CalendarPage} />
+      <Route path={ROUTES.TIMESHEET} component={TimesheetPage} />
       <Route path={ROUTES.CHAT} component={ChatPage} />
       <Route path={ROUTES.FILES} component={FilesPage} />
       <Route path={ROUTES.TEAMS} component={TeamsPage} />
       <Route path={ROUTES.SETTINGS} component={SettingsPage} />
       <Route path={ROUTES.ADMIN_USERS} component={AdminUsersPage} />
+      <Route path={ROUTES.ADMIN_AUDIT_LOG} component={AuditLogPage} />
       <Route component={NotFound} />
     </Switch>
   );
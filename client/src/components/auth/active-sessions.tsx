@@ -0,0 +1,136 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+
+interface ActiveSession {
+  id: number;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// Lists the current user's logged-in sessions on the settings Account tab
+export function ActiveSessions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/auth/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Session revoked",
+        description: "That device has been logged out.",
+      });
+    },
+    onError: onError("Failed to revoke session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", "/api/auth/sessions"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Logged out everywhere else",
+        description: "All other sessions have been logged out.",
+      });
+    },
+    onError: onError("Failed to revoke sessions"),
+  });
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Active Sessions</CardTitle>
+          <CardDescription>Devices that are currently logged in to your account</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={!hasOtherSessions || revokeOthersMutation.isPending}
+        >
+          {revokeOthersMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <LogOut className="mr-2 h-4 w-4" />
+          )}
+          Log out everywhere else
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-800">
+            {sessions.map((session) => {
+              const DeviceIcon = /iOS|Android/.test(session.device) ? Smartphone : Monitor;
+              return (
+                <div key={session.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center">
+                    <DeviceIcon className="h-5 w-5 mr-3 text-gray-500" />
+                    <div>
+                      <div className="font-medium flex items-center">
+                        {session.device}
+                        {session.current && (
+                          <Badge variant="secondary" className="ml-2">
+                            This device
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        {session.ipAddress || "Unknown IP"} &middot; last active{" "}
+                        {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                      </div>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500 hover:text-red-700"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Copy, KeyRound, Loader2, Plus } from "lucide-react";
+import type { ApiToken } from "@shared/schema";
+
+type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
+const EXPIRY_OPTIONS = [
+  { label: "7 days", value: "7" },
+  { label: "30 days", value: "30" },
+  { label: "90 days", value: "90" },
+  { label: "1 year", value: "365" },
+  { label: "No expiry", value: "never" },
+];
+
+// Personal API tokens for scripts, on the settings Account tab
+export function ApiTokens() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState("read");
+  const [expiry, setExpiry] = useState("30");
+  // The plain token is only available right after it was created
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/auth/tokens"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const expiresAt =
+        expiry === "never"
+          ? null
+          : new Date(Date.now() + parseInt(expiry) * 24 * 60 * 60 * 1000).toISOString();
+      return apiRequest("POST", "/api/auth/tokens", { name, scope, expiresAt });
+    },
+    onSuccess: (data: PublicApiToken & { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/tokens"] });
+      setCreatedToken(data.token);
+      setName("");
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to create token",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/auth/tokens/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/tokens"] });
+      toast({
+        title: "Token revoked",
+        description: "Scripts using this token can no longer access the API.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to revoke token",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  const closeCreateDialog = (open: boolean) => {
+    setIsCreateOpen(open);
+    if (!open) setCreatedToken(null);
+  };
+
+  const copyToken = () => {
+    if (!createdToken) return;
+    navigator.clipboard.writeText(createdToken);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  const isExpired = (token: PublicApiToken) =>
+    !!token.expiresAt && new Date(token.expiresAt).getTime() < Date.now();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>API Tokens</CardTitle>
+          <CardDescription>
+            Personal access tokens for scripts, sent as <code>Authorization: Bearer &lt;token&gt;</code>
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Token
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">You have no API tokens.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-800">
+            {tokens.map((token) => (
+              <div key={token.id} className="flex items-center justify-between py-3">
+                <div className="flex items-center">
+                  <KeyRound className="h-5 w-5 mr-3 text-gray-500" />
+                  <div>
+                    <div className="font-medium flex items-center">
+                      {token.name}
+                      <Badge variant="secondary" className="ml-2">
+                        {token.scope === "write" ? "Read & write" : "Read only"}
+                      </Badge>
+                      {isExpired(token) && (
+                        <Badge variant="destructive" className="ml-2">
+                          Expired
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      <code>{token.tokenPrefix}…</code> &middot;{" "}
+                      {token.lastUsedAt
+                        ? `last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                        : "never used"}{" "}
+                      &middot;{" "}
+                      {token.expiresAt
+                        ? `${isExpired(token) ? "expired" : "expires"} ${formatDate(token.expiresAt)}`
+                        : "no expiry"}
+                    </div>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-500 hover:text-red-700"
+                  onClick={() => revokeMutation.mutate(token.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={closeCreateDialog}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{createdToken ? "Token created" : "New API Token"}</DialogTitle>
+            <DialogDescription>
+              {createdToken
+                ? "Copy your token now. It will not be shown again."
+                : "Tokens act as your account, limited to the scope you choose."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdToken ? (
+            <div className="flex items-center gap-2">
+              <code className="flex-1 rounded-md border px-3 py-2 font-mono text-sm break-all">
+                {createdToken}
+              </code>
+              <Button variant="outline" size="sm" onClick={copyToken}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="token-name">Name</Label>
+                <Input
+                  id="token-name"
+                  placeholder="e.g. Nightly report script"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Scope</Label>
+                <Select value={scope} onValueChange={setScope}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="read">Read only</SelectItem>
+                    <SelectItem value="write">Read & write</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Expiration</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {createdToken ? (
+              <Button onClick={() => closeCreateDialog(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => closeCreateDialog(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!name.trim() || createMutation.isPending}
+                >
+                  {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Token
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
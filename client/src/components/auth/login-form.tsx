@@ -6,7 +6,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { ROUTES } from "@/lib/constants";
-import { useAuth } from "@/contexts/auth-context";
+import { useAuth, type User } from "@/contexts/auth-context";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Loader2 } from "lucide-react";
@@ -18,6 +18,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { TwoFactorLogin } from "./two-factor-login";
 
 const formSchema = z.object({
   username: z.string().min(3, { message: "Username must be at least 3 characters" }),
@@ -31,6 +32,7 @@ export function LoginForm() {
   const { toast } = useToast();
   const { login } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -40,16 +42,24 @@ export function LoginForm() {
     },
   });
 
+  const completeLogin = (userData: User) => {
+    login(userData);
+    toast({
+      title: "Login successful",
+      description: "Welcome back!",
+    });
+    setLocation(ROUTES.DASHBOARD);
+  };
+
   const onSubmit = async (data: FormValues) => {
     setIsLoading(true);
     try {
       const userData = await apiRequest("POST", "/api/auth/login", data);
-      login(userData);
-      toast({
-        title: "Login successful",
-        description: "Welcome back!",
-      });
-      setLocation(ROUTES.DASHBOARD);
+      if (userData.twoFactorRequired) {
+        setTwoFactorRequired(true);
+        return;
+      }
+      completeLogin(userData);
     } catch (error) {
       toast({
         variant: "destructive",
@@ -61,6 +71,18 @@ export function LoginForm() {
     }
   };
 
+  if (twoFactorRequired) {
+    return (
+      <TwoFactorLogin
+        onSuccess={completeLogin}
+        onCancel={() => {
+          setTwoFactorRequired(false);
+          form.resetField("password");
+        }}
+      />
+    );
+  }
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -87,7 +109,18 @@ export function LoginForm() {
           name="password"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Password</FormLabel>
+              <div className="flex items-center justify-between">
+                <FormLabel>Password</FormLabel>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="h-auto p-0 text-sm"
+                  onClick={() => setLocation(ROUTES.FORGOT_PASSWORD)}
+                  disabled={isLoading}
+                >
+                  Forgot password?
+                </Button>
+              </div>
               <FormControl>
                 <Input
                   type="password"
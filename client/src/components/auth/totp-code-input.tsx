@@ -0,0 +1,30 @@
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Six digit input for codes from an authenticator app
+export function TotpCodeInput({ value, onChange, onComplete, disabled }: TotpCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern="^[0-9]*$"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }).map((_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
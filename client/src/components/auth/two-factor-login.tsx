@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { User } from "@/contexts/auth-context";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { TotpCodeInput } from "./totp-code-input";
+
+interface TwoFactorLoginProps {
+  onSuccess: (user: User) => void;
+  onCancel: () => void;
+}
+
+// Second login step, shown when the password was correct but the account has 2FA enabled
+export function TwoFactorLogin({ onSuccess, onCancel }: TwoFactorLoginProps) {
+  const { toast } = useToast();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const verify = async (totpCode = code) => {
+    setIsLoading(true);
+    try {
+      const userData = await apiRequest(
+        "POST",
+        "/api/auth/2fa/verify",
+        useRecoveryCode ? { recoveryCode } : { code: totpCode }
+      );
+      onSuccess(userData);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid authentication code";
+      toast({
+        variant: "destructive",
+        title: "Verification failed",
+        description: message,
+      });
+      setCode("");
+      // The server drops the pending login after too many attempts
+      if (message.includes("log in again")) {
+        onCancel();
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verify();
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-6">
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Recovery code</Label>
+          <Input
+            id="recovery-code"
+            placeholder="xxxxx-xxxxx"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            disabled={isLoading}
+            autoFocus
+          />
+          <p className="text-sm text-muted-foreground">
+            Each recovery code can only be used once.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2 flex flex-col items-center">
+          <Label>Authentication code</Label>
+          <TotpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => verify(value)}
+            disabled={isLoading}
+          />
+          <p className="text-sm text-muted-foreground text-center">
+            Enter the 6-digit code from your authenticator app.
+          </p>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isLoading || (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6)}
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          "Verify"
+        )}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <Button
+          type="button"
+          variant="link"
+          className="p-0"
+          onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+          disabled={isLoading}
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          className="p-0"
+          onClick={onCancel}
+          disabled={isLoading}
+        >
+          Back to login
+        </Button>
+      </div>
+    </form>
+  );
+}
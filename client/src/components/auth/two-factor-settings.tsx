@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Loader2, ShieldCheck } from "lucide-react";
+import { TotpCodeInput } from "./totp-code-input";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// Two-factor authentication card for the settings Account tab
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/auth/2fa/setup") as Promise<TwoFactorSetup>,
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: onError("Failed to start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (totpCode: string) => {
+      return apiRequest("POST", "/api/auth/2fa/enable", { code: totpCode });
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "Save your recovery codes somewhere safe.",
+      });
+    },
+    onError: (error) => {
+      setCode("");
+      onError("Failed to enable two-factor authentication")(error);
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (totpCode: string) => {
+      return apiRequest("POST", "/api/auth/2fa/recovery-codes", { code: totpCode });
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError: (error) => {
+      setCode("");
+      onError("Failed to regenerate recovery codes")(error);
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/auth/2fa/disable", { password }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setPassword("");
+      setRecoveryCodes(null);
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Your account is now protected by your password only.",
+      });
+    },
+    onError: onError("Failed to disable two-factor authentication"),
+  });
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      );
+    }
+
+    // Recovery codes are only available right after they are generated
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Store these recovery codes in a safe place. Each one can be used once to log in
+            if you lose access to your authenticator app. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <div key={recoveryCode}>{recoveryCode}</div>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => copyToClipboard(recoveryCodes.join("\n"))}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy codes
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (status?.enabled) {
+      return (
+        <div className="space-y-6">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            You have {status.recoveryCodesRemaining} unused recovery codes left.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Regenerate recovery codes</Label>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Enter a code from your authenticator app to replace all existing recovery codes.
+            </p>
+            <div className="flex flex-wrap items-center gap-4">
+              <TotpCodeInput
+                value={code}
+                onChange={setCode}
+                disabled={regenerateMutation.isPending}
+              />
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate(code)}
+                disabled={code.length !== 6 || regenerateMutation.isPending}
+              >
+                {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Regenerate
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2 border-t pt-6">
+            <Label htmlFor="disable-2fa-password">Disable two-factor authentication</Label>
+            <div className="flex flex-wrap items-center gap-4">
+              <Input
+                id="disable-2fa-password"
+                type="password"
+                className="max-w-xs"
+                placeholder="Enter your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              <Button
+                variant="destructive"
+                onClick={() => disableMutation.mutate()}
+                disabled={!password || disableMutation.isPending}
+              >
+                {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Disable
+              </Button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    if (setup) {
+      return (
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h3 className="font-medium">1. Add TeamFlow to your authenticator app</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              On your phone,{" "}
+              <a href={setup.otpauthUrl} className="text-primary underline">
+                open this setup link
+              </a>{" "}
+              or enter the key below manually in Google Authenticator, 1Password, Authy or a
+              similar app.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="rounded-md border px-3 py-2 font-mono text-sm break-all">
+                {setup.secret.match(/.{1,4}/g)?.join(" ")}
+              </code>
+              <Button variant="outline" size="sm" onClick={() => copyToClipboard(setup.secret)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-medium">2. Enter the 6-digit code from the app</h3>
+            <TotpCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={(value) => enableMutation.mutate(value)}
+              disabled={enableMutation.isPending}
+            />
+          </div>
+
+          <div className="flex space-x-2">
+            <Button
+              onClick={() => enableMutation.mutate(code)}
+              disabled={code.length !== 6 || enableMutation.isPending}
+            >
+              {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify and enable
+            </Button>
+            <Button variant="outline" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Require a code from an authenticator app in addition to your password when you log in.
+        </p>
+        <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+          {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Enable two-factor authentication
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && (
+            <Badge className="ml-2 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+              Enabled
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>Add an extra layer of security to your account</CardDescription>
+      </CardHeader>
+      <CardContent>{renderContent()}</CardContent>
+    </Card>
+  );
+}
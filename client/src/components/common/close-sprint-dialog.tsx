@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { invalidateSprints } from "@/hooks/use-sprints";
+import { useProjectWorkflow } from "@/hooks/use-workflow";
+import { formatEstimate, sumEstimates } from "@/lib/utils";
+import { type Sprint, type Task } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const BACKLOG = "backlog";
+
+interface CloseSprintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sprint: Sprint;
+  tasks: Task[];
+  plannedSprints: Sprint[];
+  estimateUnit?: string;
+}
+
+export function CloseSprintDialog({
+  open,
+  onOpenChange,
+  sprint,
+  tasks,
+  plannedSprints,
+  estimateUnit,
+}: CloseSprintDialogProps) {
+  const { toast } = useToast();
+  // Unfinished work moves on to the next planned sprint unless told otherwise
+  const [moveTo, setMoveTo] = useState(plannedSprints[0]?.id.toString() ?? BACKLOG);
+
+  const workflow = useProjectWorkflow(sprint.projectId);
+  const completed = tasks.filter((task) => workflow.isDone(task.status));
+  const unfinished = tasks.filter((task) => !workflow.isDone(task.status));
+
+  const closeSprintMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/sprints/${sprint.id}/close`, {
+        moveToSprintId: moveTo === BACKLOG ? null : parseInt(moveTo),
+      });
+    },
+    onSuccess: () => {
+      invalidateSprints(sprint.projectId);
+      toast({
+        title: "Sprint closed",
+        description: `${sprint.name} has been closed.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to close sprint",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Close {sprint.name}</DialogTitle>
+          <DialogDescription>
+            A report of what was completed is kept with the sprint.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 p-4 my-2 bg-gray-100 dark:bg-gray-800 rounded-md">
+          <div>
+            <div className="text-2xl font-semibold">{completed.length}</div>
+            <div className="text-sm text-muted-foreground">
+              completed ({formatEstimate(sumEstimates(completed), estimateUnit)})
+            </div>
+          </div>
+          <div>
+            <div className="text-2xl font-semibold">{unfinished.length}</div>
+            <div className="text-sm text-muted-foreground">
+              unfinished ({formatEstimate(sumEstimates(unfinished), estimateUnit)})
+            </div>
+          </div>
+        </div>
+
+        {unfinished.length > 0 && (
+          <div className="space-y-2">
+            <Label>Move unfinished tasks to</Label>
+            <Select value={moveTo} onValueChange={setMoveTo} disabled={closeSprintMutation.isPending}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {plannedSprints.map((planned) => (
+                  <SelectItem key={planned.id} value={planned.id.toString()}>
+                    {planned.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={BACKLOG}>Backlog</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={closeSprintMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button onClick={() => closeSprintMutation.mutate()} disabled={closeSprintMutation.isPending}>
+            {closeSprintMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Closing...
+              </>
+            ) : (
+              "Close Sprint"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
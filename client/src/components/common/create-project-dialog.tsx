@@ -7,7 +7,7 @@ import { useQueryClient, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import { insertProjectSchema, type Team } from "@shared/schema";
-import { PROJECT_COLORS } from "@/lib/constants";
+import { PROJECT_COLORS, ESTIMATE_UNIT_OPTIONS } from "@/lib/constants";
 import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -72,6 +72,7 @@ export function CreateProjectDialog({ open, onOpenChange, teams }: CreateProject
       teamId: teams[0]?.id || 0,
       color: "#2563EB",
       startDate: new Date(),
+      estimateUnit: "points",
     },
   });
 
@@ -186,6 +187,35 @@ export function CreateProjectDialog({ open, onOpenChange, teams }: CreateProject
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="estimateUnit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Estimate tasks in</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value}
+                    disabled={createProjectMutation.isPending}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ESTIMATE_UNIT_OPTIONS.map((unit) => (
+                        <SelectItem key={unit.value} value={unit.value}>
+                          {unit.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -0,0 +1,205 @@
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { invalidateSprints } from "@/hooks/use-sprints";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { addDays, format } from "date-fns";
+
+// Dates are edited as yyyy-MM-dd strings, like the other date inputs
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  goal: z.string().max(1000).optional(),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().min(1, "End date is required"),
+}).refine((sprint) => sprint.endDate >= sprint.startDate, {
+  message: "A sprint can't end before it starts",
+  path: ["endDate"],
+});
+
+// New sprints default to two weeks
+const DEFAULT_SPRINT_LENGTH = 14;
+
+const parseDay = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+interface CreateSprintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: number;
+  sprintNumber: number;
+  startDate?: Date;
+}
+
+export function CreateSprintDialog({
+  open,
+  onOpenChange,
+  projectId,
+  sprintNumber,
+  startDate = new Date(),
+}: CreateSprintDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: `Sprint ${sprintNumber}`,
+      goal: "",
+      startDate: format(startDate, "yyyy-MM-dd"),
+      endDate: format(addDays(startDate, DEFAULT_SPRINT_LENGTH - 1), "yyyy-MM-dd"),
+    },
+  });
+
+  const createSprintMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof formSchema>) => {
+      return apiRequest("POST", `/api/projects/${projectId}/sprints`, {
+        name: data.name,
+        goal: data.goal || null,
+        startDate: parseDay(data.startDate),
+        endDate: parseDay(data.endDate),
+      });
+    },
+    onSuccess: (data) => {
+      invalidateSprints(projectId);
+      toast({
+        title: "Sprint created",
+        description: `${data.name} has been created successfully.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to create sprint",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  function onSubmit(data: z.infer<typeof formSchema>) {
+    createSprintMutation.mutate(data);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Create Sprint</DialogTitle>
+          <DialogDescription>
+            Plan the next iteration, then drag tasks into it from the backlog.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={createSprintMutation.isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="goal"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Goal (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="What should this sprint achieve?"
+                      {...field}
+                      disabled={createSprintMutation.isPending}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} disabled={createSprintMutation.isPending} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} disabled={createSprintMutation.isPending} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={createSprintMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createSprintMutation.isPending}>
+                {createSprintMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  "Create Sprint"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
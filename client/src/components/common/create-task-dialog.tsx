@@ -1,12 +1,13 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
 import { useQueryClient, useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { insertTaskSchema, type User } from "@shared/schema";
+import { insertTaskSchema, type User, type Project } from "@shared/schema";
+import { getWorkflow, getTransitionError } from "@shared/workflow";
 import {
-  TASK_STATUSES,
   TASK_PRIORITIES,
   TASK_CATEGORIES,
 } from "@/lib/constants";
@@ -47,13 +48,17 @@ import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { CalendarIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { TaskRecurrenceFields } from "@/components/tasks/task-recurrence-fields";
 
 // Extend the task schema with validation
 const formSchema = insertTaskSchema.extend({
   projectId: z.number().positive({ message: "Project is required" }),
   title: z.string().min(2, { message: "Title must be at least 2 characters" }),
   tags: z.array(z.string()).optional(),
+  startDate: z.string().optional(),
   dueDate: z.string().optional(),
+  recurrenceRule: z.string().optional(),
 });
 
 interface CreateTaskDialogProps {
@@ -61,16 +66,19 @@ interface CreateTaskDialogProps {
   onOpenChange: (open: boolean) => void;
   projectId?: number;
   initialStatus?: string;
+  sprintId?: number; // set when adding to the sprint board
 }
 
 export function CreateTaskDialog({
   open,
   onOpenChange,
   projectId,
-  initialStatus = "todo",
+  initialStatus,
+  sprintId,
 }: CreateTaskDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [recurrenceRule, setRecurrenceRule] = useState<string | null>(null);
 
   // Fetch team members to assign the task
   const { data: users } = useQuery<User[]>({
@@ -89,10 +97,23 @@ export function CreateTaskDialog({
       priority: "medium",
       tags: [],
       order: 0,
+      startDate: undefined,
       dueDate: undefined, // ⬅️ tambahkan ini
+      sprintId: sprintId ?? null,
     },
   });
 
+  // Estimates are in the unit the project uses
+  const estimateProjectId = projectId || form.watch("projectId");
+  const { data: project } = useQuery<Project>({
+    queryKey: [`/api/projects/${estimateProjectId}`],
+    enabled: open && !!estimateProjectId,
+  });
+
+  // Statuses come from the project's workflow; left empty, the task starts
+  // in the workflow's first status
+  const statuses = getWorkflow(project);
+
   // Create task mutation
   const createTaskMutation = useMutation({
     mutationFn: async (data: z.infer<typeof formSchema>) => {
@@ -125,10 +146,18 @@ export function CreateTaskDialog({
     const taskData = {
       ...data,
       projectId: projectId || data.projectId,
+      status: statuses.some((status) => status.value === data.status) ? data.status : undefined,
       order: 0,
+      startDate: data.startDate ? data.startDate : undefined,
       dueDate: data.dueDate ? data.dueDate : undefined,
+      recurrenceRule: recurrenceRule || undefined,
     };
 
+    if (recurrenceRule && !taskData.dueDate) {
+      form.setError("dueDate", { message: "Recurring tasks need a due date" });
+      return;
+    }
+
     createTaskMutation.mutate(taskData);
   }
 
@@ -229,7 +258,7 @@ export function CreateTaskDialog({
                     <FormLabel>Status</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value || undefined}
+                      value={field.value || undefined}
                       disabled={createTaskMutation.isPending}
                     >
                       <FormControl>
@@ -238,7 +267,7 @@ export function CreateTaskDialog({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {TASK_STATUSES.map((status) => (
+                        {statuses.map((status) => (
                           <SelectItem key={status.value} value={status.value}>
                             {status.label}
                           </SelectItem>
@@ -313,6 +342,71 @@ export function CreateTaskDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="estimate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    Estimate ({project?.estimateUnit === "hours" ? "hours" : "story points"}, optional)
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={project?.estimateUnit === "hours" ? 0.5 : 1}
+                      placeholder="e.g. 3"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                      disabled={createTaskMutation.isPending}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Start Date (Optional)</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn(
+                            "pl-3 text-left font-normal",
+                            !field.value && "text-muted-foreground",
+                          )}
+                          disabled={createTaskMutation.isPending}
+                        >
+                          {field.value ? (
+                            format(new Date(field.value), "PPP")
+                          ) : (
+                            <span>Pick a date</span>
+                          )}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0">
+                      <Calendar
+                        mode="single"
+                        selected={field.value ? new Date(field.value) : undefined}
+                        onSelect={(date) => field.onChange(date ? date.toISOString() : undefined)}
+                        disabled={(date) => date < new Date("1900-01-01")}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="dueDate"
@@ -354,6 +448,15 @@ export function CreateTaskDialog({
               )}
             />
 
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <TaskRecurrenceFields
+                value={recurrenceRule}
+                onChange={setRecurrenceRule}
+                disabled={createTaskMutation.isPending}
+              />
+            </div>
+
             <FormField
               control={form.control}
               name="tags"
@@ -29,8 +29,9 @@ export function DeleteTaskDialog({
 
   // Delete task mutation
   const deleteTaskMutation = useMutation({
-    mutationFn: async () => {
-      return apiRequest(`/api/tasks/${task.id}`, { method: "DELETE" });
+    mutationFn: async (scope: "occurrence" | "series") => {
+      const query = scope === "series" ? "?scope=series" : "";
+      return apiRequest(`/api/tasks/${task.id}${query}`, { method: "DELETE" });
     },
     onSuccess: async () => {
       queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
@@ -55,8 +56,8 @@ export function DeleteTaskDialog({
     },
   });
 
-  function handleDelete() {
-    deleteTaskMutation.mutate();
+  function handleDelete(scope: "occurrence" | "series" = "occurrence") {
+    deleteTaskMutation.mutate(scope);
   }
 
   return (
@@ -66,6 +67,7 @@ export function DeleteTaskDialog({
           <DialogTitle>Delete Task</DialogTitle>
           <DialogDescription>
             Are you sure you want to delete this task? This action cannot be undone.
+            {task.recurrenceId && " This task repeats; you can also delete its future occurrences and stop the schedule."}
           </DialogDescription>
         </DialogHeader>
 
@@ -87,9 +89,18 @@ export function DeleteTaskDialog({
           >
             Cancel
           </Button>
+          {task.recurrenceId && (
+            <Button
+              variant="destructive"
+              onClick={() => handleDelete("series")}
+              disabled={deleteTaskMutation.isPending}
+            >
+              Delete This and Future
+            </Button>
+          )}
           <Button 
             variant="destructive" 
-            onClick={handleDelete} 
+            onClick={() => handleDelete()} 
             disabled={deleteTaskMutation.isPending}
           >
             {deleteTaskMutation.isPending ? (
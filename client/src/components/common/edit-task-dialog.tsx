@@ -1,12 +1,13 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
 import { useQueryClient, useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { insertTaskSchema, type User, type Task } from "@shared/schema";
+import { insertTaskSchema, type User, type Project, type Task, type TaskRecurrence } from "@shared/schema";
+import { getWorkflow, getTransitionError } from "@shared/workflow";
 import {
-  TASK_STATUSES,
   TASK_PRIORITIES,
   TASK_CATEGORIES,
 } from "@/lib/constants";
@@ -47,13 +48,18 @@ import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { CalendarIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { TaskRecurrenceFields } from "@/components/tasks/task-recurrence-fields";
 
 // Extend the task schema with validation
-const formSchema = insertTaskSchema.omit({ dueDate: true }).extend({
+const formSchema = insertTaskSchema.omit({ startDate: true, dueDate: true }).extend({
   projectId: z.number().positive({ message: "Project is required" }),
   title: z.string().min(2, { message: "Title must be at least 2 characters" }),
   tags: z.array(z.string()).optional(),
+  startDate: z.string().optional(),
   dueDate: z.string().optional(),
+  scope: z.enum(["occurrence", "series"]).optional(),
+  recurrenceRule: z.string().nullable().optional(),
 });
 
 interface EditTaskDialogProps {
@@ -69,6 +75,17 @@ export function EditTaskDialog({
 }: EditTaskDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [scope, setScope] = useState<"occurrence" | "series">("occurrence");
+  // Left undefined until the schedule is edited, so it isn't sent otherwise
+  const [recurrenceRule, setRecurrenceRule] = useState<string | null | undefined>(undefined);
+
+  // The series this task is an occurrence of, if any
+  const { data: recurrence, isLoading: isLoadingRecurrence } = useQuery<TaskRecurrence>({
+    queryKey: [`/api/task-recurrences/${task.recurrenceId}`],
+    enabled: open && !!task.recurrenceId,
+  });
+  const isRecurring = !!task.recurrenceId;
+  const currentRule = recurrence && !recurrence.endedAt ? recurrence.rule : null;
 
   // Fetch team members to assign the task
   const { data: users } = useQuery<User[]>({
@@ -88,10 +105,28 @@ export function EditTaskDialog({
       assigneeId: task.assigneeId,
       tags: task.tags || [],
       order: task.order || 0,
+      startDate: task.startDate ? task.startDate.toString() : undefined,
       dueDate: task.dueDate ? task.dueDate.toString() : undefined,
+      estimate: task.estimate,
     },
   });
 
+  // Estimates are in the unit the project uses
+  const estimateProjectId = form.watch("projectId");
+  const { data: project } = useQuery<Project>({
+    queryKey: [`/api/projects/${estimateProjectId}`],
+    enabled: open && !!estimateProjectId,
+  });
+
+  // Statuses of the selected project's workflow that the task can move to.
+  // A task moved to another project may start over in that project's first
+  // status, which the server picks when the status is left out.
+  const workflow = getWorkflow(project);
+  const movesProject = estimateProjectId !== task.projectId;
+  const statuses = workflow.filter((status) =>
+    movesProject || getTransitionError(workflow, task.status, status.value) === null
+  );
+
   // Update task mutation
   const updateTaskMutation = useMutation({
     mutationFn: async (data: z.infer<typeof formSchema>) => {
@@ -104,6 +139,11 @@ export function EditTaskDialog({
           queryKey: [`/api/tasks?projectId=${task.projectId}`],
         });
       }
+      if (task.recurrenceId) {
+        queryClient.invalidateQueries({
+          queryKey: [`/api/task-recurrences/${task.recurrenceId}`],
+        });
+      }
       toast({
         title: "Task updated",
         description: "Task has been updated successfully.",
@@ -124,10 +164,19 @@ export function EditTaskDialog({
     const taskData = {
       ...data,
       projectId: data.projectId,
+      status: statuses.some((status) => status.value === data.status) ? data.status : undefined,
       order: task.order || 0,
+      startDate: data.startDate ? data.startDate : undefined,
       dueDate: data.dueDate ? data.dueDate : undefined,
+      scope: isRecurring ? scope : undefined,
+      recurrenceRule,
     };
 
+    if (recurrenceRule && !taskData.dueDate) {
+      form.setError("dueDate", { message: "Recurring tasks need a due date" });
+      return;
+    }
+
     updateTaskMutation.mutate(taskData);
   }
 
@@ -226,7 +275,7 @@ export function EditTaskDialog({
                     <FormLabel>Status</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value || undefined}
+                      value={field.value || undefined}
                       disabled={updateTaskMutation.isPending}
                     >
                       <FormControl>
@@ -235,7 +284,7 @@ export function EditTaskDialog({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {TASK_STATUSES.map((status) => (
+                        {statuses.map((status) => (
                           <SelectItem key={status.value} value={status.value}>
                             {status.label}
                           </SelectItem>
@@ -310,6 +359,71 @@ export function EditTaskDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="estimate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    Estimate ({project?.estimateUnit === "hours" ? "hours" : "story points"}, optional)
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={project?.estimateUnit === "hours" ? 0.5 : 1}
+                      placeholder="e.g. 3"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                      disabled={updateTaskMutation.isPending}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Start Date (Optional)</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn(
+                            "pl-3 text-left font-normal",
+                            !field.value && "text-muted-foreground",
+                          )}
+                          disabled={updateTaskMutation.isPending}
+                        >
+                          {field.value ? (
+                            format(new Date(field.value), "PPP")
+                          ) : (
+                            <span>Pick a date</span>
+                          )}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0">
+                      <Calendar
+                        mode="single"
+                        selected={field.value ? new Date(field.value) : undefined}
+                        onSelect={(date) => field.onChange(date ? date.toISOString() : undefined)}
+                        disabled={(date) => date < new Date("1900-01-01")}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="dueDate"
@@ -351,6 +465,45 @@ export function EditTaskDialog({
               )}
             />
 
+            {isRecurring && (
+              <div className="space-y-2">
+                <Label>Apply changes to</Label>
+                <Select
+                  value={scope}
+                  onValueChange={(value) => {
+                    setScope(value as "occurrence" | "series");
+                    setRecurrenceRule(undefined);
+                  }}
+                  disabled={updateTaskMutation.isPending}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="occurrence">This occurrence</SelectItem>
+                    <SelectItem value="series">This and future occurrences</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {(!isRecurring || !isLoadingRecurrence) && (
+              <div className="space-y-2">
+                <Label>Repeat</Label>
+                <TaskRecurrenceFields
+                  key={`${scope}-${currentRule}`}
+                  value={currentRule}
+                  onChange={setRecurrenceRule}
+                  disabled={updateTaskMutation.isPending || (isRecurring && scope !== "series")}
+                />
+                {isRecurring && scope !== "series" && (
+                  <p className="text-xs text-muted-foreground">
+                    The schedule can only be changed for this and future occurrences.
+                  </p>
+                )}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="tags"
@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getWorkflow } from "@shared/workflow";
+import type { EntryCriterion, Project, WorkflowCategory, WorkflowStatus } from "@shared/schema";
+import { ENTRY_CRITERIA_OPTIONS, WORKFLOW_CATEGORY_OPTIONS } from "@/lib/constants";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// A status while it is being edited. New statuses get their value from
+// their label when saved, so rows and transitions refer to statuses by `key`.
+interface StatusRow {
+  key: string;
+  value: string | null; // null for statuses added in this dialog
+  label: string;
+  category: WorkflowCategory;
+  color: string;
+  transitions: string[] | null;
+  wipLimit: number | null;
+  hardLimit: boolean;
+  entryCriteria: EntryCriterion[];
+}
+
+const toRows = (statuses: WorkflowStatus[]): StatusRow[] =>
+  statuses.map((status) => ({ ...status, key: status.value }));
+
+// Turns the rows back into statuses, giving new ones a value that no other
+// status has yet
+function toStatuses(rows: StatusRow[]): WorkflowStatus[] {
+  const values = new Map<string, string>();
+  const taken = new Set(rows.flatMap((row) => (row.value ? [row.value] : [])));
+  rows.forEach((row) => {
+    if (row.value) {
+      values.set(row.key, row.value);
+      return;
+    }
+    const base = row.label.trim().toLowerCase() || "status";
+    let value = base;
+    for (let n = 2; taken.has(value); n++) value = `${base} ${n}`;
+    taken.add(value);
+    values.set(row.key, value);
+  });
+
+  return rows.map((row) => ({
+    value: values.get(row.key)!,
+    label: row.label.trim(),
+    category: row.category,
+    color: row.color,
+    transitions: row.transitions && row.transitions.map((key) => values.get(key)!),
+    wipLimit: row.wipLimit,
+    hardLimit: row.wipLimit !== null && row.hardLimit,
+    entryCriteria: row.entryCriteria,
+  }));
+}
+
+interface EditWorkflowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: Project;
+}
+
+export function EditWorkflowDialog({ open, onOpenChange, project }: EditWorkflowDialogProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState(() => toRows(getWorkflow(project)));
+  const [newCount, setNewCount] = useState(0);
+
+  const updateRow = (key: string, changes: Partial<StatusRow>) => {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const moveRow = (index: number, offset: number) => {
+    setRows((current) => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  // Transitions into a removed status go with it
+  const removeRow = (key: string) => {
+    setRows((current) =>
+      current
+        .filter((row) => row.key !== key)
+        .map((row) => ({ ...row, transitions: row.transitions && row.transitions.filter((target) => target !== key) }))
+    );
+  };
+
+  const addRow = () => {
+    setRows((current) => [
+      ...current,
+      {
+        key: `new-${newCount}`,
+        value: null,
+        label: "",
+        category: "active",
+        color: "#8B5CF6",
+        transitions: null,
+        wipLimit: null,
+        hardLimit: false,
+        entryCriteria: [],
+      },
+    ]);
+    setNewCount((count) => count + 1);
+  };
+
+  const toggleEntryCriterion = (row: StatusRow, criterion: EntryCriterion, required: boolean) => {
+    updateRow(row.key, {
+      entryCriteria: required
+        ? [...row.entryCriteria, criterion]
+        : row.entryCriteria.filter((other) => other !== criterion),
+    });
+  };
+
+  const toggleTransition = (row: StatusRow, target: string, allowed: boolean) => {
+    const current = row.transitions ?? rows.map((other) => other.key).filter((key) => key !== row.key);
+    updateRow(row.key, {
+      transitions: allowed ? [...current, target] : current.filter((key) => key !== target),
+    });
+  };
+
+  const saveWorkflowMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", `/api/projects/${project.id}/workflow`, { statuses: toStatuses(rows) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${project.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: "Workflow saved",
+        description: `The board of ${project.name} now follows the new workflow.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to save workflow",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  const hasDoneStatus = rows.some((row) => row.category === "done");
+  const hasEmptyLabel = rows.some((row) => !row.label.trim());
+  const isPending = saveWorkflowMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Workflow</DialogTitle>
+          <DialogDescription>
+            The statuses tasks move through, in board order. Tasks in a done status count as completed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+          {rows.map((row, index) => (
+            <div key={row.key} className="space-y-2 rounded-md border p-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={row.color}
+                  onChange={(e) => updateRow(row.key, { color: e.target.value })}
+                  className="h-9 w-9 shrink-0 cursor-pointer rounded border border-input bg-transparent p-1"
+                  disabled={isPending}
+                  aria-label="Color"
+                />
+                <Input
+                  value={row.label}
+                  onChange={(e) => updateRow(row.key, { label: e.target.value })}
+                  placeholder="Status name"
+                  maxLength={50}
+                  disabled={isPending}
+                />
+                <Select
+                  value={row.category}
+                  onValueChange={(value) => updateRow(row.key, { category: value as WorkflowCategory })}
+                  disabled={isPending}
+                >
+                  <SelectTrigger className="w-[140px] shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKFLOW_CATEGORY_OPTIONS.map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="w-[130px] shrink-0 justify-start font-normal" disabled={isPending}>
+                      {row.transitions === null ? "Moves to any" : `Moves to ${row.transitions.length}`}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuCheckboxItem
+                      checked={row.transitions === null}
+                      onCheckedChange={(checked) => updateRow(row.key, { transitions: checked ? null : [] })}
+                    >
+                      Any status
+                    </DropdownMenuCheckboxItem>
+                    <DropdownMenuSeparator />
+                    {rows
+                      .filter((target) => target.key !== row.key)
+                      .map((target) => (
+                        <DropdownMenuCheckboxItem
+                          key={target.key}
+                          checked={row.transitions === null || row.transitions.includes(target.key)}
+                          onCheckedChange={(checked) => toggleTransition(row, target.key, checked)}
+                        >
+                          {target.label || "Untitled"}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveRow(index, -1)}
+                    disabled={isPending || index === 0}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveRow(index, 1)}
+                    disabled={isPending || index === rows.length - 1}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeRow(row.key)}
+                    disabled={isPending || rows.length === 1}
+                    aria-label="Remove status"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-4 pl-11 text-sm">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`wip-${row.key}`} className="font-normal">WIP limit</Label>
+                  <Input
+                    id={`wip-${row.key}`}
+                    type="number"
+                    min={1}
+                    value={row.wipLimit ?? ""}
+                    onChange={(e) => updateRow(row.key, { wipLimit: e.target.value ? Math.max(1, parseInt(e.target.value)) : null })}
+                    placeholder="None"
+                    className="h-8 w-20"
+                    disabled={isPending}
+                  />
+                </div>
+                <label className="flex items-center gap-2">
+                  <Checkbox
+                    checked={row.hardLimit}
+                    onCheckedChange={(checked) => updateRow(row.key, { hardLimit: checked === true })}
+                    disabled={isPending || row.wipLimit === null}
+                  />
+                  Block moves over the limit
+                </label>
+                {ENTRY_CRITERIA_OPTIONS.map((criterion) => (
+                  <label key={criterion.value} className="flex items-center gap-2">
+                    <Checkbox
+                      checked={row.entryCriteria.includes(criterion.value as EntryCriterion)}
+                      onCheckedChange={(checked) =>
+                        toggleEntryCriterion(row, criterion.value as EntryCriterion, checked === true)
+                      }
+                      disabled={isPending}
+                    />
+                    {criterion.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" size="sm" className="w-fit" onClick={addRow} disabled={isPending || rows.length >= 20}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add status
+        </Button>
+
+        {!hasDoneStatus && (
+          <p className="text-sm text-red-500">A workflow needs at least one done status.</p>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveWorkflowMutation.mutate()}
+            disabled={isPending || !hasDoneStatus || hasEmptyLabel}
+          >
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Workflow"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,9 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/auth-context";
+import { useRealtime } from "@/hooks/use-realtime";
+import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -9,46 +14,91 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Bell, MessageSquare, FileUp, Users } from "lucide-react";
+import { Bell, MessageSquare, FileUp, Users, CheckSquare, Check, X } from "lucide-react";
 import { formatDate } from "@/lib/utils";
+import { usePendingInvitations } from "@/components/common/pending-invitations";
+import { Notification } from "@shared/schema";
 
-// These would come from the API in a real application
-const mockNotifications = [
-  {
-    id: 1,
-    type: "comment",
-    message: "Alex commented on \"Design homepage wireframes\"",
-    time: new Date(Date.now() - 5 * 60 * 1000),
-    read: false,
-  },
-  {
-    id: 2,
-    type: "file",
-    message: "Michael shared \"Q4 Marketing Plan.pdf\"",
-    time: new Date(Date.now() - 60 * 60 * 1000),
-    read: false,
-  },
-  {
-    id: 3,
-    type: "meeting",
-    message: "Weekly sync in 30 minutes",
-    time: new Date(Date.now() - 24 * 60 * 60 * 1000),
-    read: true,
-  },
-];
+// Titles shown above each notification message
+const NOTIFICATION_TITLES: Record<string, string> = {
+  task_assigned: "Task assigned",
+  comment: "Comment",
+  file: "File",
+  team_invitation: "Team invitation",
+};
 
 export function NotificationDropdown() {
   const [open, setOpen] = useState(false);
-  const [notifications, setNotifications] = useState(mockNotifications);
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
   
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    enabled: !!user,
+  });
+  
+  const {
+    invitations,
+    accept: acceptInvitation,
+    reject: rejectInvitation,
+    isResponding,
+  } = usePendingInvitations();
+  
+  const unreadCount = notifications.filter(n => !n.read).length + invitations.length;
+  
+  // New notifications are pushed over the realtime connection
+  useRealtime((event) => {
+    if (event.type !== "notification.created") return;
+    if (event.notification.type === "team_invitation") {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+    }
+    queryClient.setQueryData<Notification[]>(["/api/notifications"], (old) => {
+      if (!old || old.some(n => n.id === event.notification.id)) return old;
+      return [event.notification, ...old];
+    });
+  }, !!user);
+  
+  const markAsReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+  
+  const markAllAsReadMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
   
   const markAllAsRead = () => {
-    setNotifications(notifications.map(n => ({ ...n, read: true })));
+    markAllAsReadMutation.mutate();
+  };
+  
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.read) {
+      markAsReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setOpen(false);
+      setLocation(notification.link);
+    }
   };
   
   const getIconForNotificationType = (type: string) => {
     switch (type) {
+      case "task_assigned":
+        return (
+          <div className="w-10 h-10 rounded-full bg-yellow-100 dark:bg-yellow-900 flex items-center justify-center">
+            <CheckSquare className="h-5 w-5 text-yellow-600" />
+          </div>
+        );
       case "comment":
         return (
           <div className="w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900 flex items-center justify-center">
@@ -61,7 +111,7 @@ export function NotificationDropdown() {
             <FileUp className="h-5 w-5 text-secondary" />
           </div>
         );
-      case "meeting":
+      case "team_invitation":
         return (
           <div className="w-10 h-10 rounded-full bg-purple-100 dark:bg-purple-900 flex items-center justify-center">
             <Users className="h-5 w-5 text-accent" />
@@ -82,7 +132,9 @@ export function NotificationDropdown() {
         <Button variant="ghost" size="icon" className="relative">
           <Bell className="h-5 w-5" />
           {unreadCount > 0 && (
-            <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-primary"></span>
+            <span className="absolute top-0.5 right-0.5 min-w-[1rem] h-4 px-1 rounded-full bg-primary text-[10px] leading-4 text-white font-medium">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
           )}
         </Button>
       </DropdownMenuTrigger>
@@ -95,13 +147,55 @@ export function NotificationDropdown() {
             variant="link"
             className="text-xs text-primary hover:text-primary/80 p-0 h-auto"
             onClick={markAllAsRead}
+            disabled={unreadCount === 0 || markAllAsReadMutation.isPending}
           >
             Mark all as read
           </Button>
         </div>
         
         <ScrollArea className="max-h-80">
-          {notifications.length === 0 ? (
+          {invitations.map((invitation) => (
+            <div
+              key={`invitation-${invitation.id}`}
+              className="p-3 border-b border-gray-200 dark:border-dark-darker bg-blue-50/50 dark:bg-blue-950/20"
+            >
+              <div className="flex">
+                <div className="flex-shrink-0 mr-3">
+                  {getIconForNotificationType("team_invitation")}
+                </div>
+                <div className="flex-1">
+                  <p className="text-sm text-gray-800 dark:text-gray-200 font-medium">
+                    Join {invitation.team.name}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {invitation.inviter.fullName} invited you as {invitation.role}
+                  </p>
+                  <div className="flex space-x-2 mt-2">
+                    <Button
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => acceptInvitation(invitation.id)}
+                      disabled={isResponding}
+                    >
+                      <Check className="h-3 w-3 mr-1" />
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => rejectInvitation(invitation.id)}
+                      disabled={isResponding}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+          {notifications.length === 0 && invitations.length === 0 ? (
             <div className="p-4 text-center text-gray-500 dark:text-gray-400">
               <p>No notifications yet</p>
             </div>
@@ -112,6 +206,7 @@ export function NotificationDropdown() {
                 className={`p-3 focus:bg-gray-50 dark:focus:bg-dark border-b border-gray-200 dark:border-dark-darker cursor-pointer ${
                   notification.read ? "opacity-70" : "opacity-100"
                 }`}
+                onSelect={() => handleNotificationClick(notification)}
               >
                 <div className="flex">
                   <div className="flex-shrink-0 mr-3">
@@ -119,13 +214,13 @@ export function NotificationDropdown() {
                   </div>
                   <div>
                     <p className="text-sm text-gray-800 dark:text-gray-200 font-medium">
-                      {notification.type.charAt(0).toUpperCase() + notification.type.slice(1)} {notification.read ? "" : "(new)"}
+                      {NOTIFICATION_TITLES[notification.type] || "Notification"} {notification.read ? "" : "(new)"}
                     </p>
                     <p className="text-xs text-gray-500 dark:text-gray-400">
                       {notification.message}
                     </p>
                     <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-                      {formatDate(notification.time)}
+                      {formatDate(notification.createdAt)}
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Check, Loader2, Mail, X } from "lucide-react";
+import type { Team, TeamInvitation, User } from "@shared/schema";
+
+export type PendingInvitation = TeamInvitation & { team: Team; inviter: User };
+
+// Pending invitations for the current user, with accept / reject actions
+export function usePendingInvitations() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: invitations = [], isLoading } = useQuery<PendingInvitation[]>({
+    queryKey: ["/api/invitations"],
+    enabled: !!user,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: "accept" | "reject" }) => {
+      return apiRequest("POST", `/api/invitations/${id}/${action}`);
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      if (action === "accept") {
+        queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      }
+      toast({
+        title: action === "accept" ? "Invitation accepted" : "Invitation declined",
+        description: action === "accept" ? "You have joined the team." : "The invitation has been declined.",
+      });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        variant: "destructive",
+        title: "Failed to respond to invitation",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
+  return {
+    invitations,
+    isLoading,
+    accept: (id: number) => respondMutation.mutate({ id, action: "accept" }),
+    reject: (id: number) => respondMutation.mutate({ id, action: "reject" }),
+    isResponding: respondMutation.isPending,
+  };
+}
+
+export function PendingInvitationsCard() {
+  const { invitations, accept, reject, isResponding } = usePendingInvitations();
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <Mail className="h-5 w-5 mr-2 text-primary" />
+          Pending Invitations
+          <Badge variant="secondary" className="ml-2">{invitations.length}</Badge>
+        </CardTitle>
+        <CardDescription>Teams you have been invited to join</CardDescription>
+      </CardHeader>
+      <CardContent className="divide-y divide-gray-200 dark:divide-gray-800">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between py-3">
+            <div>
+              <div className="font-medium">{invitation.team.name}</div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                Invited by {invitation.inviter.fullName} as {invitation.role}
+                {invitation.expiresAt && <> &middot; expires {formatDate(invitation.expiresAt)}</>}
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button size="sm" onClick={() => accept(invitation.id)} disabled={isResponding}>
+                {isResponding ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Check className="h-4 w-4 mr-2" />
+                )}
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => reject(invitation.id)}
+                disabled={isResponding}
+              >
+                <X className="h-4 w-4 mr-2" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
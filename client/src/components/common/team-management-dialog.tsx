@@ -2,11 +2,12 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useQueryClient, useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { insertTeamMemberSchema, type User, type Team, type TeamMember } from "@shared/schema";
+import { insertTeamMemberSchema, type User, type Team, type TeamMember, type TeamInvitation } from "@shared/schema";
 import { TEAM_ROLES } from "@/lib/constants";
-import { Loader2, UserPlus, Trash2 } from "lucide-react";
+import { Loader2, UserPlus, Trash2, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -46,7 +47,7 @@ import {
 } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { getInitials } from "@/lib/utils";
+import { getInitials, formatDate, isOverdue } from "@/lib/utils";
 import { useAuth } from "@/contexts/auth-context";
 import {
   AlertDialog,
@@ -79,6 +80,10 @@ interface TeamMemberWithUser extends TeamMember {
   user: User;
 }
 
+interface TeamInvitationWithUser extends TeamInvitation {
+  user: User;
+}
+
 export function TeamManagementDialog({ 
   open, 
   onOpenChange, 
@@ -109,9 +114,20 @@ export function TeamManagementDialog({
     enabled: open && !!team,
   });
 
-  // Filter out users that are already team members
+  // Only users who can invite members manage the membership of this team
+  const { can } = usePermissions(team?.id);
+  const isAdmin = can("team:invite");
+
+  // Fetch pending invitations (admins only)
+  const { data: invitations = [], isLoading: isLoadingInvitations } = useQuery<TeamInvitationWithUser[]>({
+    queryKey: [`/api/teams/${team?.id}/invitations`],
+    enabled: open && !!team && !!isAdmin,
+  });
+
+  // Filter out users that are already team members or have a live invitation
   const availableUsers = users?.filter(user => 
-    !teamMembers?.some(member => member.userId === user.id)
+    !teamMembers?.some(member => member.userId === user.id) &&
+    !invitations.some(invitation => invitation.userId === user.id && !isOverdue(invitation.expiresAt))
   ) || [];
   // Set defaults
   const form = useForm<z.infer<typeof formSchema>>({
@@ -122,18 +138,20 @@ export function TeamManagementDialog({
     },
   });
 console.log(team);
-  // Add team member mutation
+  // Invite team member mutation. The user becomes a member once they accept.
   const addTeamMemberMutation = useMutation({
     mutationFn: async (data: z.infer<typeof formSchema>) => {
-      console.log("Calling API with:", data); // <--- Tambahkan ini
       if (!team) return null;
-      return apiRequest("POST", `/api/teams/${team.id}/members`, data);
+      return apiRequest("POST", `/api/teams/${team.id}/invitations`, {
+        userId: data.userId,
+        role: data.role,
+      });
     },
     onSuccess: async () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/teams/${team?.id}/members`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/teams/${team?.id}/invitations`] });
       toast({
-        title: "Team member added",
-        description: "Team member has been added successfully.",
+        title: "Invitation sent",
+        description: "The user will join the team once they accept the invitation.",
       });
       console.log("Resetting form with team ID:", team.id); // 👈 DEBUG
 
@@ -145,7 +163,7 @@ console.log(team);
     onError: (error) => {
       toast({
         variant: "destructive",
-        title: "Failed to add team member",
+        title: "Failed to send invitation",
         description: error instanceof Error ? error.message : "An unknown error occurred",
       });
     },
@@ -174,6 +192,27 @@ console.log(team);
     },
   });
 
+  // Revoke invitation mutation
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      return apiRequest("POST", `/api/invitations/${invitationId}/revoke`);
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/teams/${team?.id}/invitations`] });
+      toast({
+        title: "Invitation revoked",
+        description: "The invitation has been revoked.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to revoke invitation",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
   function onSubmit(data: z.infer<typeof formSchema>) {
     console.log(data);
     if (!team) return;
@@ -184,11 +223,6 @@ console.log(team);
     });
   }
 
-  // Check if current user is admin of this team
-  const isAdmin = teamMembers?.some(
-    member => member.userId === currentUser?.id && member.role === "admin"
-  );
-
   if (!team) return null;
 
   return (
@@ -203,9 +237,10 @@ console.log(team);
           </DialogHeader>
 
           <Tabs defaultValue="members" className="mt-2">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className={`grid w-full ${isAdmin ? "grid-cols-3" : "grid-cols-1"}`}>
               <TabsTrigger value="members">Team Members</TabsTrigger>
-              {isAdmin && <TabsTrigger value="add">Add Member</TabsTrigger>}
+              {isAdmin && <TabsTrigger value="invitations">Invitations</TabsTrigger>}
+              {isAdmin && <TabsTrigger value="add">Invite Member</TabsTrigger>}
             </TabsList>
             <TabsContent value="members" className="mt-4">
               <div className="max-h-[400px] overflow-y-auto">
@@ -275,6 +310,71 @@ console.log(team);
                 )}
               </div>
             </TabsContent>
+            {isAdmin && (
+              <TabsContent value="invitations" className="mt-4">
+                <div className="max-h-[400px] overflow-y-auto">
+                  {isLoadingInvitations ? (
+                    <div className="flex justify-center p-4">
+                      <Loader2 className="h-6 w-6 animate-spin" />
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>User</TableHead>
+                          <TableHead>Role</TableHead>
+                          <TableHead>Expires</TableHead>
+                          <TableHead className="w-20">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {invitations.length > 0 ? (
+                          invitations.map((invitation) => (
+                            <TableRow key={invitation.id}>
+                              <TableCell>
+                                <div className="font-medium">{invitation.user.fullName}</div>
+                                <div className="text-sm text-gray-500">{invitation.user.email}</div>
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="outline">
+                                  {invitation.role.charAt(0).toUpperCase() + invitation.role.slice(1)}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {isOverdue(invitation.expiresAt) ? (
+                                  <Badge variant="destructive">Expired</Badge>
+                                ) : invitation.expiresAt ? (
+                                  formatDate(invitation.expiresAt)
+                                ) : (
+                                  "Never"
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Revoke invitation"
+                                  onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                                  disabled={revokeInvitationMutation.isPending}
+                                >
+                                  <XCircle className="h-4 w-4 text-red-500" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        ) : (
+                          <TableRow>
+                            <TableCell colSpan={4} className="text-center">
+                              No pending invitations
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              </TabsContent>
+            )}
             {isAdmin && (
               <TabsContent value="add" className="mt-4">
                 <Form {...form}>
@@ -311,7 +411,7 @@ console.log(team);
                                 </div>
                               ) : availableUsers.length === 0 ? (
                                 <SelectItem value="0" disabled>
-                                  No available users to add
+                                  No available users to invite
                                 </SelectItem>
                               ) : (
                                 availableUsers.map((user) => (
@@ -371,12 +471,12 @@ console.log(team);
                         {addTeamMemberMutation.isPending ? (
                           <>
                             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            Adding...
+                            Sending...
                           </>
                         ) : (
                           <>
                             <UserPlus className="mr-2 h-4 w-4" />
-                            Add Member
+                            Send Invitation
                           </>
                         )}
                       </Button>
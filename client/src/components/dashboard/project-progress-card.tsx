@@ -7,6 +7,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { TIME_PERIODS } from "@/lib/constants";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from "recharts";
 import { ArrowUp, ArrowDown } from "lucide-react";
+import type { ChecklistItem } from "@shared/schema";
 
 interface ProjectProgressCardProps {
   projectId?: number;
@@ -36,6 +37,16 @@ export function ProjectProgressCard({ projectId }: ProjectProgressCardProps) {
 
   const { completion, sprint } = calculateProgress();
 
+  // Checklist items on the same tasks
+  const { data: checklistItems = [], isLoading: isLoadingChecklist } = useQuery<ChecklistItem[]>({
+    queryKey: [projectId ? `/api/checklist-items?projectId=${projectId}` : "/api/checklist-items"],
+  });
+
+  const doneChecklistItems = checklistItems.filter(item => item.done).length;
+  const checklistCompletion = checklistItems.length
+    ? Math.round((doneChecklistItems / checklistItems.length) * 100)
+    : 0;
+
   // Mock data for the chart
   const progressData = [
     { name: "Mon", completion: 25, tasks: 5 },
@@ -89,7 +100,7 @@ export function ProjectProgressCard({ projectId }: ProjectProgressCardProps) {
       </CardHeader>
 
       <CardContent className="p-4">
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-4">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
           <div className="bg-gray-50 dark:bg-dark rounded-lg p-3">
             <div className="flex items-center justify-between mb-2">
               <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -121,6 +132,26 @@ export function ProjectProgressCard({ projectId }: ProjectProgressCardProps) {
               <Progress value={sprint} className="h-2" />
             )}
           </div>
+
+          <div className="bg-gray-50 dark:bg-dark rounded-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Checklist Completion
+              </h3>
+              <span className="text-lg font-semibold text-gray-900 dark:text-white">
+                {isLoadingChecklist ? (
+                  <Skeleton className="h-6 w-12" />
+                ) : (
+                  `${doneChecklistItems}/${checklistItems.length}`
+                )}
+              </span>
+            </div>
+            {isLoadingChecklist ? (
+              <Skeleton className="h-2 w-full" />
+            ) : (
+              <Progress value={checklistCompletion} className="h-2" />
+            )}
+          </div>
         </div>
 
         <div className="h-64 mb-4">
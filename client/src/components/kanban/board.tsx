@@ -4,10 +4,35 @@ import { DndProvider } from "react-dnd";
 import { HTML5Backend } from "react-dnd-html5-backend";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useProjectTasksSync } from "@/hooks/use-realtime";
+import { useProjectSprints } from "@/hooks/use-sprints";
+import { getStatusColumns, useProjectWorkflow } from "@/hooks/use-workflow";
 import { KanbanColumn } from "@/components/kanban/column";
-import { TASK_STATUSES } from "@/lib/constants";
+import {
+  getSwimlanes,
+  KanbanSwimlane,
+  SWIMLANE_GROUPINGS,
+  type Swimlane,
+  type SwimlaneChanges,
+  type SwimlaneGrouping,
+} from "@/components/kanban/swimlane";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Task } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Task, User } from "@shared/schema";
+import { applyColumnOrder, placeTask } from "@shared/task-order";
+
+interface TaskMove {
+  task: Task;
+  status: string;
+  beforeTaskId: number | null;
+  changes?: SwimlaneChanges;
+}
 
 interface KanbanBoardProps {
   projectId?: number;
@@ -16,60 +41,154 @@ interface KanbanBoardProps {
 export function KanbanBoard({ projectId }: KanbanBoardProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  // While a sprint is running the board shows just its tasks by default
+  const [mode, setMode] = useState<"sprint" | "all">("sprint");
+  const { activeSprint } = useProjectSprints(projectId);
+  const sprintOnly = !!activeSprint && mode === "sprint";
+  const workflow = useProjectWorkflow(projectId);
+  const [grouping, setGrouping] = useState<SwimlaneGrouping>("none");
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set());
 
   // Fetch tasks for the project or all tasks if no projectId
-  const { data: tasks, isLoading } = useQuery({
-    queryKey: [projectId ? `/api/tasks?projectId=${projectId}` : "/api/tasks"],
+  const tasksQueryKey = [projectId ? `/api/tasks?projectId=${projectId}` : "/api/tasks"];
+  const { data: tasks, isLoading } = useQuery<Task[]>({
+    queryKey: tasksQueryKey,
     enabled: true,
   });
 
-  // Group tasks by status
-  const groupedTasks = tasks?.reduce(
-    (acc: Record<string, Task[]>, task: Task) => {
-      const status = task.status || "todo";
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: grouping === "assignee",
+  });
+
+  // Apply task changes made by other people viewing this project
+  useProjectTasksSync(projectId);
+  
+  const visibleTasks = sprintOnly
+    ? tasks?.filter((task: Task) => task.sprintId === activeSprint.id)
+    : tasks;
+  
+  // One column per workflow status, and one for each status the workflow
+  // no longer has but tasks are still in
+  const columns = getStatusColumns(workflow.statuses, visibleTasks || []);
+
+  // Group tasks by status, making sure every column has an array even if empty
+  const groupByStatus = (laneTasks: Task[]) => {
+    const groupedTasks = laneTasks.reduce((acc: Record<string, Task[]>, task: Task) => {
+      const status = task.status || workflow.initialStatus;
       if (!acc[status]) {
         acc[status] = [];
       }
       acc[status].push(task);
       return acc;
+    }, {});
+
+    return columns.reduce((acc: Record<string, Task[]>, statusObj) => {
+      acc[statusObj.value] = groupedTasks[statusObj.value] || [];
+      return acc;
+    }, {});
+  };
+
+  const lanes = getSwimlanes(grouping, visibleTasks || [], tasks || [], users || []);
+
+  const toggleLane = (key: string, open: boolean) => {
+    setCollapsedLanes((current) => {
+      const next = new Set(current);
+      if (open) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Mutation for moving a task on the board. A task dropped into another
+  // swimlane also gets that lane's field in the same request. The card moves
+  // right away and goes back if the server turns the move down; the server's
+  // order replaces the guessed one once it answers.
+  const moveTaskMutation = useMutation({
+    mutationFn: async ({ task, status, beforeTaskId, changes }: TaskMove) => {
+      return apiRequest("POST", `/api/projects/${task.projectId}/tasks/reorder`, {
+        ...changes,
+        taskId: task.id,
+        status,
+        beforeTaskId,
+      });
     },
-    {}
-  ) || {};
-
-  // Ensure all statuses have an array even if empty
-  const tasksByStatus = TASK_STATUSES.reduce((acc: Record<string, Task[]>, statusObj) => {
-    acc[statusObj.value] = groupedTasks[statusObj.value] || [];
-    return acc;
-  }, {});
-
-  // Mutation for updating task status
-  const updateTaskMutation = useMutation({
-    mutationFn: async ({ taskId, status, order }: { taskId: number; status: string; order: number }) => {
-      return apiRequest("PUT", `/api/tasks/${taskId}/status`, { status, order });
+    onMutate: async ({ task, status, beforeTaskId, changes }: TaskMove) => {
+      await queryClient.cancelQueries({ queryKey: tasksQueryKey });
+      const previousTasks = queryClient.getQueryData<Task[]>(tasksQueryKey);
+
+      queryClient.setQueryData<Task[]>(tasksQueryKey, (old) => {
+        if (!old) return old;
+        const moved = old.map((t) => (t.id === task.id ? { ...t, ...changes, status } : t));
+        const columnTasks = moved.filter((t) => t.projectId === task.projectId && t.status === status);
+        return applyColumnOrder(moved, placeTask(columnTasks, task.id, beforeTaskId));
+      });
+      return { previousTasks };
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
-      if (projectId) {
-        queryClient.invalidateQueries({ queryKey: [`/api/tasks?projectId=${projectId}`] });
+    onError: (error, _move, context) => {
+      if (context?.previousTasks) {
+        queryClient.setQueryData(tasksQueryKey, context.previousTasks);
       }
-    },
-    onError: (error) => {
       toast({
         variant: "destructive",
         title: "Failed to update task",
         description: error instanceof Error ? error.message : "Unknown error occurred",
       });
     },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      if (projectId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/tasks?projectId=${projectId}`] });
+      }
+    },
   });
 
-  const handleTaskMove = (taskId: number, newStatus: string, newOrder: number) => {
-    updateTaskMutation.mutate({ taskId, status: newStatus, order: newOrder });
+  // Tasks only go where the project's workflow lets them: along an allowed
+  // transition, meeting the column's entry criteria and, for a hard limit,
+  // fitting under it. Without a project the server checks each task against
+  // its own project's workflow.
+  const canMoveTask = (taskId: number, newStatus: string) => {
+    const task = tasks?.find((t: Task) => t.id === taskId);
+    if (!projectId || !task || task.status === newStatus) return true;
+    
+    const tasksInStatus = tasks?.filter((t: Task) => t.status === newStatus).length ?? 0;
+    return workflow.canMove(task.status, newStatus) && !workflow.getEntryError(task, newStatus, tasksInStatus);
   };
 
-  if (isLoading) {
+  const handleTaskMove = (taskId: number, newStatus: string, beforeTaskId: number | null, lane?: Swimlane) => {
+    const task = tasks?.find((t: Task) => t.id === taskId);
+    if (!task) return;
+    moveTaskMutation.mutate({ task, status: newStatus, beforeTaskId, changes: lane?.changesFor(task) });
+  };
+
+  const renderColumns = (laneTasks: Task[], lane?: Swimlane) => {
+    const tasksByStatus = groupByStatus(laneTasks);
+    return (
+      <div className="flex space-x-4 overflow-x-auto pb-4 custom-scrollbar">
+        {columns.map((status) => (
+          <KanbanColumn
+            key={status.value}
+            status={status.value}
+            title={status.label}
+            color={status.color}
+            wipLimit={status.wipLimit}
+            wipCount={tasks?.filter((task: Task) => task.status === status.value).length ?? 0}
+            hardLimit={status.hardLimit}
+            tasks={tasksByStatus[status.value]}
+            projectId={projectId}
+            sprintId={sprintOnly ? activeSprint.id : undefined}
+            canMoveTask={canMoveTask}
+            onTaskMove={(taskId, newStatus, beforeTaskId) => handleTaskMove(taskId, newStatus, beforeTaskId, lane)}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  if (isLoading || workflow.isLoading) {
     return (
       <div className="flex space-x-4 overflow-x-auto pb-4 custom-scrollbar">
-        {TASK_STATUSES.map((status) => (
+        {workflow.statuses.map((status) => (
           <div
             key={status.value}
             className="kanban-column flex-shrink-0 w-80 bg-gray-100 dark:bg-dark-lighter rounded-lg p-3"
@@ -93,18 +212,43 @@ export function KanbanBoard({ projectId }: KanbanBoardProps) {
 
   return (
     <DndProvider backend={HTML5Backend}>
-      <div className="flex space-x-4 overflow-x-auto pb-4 custom-scrollbar">
-        {TASK_STATUSES.map((status) => (
-          <KanbanColumn
-            key={status.value}
-            status={status.value}
-            title={status.label}
-            tasks={tasksByStatus[status.value]}
-            projectId={projectId}
-            onTaskMove={handleTaskMove}
-          />
-        ))}
+      <div className="flex justify-end gap-2 mb-3">
+        <Select value={grouping} onValueChange={(value) => setGrouping(value as SwimlaneGrouping)}>
+          <SelectTrigger className="h-8 w-[180px] text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SWIMLANE_GROUPINGS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.value === "none" ? option.label : `Swimlanes: ${option.label}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {activeSprint && (
+          <Select value={mode} onValueChange={(value) => setMode(value as "sprint" | "all")}>
+            <SelectTrigger className="h-8 w-[200px] text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sprint">{activeSprint.name}</SelectItem>
+              <SelectItem value="all">All tasks</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
       </div>
+      {grouping === "none"
+        ? renderColumns(visibleTasks || [])
+        : lanes.map((lane) => (
+            <KanbanSwimlane
+              key={lane.key}
+              lane={lane}
+              open={!collapsedLanes.has(lane.key)}
+              onOpenChange={(open) => toggleLane(lane.key, open)}
+            >
+              {renderColumns(lane.tasks, lane)}
+            </KanbanSwimlane>
+          ))}
     </DndProvider>
   );
 }
@@ -1,66 +1,133 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useDrop } from "react-dnd";
 import { TaskCard } from "@/components/kanban/task-card";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 import { CreateTaskDialog } from "@/components/common/create-task-dialog";
-import { Task } from "@shared/schema";
+import { useProjectPermissions } from "@/hooks/use-permissions";
+import { useQuery } from "@tanstack/react-query";
+import { cn, formatEstimate, sumEstimates } from "@/lib/utils";
+import { Project, Task } from "@shared/schema";
 
 interface KanbanColumnProps {
   status: string;
   title: string;
+  color: string;
+  wipLimit: number | null;
+  wipCount: number; // tasks of the whole project in the column, also outside the sprint shown
+  hardLimit: boolean;
   tasks: Task[];
   projectId?: number;
-  onTaskMove: (taskId: number, newStatus: string, newOrder: number) => void;
+  sprintId?: number;
+  canMoveTask: (taskId: number, newStatus: string) => boolean;
+  // `beforeTaskId` is the card the task was dropped above, null below the last one
+  onTaskMove: (taskId: number, newStatus: string, beforeTaskId: number | null) => void;
 }
 
-export function KanbanColumn({ status, title, tasks, projectId, onTaskMove }: KanbanColumnProps) {
+export function KanbanColumn({
+  status,
+  title,
+  color,
+  wipLimit,
+  wipCount,
+  hardLimit,
+  tasks,
+  projectId,
+  sprintId,
+  canMoveTask,
+  onTaskMove,
+}: KanbanColumnProps) {
   const [isCreateTaskOpen, setIsCreateTaskOpen] = useState(false);
+  const { can } = useProjectPermissions(projectId);
+  // Without a project the dialog lets the user pick one
+  const canCreateTask = !projectId || can("task:create");
 
-  // Set up drop target
-  const [{ isOver }, drop] = useDrop({
+  const { data: project } = useQuery<Project>({
+    queryKey: [`/api/projects/${projectId}`],
+    enabled: !!projectId,
+  });
+
+  const estimatedTasks = tasks.filter((task) => task.estimate != null);
+  const overLimit = wipLimit !== null && wipCount > wipLimit;
+  const totalEstimate = sumEstimates(estimatedTasks);
+
+  const cardsRef = useRef<HTMLDivElement>(null);
+
+  // Set up drop target. The task goes above the first other card whose
+  // middle is below the pointer.
+  const [{ isOver, canDrop }, drop] = useDrop({
     accept: "task",
-    drop: (item: { id: number }) => {
-      const newOrder = tasks.length; // Add to the end of the column
-      onTaskMove(item.id, status, newOrder);
+    canDrop: (item: { id: number }) => canMoveTask(item.id, status),
+    drop: (item: { id: number }, monitor) => {
+      const pointer = monitor.getClientOffset();
+      const cards = Array.from(cardsRef.current?.querySelectorAll<HTMLElement>("[data-task-id]") ?? []);
+      const before = cards.find((card) => {
+        if (Number(card.dataset.taskId) === item.id || !pointer) return false;
+        const { top, height } = card.getBoundingClientRect();
+        return pointer.y < top + height / 2;
+      });
+      onTaskMove(item.id, status, before ? Number(before.dataset.taskId) : null);
     },
     collect: (monitor) => ({
       isOver: !!monitor.isOver(),
+      canDrop: monitor.canDrop(),
     }),
   });
 
   return (
     <div
       ref={drop}
-      className={`kanban-column flex-shrink-0 w-80 rounded-lg p-3 ${
-        isOver
-          ? "bg-gray-200 dark:bg-gray-700"
-          : "bg-gray-100 dark:bg-dark-lighter"
-      }`}
+      className={cn(
+        "kanban-column flex-shrink-0 w-80 rounded-lg p-3",
+        isOver && canDrop ? "bg-gray-200 dark:bg-gray-700" : "bg-gray-100 dark:bg-dark-lighter",
+        isOver && !canDrop && "opacity-60 cursor-not-allowed",
+        overLimit && "ring-2 ring-red-400 dark:ring-red-600"
+      )}
     >
       <div className="flex items-center justify-between mb-3">
-        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
+          <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: color }} />
           {title}
         </h3>
-        <span className="text-xs font-medium bg-gray-200 dark:bg-dark text-gray-700 dark:text-gray-300 rounded-full px-2 py-0.5">
-          {tasks.length}
-        </span>
+        <div className="flex items-center gap-1">
+          {estimatedTasks.length > 0 && (
+            <span
+              className="text-xs font-medium text-gray-500 dark:text-gray-400"
+              title={`${estimatedTasks.length} of ${tasks.length} tasks estimated`}
+            >
+              {formatEstimate(totalEstimate, project?.estimateUnit)}
+            </span>
+          )}
+          <span
+            className={cn(
+              "text-xs font-medium rounded-full px-2 py-0.5",
+              overLimit
+                ? "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300"
+                : "bg-gray-200 dark:bg-dark text-gray-700 dark:text-gray-300"
+            )}
+            title={wipLimit !== null ? `Work in progress limit: ${wipLimit}${hardLimit ? " (enforced)" : ""}` : undefined}
+          >
+            {wipLimit !== null ? `${wipCount}/${wipLimit}` : tasks.length}
+          </span>
+        </div>
       </div>
 
-      <div className="drop-zone space-y-3 min-h-[100px]">
+      <div ref={cardsRef} className="drop-zone space-y-3 min-h-[100px]">
         {tasks.map((task) => (
           <TaskCard key={task.id} task={task} />
         ))}
       </div>
 
-      <Button
-        variant="ghost"
-        className="mt-3 flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-primary dark:hover:text-primary p-2 w-full"
-        onClick={() => setIsCreateTaskOpen(true)}
-      >
-        <Plus className="h-4 w-4 mr-2" />
-        <span>Add task</span>
-      </Button>
+      {canCreateTask && (
+        <Button
+          variant="ghost"
+          className="mt-3 flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-primary dark:hover:text-primary p-2 w-full"
+          onClick={() => setIsCreateTaskOpen(true)}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          <span>Add task</span>
+        </Button>
+      )}
 
       {/* Create Task Dialog */}
       {isCreateTaskOpen && (
@@ -69,6 +136,7 @@ export function KanbanColumn({ status, title, tasks, projectId, onTaskMove }: Ka
           onOpenChange={setIsCreateTaskOpen}
           projectId={projectId}
           initialStatus={status}
+          sprintId={sprintId}
         />
       )}
     </div>
@@ -0,0 +1,139 @@
+import type { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { TASK_CATEGORIES, TASK_PRIORITIES } from "@/lib/constants";
+import type { Task, User } from "@shared/schema";
+
+export type SwimlaneGrouping = "none" | "assignee" | "priority" | "tag" | "parent";
+
+export const SWIMLANE_GROUPINGS: { label: string; value: SwimlaneGrouping }[] = [
+  { label: "No swimlanes", value: "none" },
+  { label: "Assignee", value: "assignee" },
+  { label: "Priority", value: "priority" },
+  { label: "Tag", value: "tag" },
+  { label: "Parent task", value: "parent" },
+];
+
+// Fields a task gets when it is dropped into another lane
+export type SwimlaneChanges = Partial<Pick<Task, "assigneeId" | "priority" | "tags" | "parentTaskId">>;
+
+export interface Swimlane {
+  key: string;
+  label: string;
+  tasks: Task[];
+  // What has to change for `task` to belong to this lane, or undefined if it
+  // already does
+  changesFor: (task: Task) => SwimlaneChanges | undefined;
+}
+
+const CATEGORY_TAGS = TASK_CATEGORIES.map((category) => category.value);
+
+// A task sits in the lane of its first category tag
+const laneTag = (task: Task) => task.tags?.find((tag) => CATEGORY_TAGS.includes(tag)) ?? null;
+
+// Lanes are keyed by the value they stand for; "none" collects the tasks
+// without one
+function groupInto(
+  tasks: Task[],
+  lanes: { key: string; label: string }[],
+  keyOf: (task: Task) => string,
+  changesFor: (task: Task, key: string) => SwimlaneChanges
+): Swimlane[] {
+  return lanes.map((lane) => ({
+    ...lane,
+    tasks: tasks.filter((task) => keyOf(task) === lane.key),
+    changesFor: (task) => (keyOf(task) === lane.key ? undefined : changesFor(task, lane.key)),
+  }));
+}
+
+// The lanes of the board for a grouping. `projectTasks` are all tasks of
+// the project, for parents that aren't on the board themselves.
+export function getSwimlanes(
+  grouping: SwimlaneGrouping,
+  tasks: Task[],
+  projectTasks: Task[],
+  users: User[]
+): Swimlane[] {
+  switch (grouping) {
+    case "assignee": {
+      const assigneeIds = Array.from(new Set(tasks.flatMap((task) => (task.assigneeId ? [task.assigneeId] : []))));
+      const lanes = assigneeIds
+        .map((id) => {
+          const user = users.find((u) => u.id === id);
+          return { key: String(id), label: user ? user.fullName || user.username : `User ${id}` };
+        })
+        .sort((a, b) => a.label.localeCompare(b.label));
+      return groupInto(
+        tasks,
+        [...lanes, { key: "none", label: "Unassigned" }],
+        (task) => (task.assigneeId ? String(task.assigneeId) : "none"),
+        (_task, key) => ({ assigneeId: key === "none" ? null : parseInt(key) })
+      );
+    }
+    case "priority":
+      return groupInto(
+        tasks,
+        [...TASK_PRIORITIES].reverse().map((priority) => ({ key: priority.value, label: priority.label })),
+        (task) => task.priority || "medium",
+        (_task, key) => ({ priority: key })
+      );
+    case "tag":
+      // The lane's tag goes first, replacing the one of the lane the task leaves
+      return groupInto(
+        tasks,
+        [
+          ...TASK_CATEGORIES.map((category) => ({ key: category.value, label: category.label })),
+          { key: "none", label: "No tag" },
+        ],
+        (task) => laneTag(task) ?? "none",
+        (task, key) => {
+          const otherTags = (task.tags ?? []).filter((tag) =>
+            key === "none" ? !CATEGORY_TAGS.includes(tag) : tag !== laneTag(task) && tag !== key
+          );
+          return { tags: key === "none" ? otherTags : [key, ...otherTags] };
+        }
+      );
+    case "parent": {
+      const parentIds = Array.from(new Set(tasks.flatMap((task) => (task.parentTaskId ? [task.parentTaskId] : []))));
+      const lanes = parentIds.map((id) => ({
+        key: String(id),
+        label: projectTasks.find((task) => task.id === id)?.title ?? `Task ${id}`,
+      }));
+      return groupInto(
+        tasks,
+        [...lanes, { key: "none", label: "No parent task" }],
+        (task) => (task.parentTaskId ? String(task.parentTaskId) : "none"),
+        (_task, key) => ({ parentTaskId: key === "none" ? null : parseInt(key) })
+      );
+    }
+    default:
+      return [{ key: "all", label: "All tasks", tasks, changesFor: () => undefined }];
+  }
+}
+
+interface KanbanSwimlaneProps {
+  lane: Swimlane;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  children: ReactNode;
+}
+
+export function KanbanSwimlane({ lane, open, onOpenChange, children }: KanbanSwimlaneProps) {
+  return (
+    <Collapsible open={open} onOpenChange={onOpenChange} className="mb-2">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="mb-2 font-semibold text-gray-700 dark:text-gray-300">
+          {open ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+          {lane.label}
+          <span className="ml-2 text-xs font-medium text-muted-foreground">{lane.tasks.length}</span>
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>{children}</CollapsibleContent>
+    </Collapsible>
+  );
+}
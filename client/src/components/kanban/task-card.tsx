@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useDrag } from "react-dnd";
-import { Task, User } from "@shared/schema";
+import { Task, User, ChecklistItem, TaskDependency, Project } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 import {
   MoreHorizontal,
@@ -10,6 +10,10 @@ import {
   Pencil,
   Trash2,
   MessageSquare,
+  GitBranch,
+  ListChecks,
+  Lock,
+  Repeat,
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -21,11 +25,15 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
 import { TASK_CATEGORIES } from "@/lib/constants";
-import { cn, getInitials, truncate, isOverdue, formatDate } from "@/lib/utils";
+import { cn, getInitials, truncate, isOverdue, formatDate, formatEstimate } from "@/lib/utils";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
 import { EditTaskDialog } from "@/components/common/edit-task-dialog";
 import { DeleteTaskDialog } from "@/components/common/delete-task-dialog";
 import { TaskDetailDialog } from "@/components/tasks/task-detail-dialog";
+import { TaskTimer } from "@/components/tasks/task-timer";
+import { useProjectPermissions } from "@/hooks/use-permissions";
+import { useProjectWorkflow } from "@/hooks/use-workflow";
 
 interface TaskCardProps {
   task: Task;
@@ -36,11 +44,13 @@ export function TaskCard({ task }: TaskCardProps) {
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
+  const { can } = useProjectPermissions(task.projectId);
 
   // Set up drag source
   const [{ isDragging }, drag] = useDrag({
     type: "task",
     item: { id: task.id },
+    canDrag: () => can("task:update"),
     collect: (monitor) => ({
       isDragging: !!monitor.isDragging(),
     }),
@@ -58,6 +68,8 @@ export function TaskCard({ task }: TaskCardProps) {
     ? TASK_CATEGORIES.find((cat) => cat.value === primaryTag)?.color || "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
     : "";
 
+  const workflow = useProjectWorkflow(task.projectId);
+  
   // Check if task is overdue
   const taskIsOverdue = task.dueDate ? isOverdue(task.dueDate) : false;
   
@@ -68,11 +80,42 @@ export function TaskCard({ task }: TaskCardProps) {
   });
   
   const commentCount = comments.length;
+  
+  // Roll up subtask progress from the project's tasks; both lists are shared
+  // by every card of the project
+  const { data: projectTasks = [] } = useQuery<Task[]>({
+    queryKey: [`/api/tasks?projectId=${task.projectId}`],
+    enabled: !!task.projectId,
+  });
+  const { data: checklistItems = [] } = useQuery<ChecklistItem[]>({
+    queryKey: [`/api/checklist-items?projectId=${task.projectId}`],
+    enabled: !!task.projectId,
+  });
+  
+  const subtasks = projectTasks.filter((t) => t.parentTaskId === task.id);
+  const completedSubtasks = subtasks.filter((t) => workflow.isDone(t.status)).length;
+  const taskChecklist = checklistItems.filter((item) => item.taskId === task.id);
+  const doneChecklistItems = taskChecklist.filter((item) => item.done).length;
+  
+  // Blocked while any of the task's blockers isn't complete
+  const { data: dependencies = [] } = useQuery<(TaskDependency & { blockerComplete: boolean })[]>({
+    queryKey: [`/api/task-dependencies?projectId=${task.projectId}`],
+    enabled: !!task.projectId,
+  });
+  const openBlockers = dependencies.filter(
+    (dependency) => dependency.blockedTaskId === task.id && !dependency.blockerComplete
+  ).length;
+  
+  const { data: project } = useQuery<Project>({
+    queryKey: [`/api/projects/${task.projectId}`],
+    enabled: !!task.projectId && task.estimate != null,
+  });
 
   return (
     <>
       <div
         ref={drag}
+        data-task-id={task.id}
         className={cn(
           "drag-item bg-white dark:bg-dark shadow-card hover:shadow-cardHover rounded-md p-3 cursor-grab",
           isDragging && "opacity-50"
@@ -100,13 +143,15 @@ export function TaskCard({ task }: TaskCardProps) {
               </button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={(e) => {
-                e.stopPropagation();
-                setIsEditOpen(true);
-              }}>
-                <Pencil className="mr-2 h-4 w-4" />
-                Edit Task
-              </DropdownMenuItem>
+              {can("task:update") && (
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation();
+                  setIsEditOpen(true);
+                }}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit Task
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem onClick={(e) => {
                 e.stopPropagation();
                 setIsDetailOpen(true);
@@ -114,17 +159,21 @@ export function TaskCard({ task }: TaskCardProps) {
                 <MessageSquare className="mr-2 h-4 w-4" />
                 View Details
               </DropdownMenuItem>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem 
-                className="text-red-600 dark:text-red-400" 
-                onClick={(e) => {
-                  e.stopPropagation();
-                  setIsDeleteOpen(true);
-                }}
-              >
-                <Trash2 className="mr-2 h-4 w-4" />
-                Delete Task
-              </DropdownMenuItem>
+              {can("task:delete") && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem 
+                    className="text-red-600 dark:text-red-400" 
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setIsDeleteOpen(true);
+                    }}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete Task
+                  </DropdownMenuItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -133,6 +182,13 @@ export function TaskCard({ task }: TaskCardProps) {
           {task.title}
         </h4>
 
+        {openBlockers > 0 && (
+          <div className="flex items-center text-xs text-amber-600 dark:text-amber-500 mb-2">
+            <Lock className="h-3 w-3 mr-1" />
+            <span>Blocked by {openBlockers} {openBlockers === 1 ? "task" : "tasks"}</span>
+          </div>
+        )}
+
         {task.description && (
           <p
             className="text-xs text-gray-500 dark:text-gray-400 mb-3 cursor-pointer"
@@ -147,6 +203,19 @@ export function TaskCard({ task }: TaskCardProps) {
           </p>
         )}
 
+        {subtasks.length > 0 && (
+          <div className="mb-3">
+            <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+              <div className="flex items-center">
+                <GitBranch className="h-3 w-3 mr-1" />
+                <span>Subtasks</span>
+              </div>
+              <span>{completedSubtasks}/{subtasks.length}</span>
+            </div>
+            <Progress value={(completedSubtasks / subtasks.length) * 100} className="h-1.5" />
+          </div>
+        )}
+
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             {isLoadingAssignee ? (
@@ -164,12 +233,40 @@ export function TaskCard({ task }: TaskCardProps) {
               </Avatar>
             )}
             
+            {task.estimate != null && (
+              <span className="text-xs font-medium bg-gray-100 dark:bg-dark text-gray-600 dark:text-gray-300 rounded px-1.5 py-0.5">
+                {formatEstimate(task.estimate, project?.estimateUnit)}
+              </span>
+            )}
+            
+            {task.recurrenceId && (
+              <div className="flex items-center text-xs text-gray-500 dark:text-gray-400" title="Recurring task">
+                <Repeat className="h-3 w-3" />
+              </div>
+            )}
+            
+            {taskChecklist.length > 0 && (
+              <div
+                className={cn(
+                  "flex items-center text-xs",
+                  doneChecklistItems === taskChecklist.length
+                    ? "text-secondary"
+                    : "text-gray-500 dark:text-gray-400"
+                )}
+              >
+                <ListChecks className="h-3 w-3 mr-1" />
+                <span>{doneChecklistItems}/{taskChecklist.length}</span>
+              </div>
+            )}
+            
             {commentCount > 0 && (
               <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
                 <MessageSquare className="h-3 w-3 mr-1" />
                 <span>{commentCount}</span>
               </div>
             )}
+            
+            <TaskTimer taskId={task.id} projectId={task.projectId} compact />
           </div>
 
           {task.dueDate && (
@@ -186,7 +283,7 @@ export function TaskCard({ task }: TaskCardProps) {
                   <AlertCircle className="h-3 w-3 mr-1" />
                   <span>Overdue</span>
                 </>
-              ) : task.status === "complete" ? (
+              ) : workflow.isDone(task.status) ? (
                 <>
                   <CheckCircle className="h-3 w-3 mr-1 text-secondary" />
                   <span className="text-secondary">Completed</span>
@@ -10,6 +10,7 @@ import {
   LayoutDashboard,
   CheckSquare,
   Calendar,
+  Clock,
   MessageSquare,
   FolderArchive,
   Settings,
@@ -19,6 +20,7 @@ import {
   Users,
   Users2,
   UserCog,
+  ScrollText,
   LifeBuoy,
 } from "lucide-react";
 import { CreateProjectDialog } from "@/components/common/create-project-dialog";
@@ -55,6 +57,11 @@ export function Sidebar() {
       icon: <Calendar className="h-5 w-5" />,
       href: ROUTES.CALENDAR,
     },
+    {
+      title: "Timesheet",
+      icon: <Clock className="h-5 w-5" />,
+      href: ROUTES.TIMESHEET,
+    },
     {
       title: "Teams",
       icon: <Users className="h-5 w-5" />,
@@ -92,6 +99,11 @@ export function Sidebar() {
       icon: <UserCog className="h-5 w-5" />,
       href: ROUTES.ADMIN_USERS,
     },
+    {
+      title: "Audit Log",
+      icon: <ScrollText className="h-5 w-5" />,
+      href: ROUTES.ADMIN_AUDIT_LOG,
+    },
   ] : [];
 
   return (
@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  BarChart,
+  Bar,
+  ScatterChart,
+  Scatter,
+  Cell,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { TaskDetailDialog } from "@/components/tasks/task-detail-dialog";
+import { useProjectWorkflow } from "@/hooks/use-workflow";
+import { format } from "date-fns";
+import { type CycleTimeReport, type TaskTiming, type TimingStats } from "@shared/cycle-time";
+import type { Task, User } from "@shared/schema";
+
+const DAY = 24 * 60 * 60;
+const HISTOGRAM_MAX_BUCKETS = 20;
+
+// Short durations read better in hours, longer ones in days
+function formatDuration(seconds: number | null | undefined): string {
+  if (seconds == null) return "–";
+  if (seconds < DAY) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / DAY).toFixed(1)}d`;
+}
+
+type Metric = "cycleTime" | "leadTime";
+
+interface CycleTimeAnalyticsProps {
+  projectId: number;
+  from: string;
+  to: string;
+}
+
+// How long completed tasks took: every task on a scatter plot or a histogram,
+// percentiles per assignee and tag, and the slowest tasks to look into
+export function CycleTimeAnalytics({ projectId, from, to }: CycleTimeAnalyticsProps) {
+  const [metric, setMetric] = useState<Metric>("cycleTime");
+  const [view, setView] = useState("scatter");
+  const [groupBy, setGroupBy] = useState<"assignee" | "tag">("assignee");
+  const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
+  const workflow = useProjectWorkflow(projectId);
+
+  const { data: report, isLoading } = useQuery<CycleTimeReport>({
+    queryKey: [`/api/projects/${projectId}/analytics/cycle-time?from=${from}&to=${to}`],
+  });
+
+  const { data: tasks = [] } = useQuery<Task[]>({
+    queryKey: [`/api/tasks?projectId=${projectId}`],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const stats = report?.overall[metric];
+  const timings = (report?.tasks ?? []).filter((timing) => timing[metric] !== null);
+  const selectedTask = tasks.find((task) => task.id === selectedTaskId) ?? null;
+
+  // Tasks slower than the 85th percentile stand out on the chart and get
+  // listed; with only a handful of tasks nothing counts as an outlier
+  const isOutlier = (timing: TaskTiming) => !!stats && timings.length >= 5 && timing[metric]! > stats.p85;
+  const outliers = timings
+    .filter(isOutlier)
+    .sort((a, b) => b[metric]! - a[metric]!);
+
+  const scatterData = timings.map((timing) => ({
+    taskId: timing.taskId,
+    title: timing.title,
+    completedAt: new Date(timing.completedAt).getTime(),
+    days: timing[metric]! / DAY,
+    outlier: isOutlier(timing),
+  }));
+
+  // Histogram buckets of whole days, widened so there are at most 20 of them
+  const maxDays = Math.max(0, ...scatterData.map((point) => point.days));
+  const bucketSize = Math.max(1, Math.ceil((maxDays + 1) / HISTOGRAM_MAX_BUCKETS));
+  const histogramData = Array.from({ length: Math.ceil((maxDays + 1) / bucketSize) }, (_, index) => ({
+    name: bucketSize === 1
+      ? `${index}–${index + 1}d`
+      : `${index * bucketSize}–${(index + 1) * bucketSize}d`,
+    tasks: scatterData.filter((point) => Math.floor(point.days / bucketSize) === index).length,
+  }));
+
+  const userName = (userId: number | null) => {
+    if (userId === null) return "Unassigned";
+    const user = users.find((u) => u.id === userId);
+    return user ? user.fullName || user.username : `User ${userId}`;
+  };
+
+  const groups: (TimingStats & { label: string })[] = groupBy === "assignee"
+    ? (report?.byAssignee ?? []).map((group) => ({ ...group, label: userName(group.assigneeId) }))
+    : (report?.byTag ?? []).map((group) => ({ ...group, label: group.tag }));
+
+  const timeInStatus = report?.averageTimeInStatus ?? {};
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between gap-4">
+          <CardTitle>Cycle &amp; Lead Time</CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={metric} onValueChange={(value) => setMetric(value as Metric)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cycleTime">Cycle time</SelectItem>
+                <SelectItem value="leadTime">Lead time</SelectItem>
+              </SelectContent>
+            </Select>
+            <Tabs value={view} onValueChange={setView}>
+              <TabsList className="grid grid-cols-2 w-[220px]">
+                <TabsTrigger value="scatter">Scatter</TabsTrigger>
+                <TabsTrigger value="histogram">Histogram</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {metric === "cycleTime"
+            ? "From when work first started on a task until it was completed."
+            : "From when a task was created until it was completed."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {[
+            { label: "Tasks", value: stats ? String(stats.count) : "0" },
+            { label: "Average", value: formatDuration(stats?.average) },
+            { label: "50th percentile", value: formatDuration(stats?.p50) },
+            { label: "85th percentile", value: formatDuration(stats?.p85) },
+            { label: "95th percentile", value: formatDuration(stats?.p95) },
+          ].map((item) => (
+            <div key={item.label}>
+              <div className="text-2xl font-bold">{item.value}</div>
+              <div className="text-xs text-muted-foreground">{item.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="h-80">
+          {isLoading ? (
+            <div className="h-full flex items-center justify-center">
+              <p>Loading...</p>
+            </div>
+          ) : timings.length === 0 ? (
+            <div className="h-full flex items-center justify-center">
+              <p className="text-gray-500">No tasks completed in this period</p>
+            </div>
+          ) : view === "scatter" ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="completedAt"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={(value) => format(new Date(value), "MMM dd")}
+                  name="Completed"
+                />
+                <YAxis type="number" dataKey="days" name="Days" label={{ value: "Days", angle: -90, position: "insideLeft" }} />
+                <ZAxis range={[60, 60]} />
+                <Tooltip
+                  cursor={{ strokeDasharray: "3 3" }}
+                  content={({ payload }) => {
+                    const point = payload?.[0]?.payload;
+                    if (!point) return null;
+                    return (
+                      <div className="rounded-md border bg-background p-2 text-sm shadow">
+                        <div className="font-medium">{point.title}</div>
+                        <div className="text-muted-foreground">
+                          {formatDuration(point.days * DAY)}, completed {format(new Date(point.completedAt), "MMM d")}
+                        </div>
+                      </div>
+                    );
+                  }}
+                />
+                {stats && (
+                  <ReferenceLine y={stats.p85 / DAY} stroke="#F59E0B" strokeDasharray="5 5" label="85%" />
+                )}
+                <Scatter
+                  data={scatterData}
+                  onClick={(point) => setSelectedTaskId(point.taskId)}
+                  className="cursor-pointer"
+                >
+                  {scatterData.map((point) => (
+                    <Cell key={point.taskId} fill={point.outlier ? "#EF4444" : "#2563EB"} />
+                  ))}
+                </Scatter>
+              </ScatterChart>
+            </ResponsiveContainer>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogramData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis allowDecimals={false} />
+                <Tooltip formatter={(value) => [`${value} tasks`, "Completed"]} />
+                <Bar dataKey="tasks" fill="#2563EB" name="Tasks" />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold">Percentiles</h4>
+              <Select value={groupBy} onValueChange={(value) => setGroupBy(value as "assignee" | "tag")}>
+                <SelectTrigger className="h-8 w-[140px] text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="assignee">By assignee</SelectItem>
+                  <SelectItem value="tag">By tag</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{groupBy === "assignee" ? "Assignee" : "Tag"}</TableHead>
+                  <TableHead className="text-right">Tasks</TableHead>
+                  <TableHead className="text-right">Average</TableHead>
+                  <TableHead className="text-right">50%</TableHead>
+                  <TableHead className="text-right">85%</TableHead>
+                  <TableHead className="text-right">95%</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No data available
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  groups.map((group) => (
+                    <TableRow key={group.label}>
+                      <TableCell>{group.label}</TableCell>
+                      <TableCell className="text-right">{group[metric]?.count ?? 0}</TableCell>
+                      <TableCell className="text-right">{formatDuration(group[metric]?.average)}</TableCell>
+                      <TableCell className="text-right">{formatDuration(group[metric]?.p50)}</TableCell>
+                      <TableCell className="text-right">{formatDuration(group[metric]?.p85)}</TableCell>
+                      <TableCell className="text-right">{formatDuration(group[metric]?.p95)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-6">
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Average time in status</h4>
+              <ul className="space-y-1 text-sm">
+                {workflow.statuses.filter((status) => status.category !== "done").map((status) => (
+                  <li key={status.value} className="flex justify-between">
+                    <span className="text-muted-foreground">{status.label}</span>
+                    <span>{formatDuration(timeInStatus[status.value] ?? 0)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Slowest tasks</h4>
+              {outliers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No outliers</p>
+              ) : (
+                <ul className="space-y-1">
+                  {outliers.slice(0, 10).map((timing) => (
+                    <li key={timing.taskId} className="flex items-center justify-between gap-2 text-sm">
+                      <Button
+                        variant="link"
+                        className="h-auto p-0 truncate justify-start"
+                        onClick={() => setSelectedTaskId(timing.taskId)}
+                      >
+                        {timing.title}
+                      </Button>
+                      <span className="text-red-500 shrink-0">{formatDuration(timing[metric])}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+
+      <TaskDetailDialog
+        task={selectedTask}
+        open={!!selectedTask}
+        onClose={() => setSelectedTaskId(null)}
+      />
+    </Card>
+  );
+}
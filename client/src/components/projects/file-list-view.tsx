@@ -35,6 +35,7 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { getInitials, formatFileSize as formatBytes, formatDate } from "@/lib/utils";
 import { useAuth } from "@/contexts/auth-context";
+import { useProjectPermissions } from "@/hooks/use-permissions";
 
 interface FileListViewProps {
   projectId: number;
@@ -44,6 +45,7 @@ export function FileListView({ projectId }: FileListViewProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useProjectPermissions(projectId);
   const [searchTerm, setSearchTerm] = useState("");
   const [isUploadOpen, setIsUploadOpen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -310,18 +312,20 @@ export function FileListView({ projectId }: FileListViewProps) {
               <Download className="h-4 w-4 mr-2" />
               Download
             </Button>
-            <Button 
-              variant="destructive"
-              onClick={() => {
-                if (window.confirm("Are you sure you want to delete this file?")) {
-                  deleteFileMutation.mutate(selectedFile.id);
-                  setIsPreviewOpen(false);
-                }
-              }}
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              Delete
-            </Button>
+            {can("file:delete", selectedFile.uploadedBy) && (
+              <Button 
+                variant="destructive"
+                onClick={() => {
+                  if (window.confirm("Are you sure you want to delete this file?")) {
+                    deleteFileMutation.mutate(selectedFile.id);
+                    setIsPreviewOpen(false);
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
           </div>
         </DialogContent>
       </Dialog>
@@ -422,13 +426,15 @@ export function FileListView({ projectId }: FileListViewProps) {
             onChange={(e) => setSearchTerm(e.target.value)}
           />
         </div>
-        <Button 
-          onClick={() => setIsUploadOpen(true)}
-          className="flex items-center gap-2"
-        >
-          <FilePlus className="h-4 w-4" />
-          Upload File
-        </Button>
+        {can("file:upload") && (
+          <Button 
+            onClick={() => setIsUploadOpen(true)}
+            className="flex items-center gap-2"
+          >
+            <FilePlus className="h-4 w-4" />
+            Upload File
+          </Button>
+        )}
       </div>
       
       {filteredFiles.length === 0 ? (
@@ -438,7 +444,7 @@ export function FileListView({ projectId }: FileListViewProps) {
           <p className="text-gray-500 dark:text-gray-400 mb-4">
             {files.length ? "Try adjusting your search." : "Upload your first file to get started."}
           </p>
-          {!files.length && (
+          {!files.length && can("file:upload") && (
             <Button 
               onClick={() => setIsUploadOpen(true)}
               className="flex items-center gap-2"
@@ -511,13 +517,15 @@ export function FileListView({ projectId }: FileListViewProps) {
                           >
                             <Download className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="ghost" 
-                            size="icon"
-                            onClick={(e) => handleDeleteFile(e, file.id)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {can("file:delete", file.uploadedBy) && (
+                            <Button
+                              variant="ghost" 
+                              size="icon"
+                              onClick={(e) => handleDeleteFile(e, file.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -1,5 +1,7 @@
 import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useProjectTasksSync } from "@/hooks/use-realtime";
+import { useProjectWorkflow } from "@/hooks/use-workflow";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import {
@@ -14,6 +16,10 @@ import {
   Pie,
   Cell,
   Legend,
+  LineChart,
+  Line,
+  AreaChart,
+  Area,
 } from "recharts";
 import {
   Select,
@@ -23,9 +29,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { TIME_PERIODS, TASK_STATUSES } from "@/lib/constants";
-import { Task } from "@shared/schema";
-import { format, subDays, isAfter } from "date-fns";
+import { TIME_PERIODS } from "@/lib/constants";
+import { Task, ChecklistItem, Project } from "@shared/schema";
+import { sumTotals, type ProjectFlow } from "@shared/flow";
+import { formatEstimate, sumEstimates } from "@/lib/utils";
+import { CycleTimeAnalytics } from "./cycle-time-analytics";
+import { format, subDays, isAfter, parseISO, differenceInCalendarDays } from "date-fns";
 
 interface ProjectAnalyticsProps {
   projectId: number;
@@ -34,6 +43,8 @@ interface ProjectAnalyticsProps {
 export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
   const [timePeriod, setTimePeriod] = useState("7d");
   const [chartType, setChartType] = useState("progress");
+  // Whether the flow charts count tasks or add up their estimates
+  const [flowMeasure, setFlowMeasure] = useState<"counts" | "estimates">("counts");
   
   // Fetch tasks for the project
   const { data: tasks = [], isLoading } = useQuery<Task[]>({
@@ -41,6 +52,37 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
     enabled: !!projectId,
   });
   
+  // Fetch checklist items of the project's tasks
+  const { data: checklistItems = [] } = useQuery<ChecklistItem[]>({
+    queryKey: [`/api/checklist-items?projectId=${projectId}`],
+    enabled: !!projectId,
+  });
+  
+  // The unit estimates are in
+  const { data: project } = useQuery<Project>({
+    queryKey: [`/api/projects/${projectId}`],
+    enabled: !!projectId,
+  });
+  const estimateUnit = project?.estimateUnit;
+  
+  // Progress is counted by the categories of the project's workflow statuses
+  const workflow = useProjectWorkflow(projectId);
+  const doneStatuses = workflow.inCategory("done");
+  const activeStatuses = workflow.inCategory("active");
+  const notStartedStatuses = workflow.inCategory("not started");
+  
+  // Apply task changes made by other people viewing this project
+  useProjectTasksSync(projectId);
+  
+  // Status totals per day over the selected period
+  const periodDays = timePeriod === "30d" ? 30 : timePeriod === "90d" ? 90 : 7;
+  const flowFrom = format(subDays(new Date(), periodDays - 1), "yyyy-MM-dd");
+  const flowTo = format(new Date(), "yyyy-MM-dd");
+  const { data: flow } = useQuery<ProjectFlow>({
+    queryKey: [`/api/projects/${projectId}/analytics/flow?from=${flowFrom}&to=${flowTo}`],
+    enabled: !!projectId,
+  });
+  
   // Filter tasks based on time period
   const getFilteredTasks = () => {
     const now = new Date();
@@ -73,11 +115,9 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
     if (!filteredTasks.length) return { completion: 0, inProgress: 0, todo: 0 };
     
     const totalTasks = filteredTasks.length;
-    const completedTasks = filteredTasks.filter(task => task.status === "complete").length;
-    const inProgressTasks = filteredTasks.filter(task => 
-      task.status === "in progress" || task.status === "review"
-    ).length;
-    const todoTasks = filteredTasks.filter(task => task.status === "todo").length;
+    const completedTasks = filteredTasks.filter(task => doneStatuses.includes(task.status)).length;
+    const inProgressTasks = filteredTasks.filter(task => activeStatuses.includes(task.status)).length;
+    const todoTasks = filteredTasks.filter(task => notStartedStatuses.includes(task.status)).length;
     
     const completion = Math.round((completedTasks / totalTasks) * 100);
     const inProgress = Math.round((inProgressTasks / totalTasks) * 100);
@@ -88,12 +128,34 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
   
   const { completion, inProgress, todo } = calculateProgress();
   
+  // Checklist completion across the tasks in the selected period
+  const filteredTaskIds = new Set(filteredTasks.map(task => task.id));
+  const filteredChecklistItems = checklistItems.filter(item => filteredTaskIds.has(item.taskId));
+  const doneChecklistItems = filteredChecklistItems.filter(item => item.done).length;
+  const checklistCompletion = filteredChecklistItems.length
+    ? Math.round((doneChecklistItems / filteredChecklistItems.length) * 100)
+    : 0;
+  
+  // Effort-weighted progress: completed estimates out of all estimates.
+  // Tasks without an estimate don't count here.
+  const estimatedTasks = filteredTasks.filter(task => task.estimate != null);
+  const totalEffort = sumEstimates(estimatedTasks);
+  const completedEffort = sumEstimates(estimatedTasks.filter(task => doneStatuses.includes(task.status)));
+  const effortCompletion = totalEffort ? Math.round((completedEffort / totalEffort) * 100) : 0;
+  
+  // Data for effort per status
+  const effortData = workflow.statuses.map(status => ({
+    name: status.label,
+    effort: sumEstimates(estimatedTasks.filter(task => task.status === status.value)),
+  }));
+  
   // Data for task status distribution
-  const statusData = TASK_STATUSES.map(status => {
+  const statusData = workflow.statuses.map(status => {
     const count = filteredTasks.filter(task => task.status === status.value).length;
     return {
       name: status.label,
       value: count,
+      color: status.color,
     };
   }).filter(item => item.value > 0);
   
@@ -123,7 +185,7 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
       const formattedDate = format(date, "MMM dd");
       
       const completedTasksCount = filteredTasks.filter(task => {
-        if (task.status === "complete") {
+        if (doneStatuses.includes(task.status)) {
           const dueDate = new Date(task.dueDate || new Date());
           return format(dueDate, "MMM dd") === formattedDate;
         }
@@ -147,6 +209,40 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
   
   const dailyProgressData = getDailyProgressData();
   
+  // Burndown: work left per day, against a straight line down to zero on the
+  // project's due date. Burnup: completed work against the total scope.
+  const flowDays = flow?.days ?? [];
+  const openStatuses = [...notStartedStatuses, ...activeStatuses];
+  const dueDate = project?.dueDate ? new Date(project.dueDate) : null;
+  const firstRemaining = flowDays.length ? sumTotals(flowDays[0][flowMeasure], openStatuses) : 0;
+  const idealDays = dueDate && flowDays.length
+    ? differenceInCalendarDays(dueDate, parseISO(flowDays[0].day))
+    : 0;
+  
+  const flowData = flowDays.map(flowDay => {
+    const totals = flowDay[flowMeasure];
+    const elapsed = differenceInCalendarDays(parseISO(flowDay.day), parseISO(flowDays[0].day));
+    const row: Record<string, string | number | null> = {
+      name: format(parseISO(flowDay.day), "MMM dd"),
+      remaining: sumTotals(totals, openStatuses),
+      completed: sumTotals(totals, doneStatuses),
+      scope: sumTotals(totals),
+      ideal: idealDays > 0 ? Math.max(0, firstRemaining * (1 - elapsed / idealDays)) : null,
+    };
+    workflow.statuses.forEach(status => {
+      row[status.value] = totals[status.value] ?? 0;
+    });
+    return row;
+  });
+  
+  const flowUnitLabel = flowMeasure === "counts"
+    ? "Tasks"
+    : estimateUnit === "hours" ? "Hours" : "Points";
+  const formatFlowValue = (value: unknown) => flowMeasure === "counts"
+    ? `${value} tasks`
+    : formatEstimate(Number(value), estimateUnit);
+  const isFlowChart = ["burndown", "burnup", "flow"].includes(chartType);
+  
   // Colors for charts
   const COLORS = ["#2563EB", "#10B981", "#F59E0B", "#EF4444", "#8B5CF6"];
   
@@ -187,7 +283,7 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
         </Select>
       </div>
       
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-base">Completed Tasks</CardTitle>
@@ -197,7 +293,7 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
               <div className="flex-1">
                 <div className="text-3xl font-bold">{completion}%</div>
                 <div className="text-xs text-muted-foreground">
-                  {filteredTasks.filter(task => task.status === "complete").length} of {filteredTasks.length} tasks
+                  {filteredTasks.filter(task => doneStatuses.includes(task.status)).length} of {filteredTasks.length} tasks
                 </div>
               </div>
               <div className="w-12 h-12 rounded-full border-8 border-blue-500 dark:border-blue-600" style={{ borderRightColor: 'transparent' }}></div>
@@ -215,9 +311,7 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
               <div className="flex-1">
                 <div className="text-3xl font-bold">{inProgress}%</div>
                 <div className="text-xs text-muted-foreground">
-                  {filteredTasks.filter(task => 
-                    task.status === "in progress" || task.status === "review"
-                  ).length} of {filteredTasks.length} tasks
+                  {filteredTasks.filter(task => activeStatuses.includes(task.status)).length} of {filteredTasks.length} tasks
                 </div>
               </div>
               <div className="w-12 h-12 rounded-full border-8 border-orange-500 dark:border-orange-600" style={{ borderRightColor: 'transparent' }}></div>
@@ -235,7 +329,7 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
               <div className="flex-1">
                 <div className="text-3xl font-bold">{todo}%</div>
                 <div className="text-xs text-muted-foreground">
-                  {filteredTasks.filter(task => task.status === "todo").length} of {filteredTasks.length} tasks
+                  {filteredTasks.filter(task => notStartedStatuses.includes(task.status)).length} of {filteredTasks.length} tasks
                 </div>
               </div>
               <div className="w-12 h-12 rounded-full border-8 border-gray-400 dark:border-gray-500" style={{ borderRightColor: 'transparent' }}></div>
@@ -243,19 +337,74 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
             <Progress value={todo} className="h-2 mt-4 bg-gray-200 dark:bg-gray-700" />
           </CardContent>
         </Card>
+        
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Checklist Items</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center">
+              <div className="flex-1">
+                <div className="text-3xl font-bold">{checklistCompletion}%</div>
+                <div className="text-xs text-muted-foreground">
+                  {doneChecklistItems} of {filteredChecklistItems.length} items done
+                </div>
+              </div>
+              <div className="w-12 h-12 rounded-full border-8 border-green-500 dark:border-green-600" style={{ borderRightColor: 'transparent' }}></div>
+            </div>
+            <Progress value={checklistCompletion} className="h-2 mt-4 bg-green-100 dark:bg-green-900" />
+          </CardContent>
+        </Card>
+        
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Effort Completed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center">
+              <div className="flex-1">
+                <div className="text-3xl font-bold">{effortCompletion}%</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatEstimate(completedEffort, estimateUnit)} of {formatEstimate(totalEffort, estimateUnit)}
+                  {estimatedTasks.length < filteredTasks.length &&
+                    ` (${filteredTasks.length - estimatedTasks.length} unestimated)`}
+                </div>
+              </div>
+              <div className="w-12 h-12 rounded-full border-8 border-purple-500 dark:border-purple-600" style={{ borderRightColor: 'transparent' }}></div>
+            </div>
+            <Progress value={effortCompletion} className="h-2 mt-4 bg-purple-100 dark:bg-purple-900" />
+          </CardContent>
+        </Card>
       </div>
       
       <Card>
         <CardHeader>
-          <div className="flex justify-between">
+          <div className="flex justify-between gap-4">
             <CardTitle>Task Analysis</CardTitle>
-            <Tabs value={chartType} onValueChange={setChartType}>
-              <TabsList className="grid grid-cols-3 w-[400px]">
-                <TabsTrigger value="progress">Progress</TabsTrigger>
-                <TabsTrigger value="status">Status</TabsTrigger>
-                <TabsTrigger value="priority">Priority</TabsTrigger>
-              </TabsList>
-            </Tabs>
+            <div className="flex items-center gap-2">
+              {isFlowChart && (
+                <Select value={flowMeasure} onValueChange={(value) => setFlowMeasure(value as "counts" | "estimates")}>
+                  <SelectTrigger className="w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="counts">Tasks</SelectItem>
+                    <SelectItem value="estimates">Effort</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              <Tabs value={chartType} onValueChange={setChartType}>
+                <TabsList className="grid grid-cols-7 w-[760px]">
+                  <TabsTrigger value="progress">Progress</TabsTrigger>
+                  <TabsTrigger value="status">Status</TabsTrigger>
+                  <TabsTrigger value="priority">Priority</TabsTrigger>
+                  <TabsTrigger value="effort">Effort</TabsTrigger>
+                  <TabsTrigger value="burndown">Burndown</TabsTrigger>
+                  <TabsTrigger value="burnup">Burnup</TabsTrigger>
+                  <TabsTrigger value="flow">Flow</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -293,7 +442,7 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
                       label={({name, percent}) => `${name}: ${(percent * 100).toFixed(0)}%`}
                     >
                       {statusData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        <Cell key={`cell-${index}`} fill={entry.color} />
                       ))}
                     </Pie>
                     <Tooltip formatter={(value) => [`${value} tasks`, 'Count']} />
@@ -336,9 +485,119 @@ export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
                 </div>
               )}
             </TabsContent>
+            
+            <TabsContent value="effort" className="mt-0 h-full">
+              {totalEffort > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={effortData}
+                    margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis />
+                    <Tooltip formatter={(value) => [formatEstimate(Number(value), estimateUnit), 'Effort']} />
+                    <Legend />
+                    <Bar
+                      dataKey="effort"
+                      fill="#8B5CF6"
+                      name={estimateUnit === "hours" ? "Estimated Hours" : "Story Points"}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="h-full flex items-center justify-center">
+                  <p className="text-gray-500">No estimated tasks</p>
+                </div>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="burndown" className="mt-0 h-full">
+              {flowData.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={flowData}
+                    margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis label={{ value: flowUnitLabel, angle: -90, position: "insideLeft" }} />
+                    <Tooltip formatter={(value) => formatFlowValue(value)} />
+                    <Legend />
+                    <Line type="monotone" dataKey="remaining" stroke="#2563EB" strokeWidth={2} name="Remaining" dot={false} />
+                    {idealDays > 0 && (
+                      <Line type="linear" dataKey="ideal" stroke="#94A3B8" strokeDasharray="5 5" name="Ideal" dot={false} />
+                    )}
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="h-full flex items-center justify-center">
+                  <p className="text-gray-500">No history recorded yet</p>
+                </div>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="burnup" className="mt-0 h-full">
+              {flowData.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={flowData}
+                    margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis label={{ value: flowUnitLabel, angle: -90, position: "insideLeft" }} />
+                    <Tooltip formatter={(value) => formatFlowValue(value)} />
+                    <Legend />
+                    <Line type="stepAfter" dataKey="scope" stroke="#94A3B8" strokeWidth={2} name="Total Scope" dot={false} />
+                    <Line type="monotone" dataKey="completed" stroke="#10B981" strokeWidth={2} name="Completed" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="h-full flex items-center justify-center">
+                  <p className="text-gray-500">No history recorded yet</p>
+                </div>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="flow" className="mt-0 h-full">
+              {flowData.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart
+                    data={flowData}
+                    margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis label={{ value: flowUnitLabel, angle: -90, position: "insideLeft" }} />
+                    <Tooltip formatter={(value) => formatFlowValue(value)} />
+                    <Legend />
+                    {/* Done at the bottom, so work flows up through the bands */}
+                    {[...workflow.statuses].reverse().map((status) => (
+                      <Area
+                        key={status.value}
+                        type="monotone"
+                        dataKey={status.value}
+                        stackId="flow"
+                        name={status.label}
+                        stroke={status.color}
+                        fill={status.color}
+                        fillOpacity={0.6}
+                      />
+                    ))}
+                  </AreaChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="h-full flex items-center justify-center">
+                  <p className="text-gray-500">No history recorded yet</p>
+                </div>
+              )}
+            </TabsContent>
           </div>
         </CardContent>
       </Card>
+
+      <CycleTimeAnalytics projectId={projectId} from={flowFrom} to={flowTo} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,359 @@
+import { useState, type ReactNode } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { DndProvider, useDrag, useDrop } from "react-dnd";
+import { HTML5Backend } from "react-dnd-html5-backend";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectTasksSync } from "@/hooks/use-realtime";
+import { useProjectPermissions } from "@/hooks/use-permissions";
+import { invalidateSprints, useProjectSprints } from "@/hooks/use-sprints";
+import { useProjectWorkflow } from "@/hooks/use-workflow";
+import { CreateSprintDialog } from "@/components/common/create-sprint-dialog";
+import { CloseSprintDialog } from "@/components/common/close-sprint-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { ChevronDown, Flag, Play, Plus, Trash2 } from "lucide-react";
+import { cn, formatEstimate, sumEstimates } from "@/lib/utils";
+import { addDays, format } from "date-fns";
+import type { Project, Sprint, Task } from "@shared/schema";
+
+const formatSprintDates = (sprint: Sprint) =>
+  `${format(new Date(sprint.startDate), "MMM d")} – ${format(new Date(sprint.endDate), "MMM d, yyyy")}`;
+
+interface SprintBacklogProps {
+  projectId: number;
+}
+
+interface BacklogTaskRowProps {
+  task: Task;
+  estimateUnit?: string;
+  canDrag: boolean;
+}
+
+function BacklogTaskRow({ task, estimateUnit, canDrag }: BacklogTaskRowProps) {
+  const workflow = useProjectWorkflow(task.projectId);
+
+  // Same item type as the kanban cards
+  const [{ isDragging }, drag] = useDrag({
+    type: "task",
+    item: { id: task.id },
+    canDrag: () => canDrag,
+    collect: (monitor) => ({
+      isDragging: !!monitor.isDragging(),
+    }),
+  });
+
+  return (
+    <li
+      ref={drag}
+      className={cn(
+        "flex items-center gap-3 px-3 py-2 bg-white dark:bg-dark rounded-md border border-gray-200 dark:border-gray-700 text-sm",
+        canDrag && "cursor-grab",
+        isDragging && "opacity-50"
+      )}
+    >
+      <span className={cn("flex-1 truncate", workflow.isDone(task.status) && "line-through text-muted-foreground")}>
+        {task.title}
+      </span>
+      <Badge variant="outline" className="text-xs">
+        {workflow.getLabel(task.status)}
+      </Badge>
+      {task.estimate != null && (
+        <span className="w-14 text-right text-xs text-muted-foreground">
+          {formatEstimate(task.estimate, estimateUnit)}
+        </span>
+      )}
+    </li>
+  );
+}
+
+interface TaskDropZoneProps {
+  sprintId: number | null;
+  tasks: Task[];
+  onDropTask: (taskId: number, sprintId: number | null) => void;
+  children: ReactNode;
+}
+
+// A sprint or the backlog; dropping a task there plans it into that sprint
+function TaskDropZone({ sprintId, tasks, onDropTask, children }: TaskDropZoneProps) {
+  const [{ isOver }, drop] = useDrop({
+    accept: "task",
+    drop: (item: { id: number }) => {
+      if (!tasks.some((task) => task.id === item.id)) {
+        onDropTask(item.id, sprintId);
+      }
+    },
+    collect: (monitor) => ({
+      isOver: !!monitor.isOver(),
+    }),
+  });
+
+  return (
+    <div
+      ref={drop}
+      className={cn(
+        "rounded-lg p-4",
+        isOver ? "bg-gray-200 dark:bg-gray-700" : "bg-gray-100 dark:bg-dark-lighter"
+      )}
+    >
+      {children}
+    </div>
+  );
+}
+
+function SprintReportSummary({ sprint, sprints, estimateUnit }: { sprint: Sprint; sprints: Sprint[]; estimateUnit?: string }) {
+  const report = sprint.report;
+  if (!report) return null;
+
+  const carriedOverTo = report.carriedOverTo === null
+    ? "the backlog"
+    : sprints.find((s) => s.id === report.carriedOverTo)?.name ?? "another sprint";
+
+  return (
+    <div className="text-sm text-muted-foreground space-y-1">
+      <p>
+        Completed {report.completedTaskIds.length} of {report.committedTaskIds.length} tasks
+        ({formatEstimate(report.completedEstimate, estimateUnit)} of{" "}
+        {formatEstimate(report.committedEstimate, estimateUnit)}).
+      </p>
+      {report.carriedOverTaskIds.length > 0 && (
+        <p>
+          {report.carriedOverTaskIds.length} unfinished {report.carriedOverTaskIds.length === 1 ? "task" : "tasks"} moved
+          to {carriedOverTo}.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Sprint planning: the open sprints of a project above its backlog, with
+// tasks dragged between them, and the reports of closed sprints below
+export function SprintBacklog({ projectId }: SprintBacklogProps) {
+  const { toast } = useToast();
+  const { can } = useProjectPermissions(projectId);
+  const { sprints, activeSprint, plannedSprints, closedSprints, isLoading: isLoadingSprints } = useProjectSprints(projectId);
+  const workflow = useProjectWorkflow(projectId);
+  const [isCreateSprintOpen, setIsCreateSprintOpen] = useState(false);
+  const [closingSprint, setClosingSprint] = useState<Sprint | null>(null);
+
+  const { data: project } = useQuery<Project>({
+    queryKey: [`/api/projects/${projectId}`],
+  });
+
+  const { data: tasks = [], isLoading: isLoadingTasks } = useQuery<Task[]>({
+    queryKey: [`/api/tasks?projectId=${projectId}`],
+  });
+
+  // Apply task changes made by other people viewing this project
+  useProjectTasksSync(projectId);
+
+  const canManage = can("sprint:manage");
+  const estimateUnit = project?.estimateUnit;
+  const openSprints = activeSprint ? [activeSprint, ...plannedSprints] : plannedSprints;
+  // Finished work that never was in a sprint would only clutter the backlog
+  const backlogTasks = tasks.filter((task) => task.sprintId === null && !workflow.isDone(task.status));
+  const tasksOf = (sprintId: number) => tasks.filter((task) => task.sprintId === sprintId);
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+    });
+  };
+
+  const moveTaskMutation = useMutation({
+    mutationFn: async ({ taskId, sprintId }: { taskId: number; sprintId: number | null }) => {
+      return apiRequest("PUT", `/api/tasks/${taskId}`, { sprintId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks?projectId=${projectId}`] });
+    },
+    onError: onError("Failed to move task"),
+  });
+
+  const startSprintMutation = useMutation({
+    mutationFn: async (sprintId: number) => {
+      return apiRequest("POST", `/api/sprints/${sprintId}/start`);
+    },
+    onSuccess: () => invalidateSprints(projectId),
+    onError: onError("Failed to start sprint"),
+  });
+
+  const deleteSprintMutation = useMutation({
+    mutationFn: async (sprintId: number) => {
+      return apiRequest("DELETE", `/api/sprints/${sprintId}`);
+    },
+    onSuccess: () => invalidateSprints(projectId),
+    onError: onError("Failed to delete sprint"),
+  });
+
+  const handleDropTask = (taskId: number, sprintId: number | null) => {
+    moveTaskMutation.mutate({ taskId, sprintId });
+  };
+
+  // The next sprint starts the day after the last one ends
+  const lastSprint = sprints[sprints.length - 1];
+  const nextSprintStart = lastSprint ? addDays(new Date(lastSprint.endDate), 1) : new Date();
+
+  const renderTaskList = (list: Task[], emptyText: string) => (
+    list.length === 0 ? (
+      <p className="text-sm text-muted-foreground py-4 text-center">{emptyText}</p>
+    ) : (
+      <ul className="space-y-2">
+        {list.map((task) => (
+          <BacklogTaskRow
+            key={task.id}
+            task={task}
+            estimateUnit={estimateUnit}
+            canDrag={can("task:update")}
+          />
+        ))}
+      </ul>
+    )
+  );
+
+  if (isLoadingSprints || isLoadingTasks) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-40 w-full rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <DndProvider backend={HTML5Backend}>
+      <div className="space-y-4">
+        {canManage && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={() => setIsCreateSprintOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Sprint
+            </Button>
+          </div>
+        )}
+
+        {openSprints.map((sprint) => {
+          const sprintTasks = tasksOf(sprint.id);
+          return (
+            <TaskDropZone key={sprint.id} sprintId={sprint.id} tasks={sprintTasks} onDropTask={handleDropTask}>
+              <div className="flex items-start justify-between gap-4 mb-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{sprint.name}</h3>
+                    {sprint.state === "active" && <Badge>Active</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatSprintDates(sprint)} · {sprintTasks.length} tasks ·{" "}
+                    {formatEstimate(sumEstimates(sprintTasks), estimateUnit)}
+                  </p>
+                  {sprint.goal && (
+                    <p className="flex items-center gap-1 text-sm mt-1">
+                      <Flag className="h-3 w-3 text-muted-foreground" />
+                      {sprint.goal}
+                    </p>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-2">
+                    {sprint.state === "active" ? (
+                      <Button size="sm" variant="outline" onClick={() => setClosingSprint(sprint)}>
+                        Close Sprint
+                      </Button>
+                    ) : (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!!activeSprint || startSprintMutation.isPending}
+                          title={activeSprint ? `Close ${activeSprint.name} first` : undefined}
+                          onClick={() => startSprintMutation.mutate(sprint.id)}
+                        >
+                          <Play className="h-4 w-4 mr-1" />
+                          Start
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          disabled={deleteSprintMutation.isPending}
+                          onClick={() => deleteSprintMutation.mutate(sprint.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+              {renderTaskList(sprintTasks, "Drag tasks here from the backlog")}
+            </TaskDropZone>
+          );
+        })}
+
+        <TaskDropZone sprintId={null} tasks={backlogTasks} onDropTask={handleDropTask}>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold">Backlog</h3>
+            <p className="text-xs text-muted-foreground">
+              {backlogTasks.length} tasks · {formatEstimate(sumEstimates(backlogTasks), estimateUnit)}
+            </p>
+          </div>
+          {renderTaskList(backlogTasks, "The backlog is empty")}
+        </TaskDropZone>
+
+        {closedSprints.length > 0 && (
+          <Collapsible>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="text-muted-foreground">
+                <ChevronDown className="h-4 w-4 mr-1" />
+                Closed sprints ({closedSprints.length})
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="space-y-3 mt-2">
+              {[...closedSprints].reverse().map((sprint) => (
+                <div key={sprint.id} className="rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <h3 className="font-medium">{sprint.name}</h3>
+                    <span className="text-xs text-muted-foreground">
+                      {formatSprintDates(sprint)}
+                    </span>
+                  </div>
+                  <SprintReportSummary sprint={sprint} sprints={sprints} estimateUnit={estimateUnit} />
+                </div>
+              ))}
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+      </div>
+
+      {isCreateSprintOpen && (
+        <CreateSprintDialog
+          open={isCreateSprintOpen}
+          onOpenChange={setIsCreateSprintOpen}
+          projectId={projectId}
+          sprintNumber={sprints.length + 1}
+          startDate={nextSprintStart}
+        />
+      )}
+
+      {closingSprint && (
+        <CloseSprintDialog
+          open={!!closingSprint}
+          onOpenChange={(open) => !open && setClosingSprint(null)}
+          sprint={closingSprint}
+          tasks={tasksOf(closingSprint.id)}
+          plannedSprints={plannedSprints}
+          estimateUnit={estimateUnit}
+        />
+      )}
+    </DndProvider>
+  );
+}
@@ -1,5 +1,8 @@
 import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useProjectTasksSync } from "@/hooks/use-realtime";
+import { useProjectPermissions } from "@/hooks/use-permissions";
+import { useProjectWorkflow } from "@/hooks/use-workflow";
 import { Task } from "@shared/schema";
 import {
   Table,
@@ -37,6 +40,8 @@ export function TaskListView({ projectId }: TaskListViewProps) {
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
+  const { can } = useProjectPermissions(projectId);
+  const workflow = useProjectWorkflow(projectId);
   
   // Fetch tasks for the project
   const { data: tasks = [], isLoading } = useQuery<Task[]>({
@@ -44,6 +49,9 @@ export function TaskListView({ projectId }: TaskListViewProps) {
     enabled: !!projectId,
   });
   
+  // Apply task changes made by other people viewing this project
+  useProjectTasksSync(projectId);
+  
   // Fetch users for assignee information
   const { data: users = [] } = useQuery({
     queryKey: ["/api/users"],
@@ -146,19 +154,12 @@ export function TaskListView({ projectId }: TaskListViewProps) {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge
-                          variant="outline"
-                          className={
-                            task.status === "todo"
-                              ? "bg-slate-100 text-slate-800 dark:bg-slate-800 dark:text-slate-300"
-                              : task.status === "in-progress"
-                              ? "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300"
-                              : task.status === "in-review"
-                              ? "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300"
-                              : "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
-                          }
-                        >
-                          {task.status.charAt(0).toUpperCase() + task.status.slice(1).replace("-", " ")}
+                        <Badge variant="outline" className="gap-1.5">
+                          <span
+                            className="h-2 w-2 rounded-full"
+                            style={{ backgroundColor: workflow.getColor(task.status) }}
+                          />
+                          {workflow.getLabel(task.status)}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -196,14 +197,14 @@ export function TaskListView({ projectId }: TaskListViewProps) {
                             className={`flex items-center ${
                               isTaskOverdue
                                 ? "text-red-500 dark:text-red-400"
-                                : task.status === "done"
+                                : workflow.isDone(task.status)
                                 ? "text-green-500 dark:text-green-400"
                                 : "text-gray-500 dark:text-gray-400"
                             }`}
                           >
                             {isTaskOverdue ? (
                               <AlertCircle className="h-4 w-4 mr-1" />
-                            ) : task.status === "done" ? (
+                            ) : workflow.isDone(task.status) ? (
                               <CheckCircle2 className="h-4 w-4 mr-1" />
                             ) : (
                               <Calendar className="h-4 w-4 mr-1" />
@@ -221,7 +222,15 @@ export function TaskListView({ projectId }: TaskListViewProps) {
                         <Button
                           variant="ghost" 
                           size="sm"
-                          onClick={(e) => handleEditTask(e, task)}
+                          onClick={(e) => {
+                            // Users who can't edit tasks get the read-only details
+                            if (can("task:update")) {
+                              handleEditTask(e, task);
+                            } else {
+                              e.stopPropagation();
+                              handleViewTask(task);
+                            }
+                          }}
                         >
                           <Eye className="h-4 w-4 mr-1" />
                           <span>View</span>
@@ -0,0 +1,445 @@
+import { useEffect, useRef, useState, type MouseEvent, type PointerEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectTasksSync } from "@/hooks/use-realtime";
+import { useProjectPermissions } from "@/hooks/use-permissions";
+import { useProjectWorkflow } from "@/hooks/use-workflow";
+import { TaskDetailDialog } from "@/components/tasks/task-detail-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  format,
+  isWeekend,
+  max,
+  min,
+  startOfDay,
+} from "date-fns";
+import type { Project, Task, TaskDependency } from "@shared/schema";
+
+const ROW_HEIGHT = 36;
+const HEADER_ROW_HEIGHT = 24;
+const ARROW_COLORS = { normal: "#94A3B8", conflict: "#EF4444" };
+
+const ZOOM_LEVELS = [
+  { label: "Days", value: "day", dayWidth: 36 },
+  { label: "Weeks", value: "week", dayWidth: 14 },
+  { label: "Months", value: "month", dayWidth: 4 },
+] as const;
+
+type Zoom = (typeof ZOOM_LEVELS)[number]["value"];
+
+// Both days are included
+interface Schedule {
+  start: Date;
+  end: Date;
+}
+
+type DragMode = "move" | "start" | "end";
+
+interface TimelineDrag {
+  taskId: number;
+  mode: DragMode;
+  originX: number;
+  days: number; // how far the pointer has moved, in whole days
+}
+
+// Where a task sits on the timeline. A task with just one of its dates set
+// takes up that one day.
+function getSchedule(task: Task): Schedule | null {
+  const start = task.startDate ? startOfDay(new Date(task.startDate)) : null;
+  const end = task.dueDate ? startOfDay(new Date(task.dueDate)) : null;
+  if (!start && !end) return null;
+  return { start: start ?? end!, end: end ?? start! };
+}
+
+// Moving a bar shifts both ends; dragging one end stops at the other
+function applyDrag(schedule: Schedule, mode: DragMode, days: number): Schedule {
+  switch (mode) {
+    case "move":
+      return { start: addDays(schedule.start, days), end: addDays(schedule.end, days) };
+    case "start":
+      return { ...schedule, start: min([addDays(schedule.start, days), schedule.end]) };
+    case "end":
+      return { ...schedule, end: max([addDays(schedule.end, days), schedule.start]) };
+  }
+}
+
+interface TaskTimelineProps {
+  projectId: number;
+}
+
+export function TaskTimeline({ projectId }: TaskTimelineProps) {
+  const { toast } = useToast();
+  const [zoom, setZoom] = useState<Zoom>("day");
+  const [drag, setDrag] = useState<TimelineDrag | null>(null);
+  const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scrolledToToday = useRef(false);
+  const workflow = useProjectWorkflow(projectId);
+  const { can } = useProjectPermissions(projectId);
+  const canEdit = can("task:update");
+
+  const { data: project, isLoading: isLoadingProject } = useQuery<Project>({
+    queryKey: [`/api/projects/${projectId}`],
+  });
+
+  const tasksQueryKey = [`/api/tasks?projectId=${projectId}`];
+  const { data: tasks = [], isLoading: isLoadingTasks } = useQuery<Task[]>({
+    queryKey: tasksQueryKey,
+  });
+
+  const { data: dependencies = [] } = useQuery<TaskDependency[]>({
+    queryKey: [`/api/task-dependencies?projectId=${projectId}`],
+  });
+
+  useProjectTasksSync(projectId);
+
+  const dayWidth = ZOOM_LEVELS.find((level) => level.value === zoom)!.dayWidth;
+  const today = startOfDay(new Date());
+
+  // Rescheduling shows right away and goes back if the server refuses it
+  const scheduleTaskMutation = useMutation({
+    mutationFn: async ({ task, schedule }: { task: Task; schedule: Schedule }) => {
+      return apiRequest("PUT", `/api/tasks/${task.id}`, {
+        startDate: schedule.start.toISOString(),
+        dueDate: schedule.end.toISOString(),
+      });
+    },
+    onMutate: async ({ task, schedule }: { task: Task; schedule: Schedule }) => {
+      await queryClient.cancelQueries({ queryKey: tasksQueryKey });
+      const previousTasks = queryClient.getQueryData<Task[]>(tasksQueryKey);
+      queryClient.setQueryData<Task[]>(tasksQueryKey, (old) =>
+        old?.map((t) => (t.id === task.id ? { ...t, startDate: schedule.start, dueDate: schedule.end } : t))
+      );
+      return { previousTasks };
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previousTasks) {
+        queryClient.setQueryData(tasksQueryKey, context.previousTasks);
+      }
+      toast({
+        variant: "destructive",
+        title: "Failed to reschedule task",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: tasksQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    },
+  });
+
+  // Scheduled tasks come first, in the order they start; the rest can be put
+  // on the timeline by clicking their row. Rows keep their place while a bar
+  // is dragged.
+  const rows = tasks
+    .map((task) => ({ task, saved: getSchedule(task) }))
+    .sort((a, b) => {
+      if (!a.saved || !b.saved) return a.saved ? -1 : b.saved ? 1 : a.task.order - b.task.order;
+      return a.saved.start.getTime() - b.saved.start.getTime() || a.saved.end.getTime() - b.saved.end.getTime();
+    })
+    .map(({ task, saved }) => ({
+      task,
+      schedule: saved && drag?.taskId === task.id ? applyDrag(saved, drag.mode, drag.days) : saved,
+    }));
+
+  // The range covers the project, every scheduled task and today, with
+  // some room on either side. It doesn't follow a bar while it's dragged.
+  const projectStart = project ? startOfDay(new Date(project.startDate)) : today;
+  const projectEnd = project?.dueDate ? startOfDay(new Date(project.dueDate)) : null;
+  const bounds = [
+    today,
+    projectStart,
+    ...(projectEnd ? [projectEnd] : []),
+    ...tasks.flatMap((task) => {
+      const schedule = getSchedule(task);
+      return schedule ? [schedule.start, schedule.end] : [];
+    }),
+  ];
+  const rangeStart = addDays(min(bounds), -3);
+  const days = eachDayOfInterval({ start: rangeStart, end: addDays(max(bounds), 14) });
+  const width = days.length * dayWidth;
+  const x = (date: Date) => differenceInCalendarDays(date, rangeStart) * dayWidth;
+
+  const months = days.reduce<{ label: string; left: number; width: number }[]>((acc, day, index) => {
+    const label = format(day, "MMMM yyyy");
+    const last = acc[acc.length - 1];
+    if (last?.label === label) last.width += dayWidth;
+    else acc.push({ label, left: index * dayWidth, width: dayWidth });
+    return acc;
+  }, []);
+
+  const isLoading = isLoadingProject || isLoadingTasks || workflow.isLoading;
+
+  // Open on today rather than on the start of the range
+  useEffect(() => {
+    if (isLoading || scrolledToToday.current || !scrollRef.current) return;
+    scrollRef.current.scrollLeft = Math.max(0, x(today) - 4 * dayWidth);
+    scrolledToToday.current = true;
+  });
+
+  const startDrag = (e: PointerEvent<HTMLElement>, task: Task, mode: DragMode) => {
+    if (!canEdit || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    setDrag({ taskId: task.id, mode, originX: e.clientX, days: 0 });
+  };
+
+  const updateDrag = (e: PointerEvent<HTMLElement>) => {
+    if (!drag) return;
+    const days = Math.round((e.clientX - drag.originX) / dayWidth);
+    if (days !== drag.days) setDrag({ ...drag, days });
+  };
+
+  // A bar that was clicked rather than dragged opens its task
+  const endDrag = (task: Task) => {
+    if (!drag) return;
+    const schedule = getSchedule(task);
+    if (drag.days === 0) {
+      if (drag.mode === "move") setSelectedTaskId(task.id);
+    } else if (schedule) {
+      scheduleTaskMutation.mutate({ task, schedule: applyDrag(schedule, drag.mode, drag.days) });
+    }
+    setDrag(null);
+  };
+
+  const scheduleOnDay = (e: MouseEvent<HTMLDivElement>, task: Task) => {
+    if (!canEdit) return;
+    const day = addDays(rangeStart, Math.floor((e.clientX - e.currentTarget.getBoundingClientRect().left) / dayWidth));
+    scheduleTaskMutation.mutate({ task, schedule: { start: day, end: day } });
+  };
+
+  // Arrows run from the end of a blocker to the start of the task it blocks,
+  // in red when the blocked task is planned to start before its blocker ends
+  const rowIndex = new Map(rows.map((row, index) => [row.task.id, index]));
+  const arrows = dependencies.flatMap((dependency) => {
+    const blocker = rows[rowIndex.get(dependency.blockerTaskId) ?? -1];
+    const blocked = rows[rowIndex.get(dependency.blockedTaskId) ?? -1];
+    if (!blocker?.schedule || !blocked?.schedule) return [];
+
+    const x1 = x(blocker.schedule.end) + dayWidth;
+    const y1 = rowIndex.get(dependency.blockerTaskId)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const x2 = x(blocked.schedule.start);
+    const y2 = rowIndex.get(dependency.blockedTaskId)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+    return [{
+      id: dependency.id,
+      path: `M ${x1} ${y1} C ${x1 + 24} ${y1}, ${x2 - 24} ${y2}, ${x2} ${y2}`,
+      conflict: blocked.schedule.start <= blocker.schedule.end,
+    }];
+  });
+
+  const selectedTask = tasks.find((task) => task.id === selectedTaskId) ?? null;
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="space-y-2 pt-6">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-8 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between gap-4">
+          <CardTitle>Timeline</CardTitle>
+          <Select value={zoom} onValueChange={(value) => setZoom(value as Zoom)}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ZOOM_LEVELS.map((level) => (
+                <SelectItem key={level.value} value={level.value}>
+                  {level.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {tasks.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No tasks to plan yet.</p>
+        ) : (
+          <div className="flex border rounded-md overflow-hidden">
+            <div className="w-60 shrink-0 border-r">
+              <div
+                className="flex items-end px-3 pb-1 text-xs font-medium text-muted-foreground border-b"
+                style={{ height: HEADER_ROW_HEIGHT * 2 }}
+              >
+                Task
+              </div>
+              {rows.map(({ task, schedule }) => (
+                <button
+                  key={task.id}
+                  type="button"
+                  className="flex w-full items-center gap-2 px-3 text-left text-sm border-b last:border-b-0 hover:bg-muted/50"
+                  style={{ height: ROW_HEIGHT }}
+                  onClick={() => setSelectedTaskId(task.id)}
+                >
+                  <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: workflow.getColor(task.status) }} />
+                  <span className={cn("truncate", workflow.isDone(task.status) && "line-through text-muted-foreground")}>
+                    {task.title}
+                  </span>
+                  {!schedule && <span className="ml-auto shrink-0 text-xs text-muted-foreground">Unscheduled</span>}
+                </button>
+              ))}
+            </div>
+
+            <div ref={scrollRef} className="flex-1 overflow-x-auto custom-scrollbar">
+              <div className="relative" style={{ width }}>
+                <div className="relative border-b" style={{ height: HEADER_ROW_HEIGHT * 2 }}>
+                  {months.map((month) => (
+                    <div
+                      key={month.label}
+                      className="absolute top-0 truncate border-l px-1 text-xs font-medium"
+                      style={{ left: month.left, width: month.width, height: HEADER_ROW_HEIGHT, lineHeight: `${HEADER_ROW_HEIGHT}px` }}
+                    >
+                      {month.width >= 60 && month.label}
+                    </div>
+                  ))}
+                  {zoom !== "month" &&
+                    days.map((day, index) =>
+                      zoom === "day" || day.getDay() === 1 ? (
+                        <div
+                          key={day.toISOString()}
+                          className="absolute text-[10px] text-muted-foreground"
+                          style={{ left: index * dayWidth, top: HEADER_ROW_HEIGHT, width: zoom === "day" ? dayWidth : 7 * dayWidth, textAlign: zoom === "day" ? "center" : "left" }}
+                        >
+                          {zoom === "day" ? format(day, "d") : format(day, "MMM d")}
+                        </div>
+                      ) : null
+                    )}
+                </div>
+
+                <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+                  {zoom !== "month" &&
+                    days.map((day, index) =>
+                      isWeekend(day) ? (
+                        <div
+                          key={day.toISOString()}
+                          className="absolute inset-y-0 bg-muted/40"
+                          style={{ left: index * dayWidth, width: dayWidth }}
+                        />
+                      ) : null
+                    )}
+
+                  {/* The project's own dates */}
+                  <div
+                    className="absolute inset-y-0 border-l-2 border-dashed border-primary/60"
+                    style={{ left: x(projectStart) }}
+                    title={`Project starts ${format(projectStart, "PPP")}`}
+                  />
+                  {projectEnd && (
+                    <div
+                      className="absolute inset-y-0 border-r-2 border-dashed border-primary/60"
+                      style={{ left: x(projectEnd), width: dayWidth }}
+                      title={`Project due ${format(projectEnd, "PPP")}`}
+                    />
+                  )}
+                  <div
+                    className="absolute inset-y-0 w-px bg-red-500"
+                    style={{ left: x(today) + dayWidth / 2 }}
+                    title="Today"
+                  />
+
+                  {rows.map(({ task, schedule }, index) => (
+                    <div
+                      key={task.id}
+                      className={cn("absolute inset-x-0 border-b", !schedule && canEdit && "cursor-copy")}
+                      style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                      onClick={schedule ? undefined : (e) => scheduleOnDay(e, task)}
+                      title={schedule ? undefined : canEdit ? "Click to schedule this task" : undefined}
+                    >
+                      {schedule && (
+                        <div
+                          className={cn(
+                            "group absolute top-2 bottom-2 rounded text-white text-xs shadow-sm select-none touch-none",
+                            canEdit ? "cursor-grab" : "cursor-pointer",
+                            drag?.taskId === task.id && "cursor-grabbing ring-2 ring-primary",
+                            workflow.isDone(task.status) && "opacity-60"
+                          )}
+                          style={{
+                            left: x(schedule.start),
+                            width: (differenceInCalendarDays(schedule.end, schedule.start) + 1) * dayWidth,
+                            backgroundColor: workflow.getColor(task.status),
+                          }}
+                          title={`${task.title}: ${format(schedule.start, "MMM d")} – ${format(schedule.end, "MMM d")}`}
+                          onPointerDown={(e) => startDrag(e, task, "move")}
+                          onPointerMove={updateDrag}
+                          onPointerUp={() => endDrag(task)}
+                          onPointerCancel={() => setDrag(null)}
+                          onClick={canEdit ? undefined : () => setSelectedTaskId(task.id)}
+                        >
+                          <span className="block truncate px-2 leading-5">{task.title}</span>
+                          {canEdit && (
+                            <>
+                              <span
+                                className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize rounded-l opacity-0 group-hover:opacity-100 bg-black/20"
+                                onPointerDown={(e) => startDrag(e, task, "start")}
+                              />
+                              <span
+                                className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize rounded-r opacity-0 group-hover:opacity-100 bg-black/20"
+                                onPointerDown={(e) => startDrag(e, task, "end")}
+                              />
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+
+                  <svg className="absolute inset-0 pointer-events-none" width={width} height={rows.length * ROW_HEIGHT}>
+                    <defs>
+                      {Object.entries(ARROW_COLORS).map(([name, color]) => (
+                        <marker key={name} id={`timeline-arrow-${name}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                          <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                        </marker>
+                      ))}
+                    </defs>
+                    {arrows.map((arrow) => {
+                      const color = arrow.conflict ? "conflict" : "normal";
+                      return (
+                        <path
+                          key={arrow.id}
+                          d={arrow.path}
+                          fill="none"
+                          stroke={ARROW_COLORS[color]}
+                          strokeWidth={1.5}
+                          markerEnd={`url(#timeline-arrow-${color})`}
+                        />
+                      );
+                    })}
+                  </svg>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <TaskDetailDialog
+        task={selectedTask}
+        open={!!selectedTask}
+        onClose={() => setSelectedTaskId(null)}
+      />
+    </Card>
+  );
+}
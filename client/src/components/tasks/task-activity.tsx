@@ -0,0 +1,156 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Loader2, MessageSquare, History } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface ActivityUser {
+  id: number;
+  username: string;
+  fullName: string;
+  avatar?: string;
+}
+
+interface TaskChange {
+  type: "change";
+  id: number;
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+  createdAt: string;
+  user: ActivityUser | null;
+}
+
+interface TaskComment {
+  type: "comment";
+  id: number;
+  content: string;
+  createdAt: string;
+  user: ActivityUser | null;
+}
+
+type ActivityItem = TaskChange | TaskComment;
+
+interface TaskActivityProps {
+  taskId: number;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "status",
+  assigneeId: "assignee",
+  priority: "priority",
+  startDate: "start date",
+  dueDate: "due date",
+  title: "title",
+  description: "description",
+  tags: "tags",
+  estimate: "estimate",
+};
+
+export function TaskActivity({ taskId }: TaskActivityProps) {
+  // Always refetch when the tab opens so changes made since are included
+  const { data: activity = [], isLoading } = useQuery<ActivityItem[]>({
+    queryKey: [`/api/tasks/${taskId}/activity`],
+    enabled: !!taskId,
+    staleTime: 0,
+  });
+
+  const { data: users = [] } = useQuery<ActivityUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const getUserName = (user: ActivityUser | null) =>
+    user ? user.fullName || user.username : "Someone";
+
+  const formatValue = (field: string, value: unknown): string => {
+    switch (field) {
+      case "status":
+      case "priority": {
+        const text = String(value);
+        return text.charAt(0).toUpperCase() + text.slice(1).replace("-", " ");
+      }
+      case "assigneeId": {
+        const assignee = users.find((u) => u.id === value);
+        return assignee ? assignee.fullName || assignee.username : "a former user";
+      }
+      case "startDate":
+      case "dueDate":
+        return new Date(String(value)).toLocaleDateString();
+      case "tags":
+        return Array.isArray(value) ? value.join(", ") : String(value);
+      default:
+        return String(value);
+    }
+  };
+
+  const describeChange = (change: TaskChange) => {
+    const label = FIELD_LABELS[change.field] || change.field;
+
+    // Descriptions are too long to quote inline
+    if (change.field === "description") {
+      return change.newValue === null ? "removed the description" : "updated the description";
+    }
+    if (change.field === "assigneeId") {
+      return change.newValue === null
+        ? "unassigned the task"
+        : `assigned the task to ${formatValue(change.field, change.newValue)}`;
+    }
+    if (change.oldValue === null) {
+      return `set the ${label} to ${formatValue(change.field, change.newValue)}`;
+    }
+    if (change.newValue === null) {
+      return `cleared the ${label}`;
+    }
+    return `changed the ${label} from ${formatValue(change.field, change.oldValue)} to ${formatValue(change.field, change.newValue)}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (activity.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No activity yet
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-4 max-h-[400px] overflow-y-auto">
+      {activity.map((item) => (
+        <li key={`${item.type}-${item.id}`} className="flex gap-3">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={item.user?.avatar} alt={getUserName(item.user)} />
+            <AvatarFallback>{getUserName(item.user).charAt(0)}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 text-sm">
+            <div className="flex items-start gap-1.5">
+              {item.type === "comment" ? (
+                <MessageSquare className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+              ) : (
+                <History className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+              )}
+              <div>
+                <span className="font-medium">{getUserName(item.user)}</span>{" "}
+                {item.type === "comment" ? "commented" : describeChange(item)}
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+                </span>
+              </div>
+            </div>
+            {item.type === "comment" && (
+              <p className="mt-1 ml-5 whitespace-pre-wrap rounded-md bg-muted px-3 py-2">
+                {item.content}
+              </p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,200 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectPermissions } from "@/hooks/use-permissions";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ListChecks, Loader2, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ChecklistItem } from "@shared/schema";
+
+interface TaskChecklistProps {
+  taskId: number;
+  projectId: number;
+}
+
+export function TaskChecklist({ taskId, projectId }: TaskChecklistProps) {
+  const { can } = useProjectPermissions(projectId);
+  const { toast } = useToast();
+  const [newItemText, setNewItemText] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingText, setEditingText] = useState("");
+  const canEdit = can("task:update");
+
+  const { data: items = [], isLoading } = useQuery<ChecklistItem[]>({
+    queryKey: [`/api/tasks/${taskId}/checklist`],
+    enabled: !!taskId,
+  });
+
+  // Task cards and project analytics count checklist items too
+  const invalidateChecklist = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/checklist`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/checklist-items?projectId=${projectId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/checklist-items"] });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to update checklist: ${error}`,
+      variant: "destructive"
+    });
+  };
+
+  const createItemMutation = useMutation({
+    mutationFn: async (text: string) => {
+      return apiRequest("POST", `/api/tasks/${taskId}/checklist`, { text });
+    },
+    onSuccess: () => {
+      invalidateChecklist();
+      setNewItemText("");
+    },
+    onError,
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: number; text?: string; done?: boolean }) => {
+      return apiRequest("PUT", `/api/checklist-items/${id}`, data);
+    },
+    onSuccess: () => {
+      invalidateChecklist();
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/checklist-items/${id}`);
+    },
+    onSuccess: invalidateChecklist,
+    onError,
+  });
+
+  const handleAddItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newItemText.trim()) {
+      createItemMutation.mutate(newItemText.trim());
+    }
+  };
+
+  const startEditing = (item: ChecklistItem) => {
+    if (!canEdit) return;
+    setEditingId(item.id);
+    setEditingText(item.text);
+  };
+
+  const saveEditing = (item: ChecklistItem) => {
+    const text = editingText.trim();
+    if (!text || text === item.text) {
+      setEditingId(null);
+      return;
+    }
+    updateItemMutation.mutate({ id: item.id, text });
+  };
+
+  const doneCount = items.filter((item) => item.done).length;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  // Nothing to show to someone who can't add items
+  if (items.length === 0 && !canEdit) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm font-medium text-muted-foreground mb-2">
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-4 w-4" />
+          <span>Checklist</span>
+        </div>
+        {items.length > 0 && (
+          <span className="text-xs">
+            {doneCount}/{items.length}
+          </span>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <Progress value={(doneCount / items.length) * 100} className="h-1.5 mb-3" />
+      )}
+
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-center gap-2 group">
+            <Checkbox
+              checked={item.done}
+              disabled={!canEdit || updateItemMutation.isPending}
+              onCheckedChange={(checked) =>
+                updateItemMutation.mutate({ id: item.id, done: checked === true })
+              }
+            />
+            {editingId === item.id ? (
+              <Input
+                value={editingText}
+                autoFocus
+                className="h-7 text-sm"
+                onChange={(e) => setEditingText(e.target.value)}
+                onBlur={() => saveEditing(item)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") saveEditing(item);
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+              />
+            ) : (
+              <span
+                className={cn(
+                  "flex-1 text-sm",
+                  item.done && "line-through text-muted-foreground",
+                  canEdit && "cursor-text"
+                )}
+                onClick={() => startEditing(item)}
+              >
+                {item.text}
+              </span>
+            )}
+            {canEdit && editingId !== item.id && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={() => deleteItemMutation.mutate(item.id)}
+                disabled={deleteItemMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4 text-muted-foreground" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && (
+        <form onSubmit={handleAddItem} className="flex items-center gap-2 mt-2">
+          <Input
+            placeholder="Add an item..."
+            value={newItemText}
+            onChange={(e) => setNewItemText(e.target.value)}
+            className="h-8 text-sm"
+            disabled={createItemMutation.isPending}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="outline"
+            disabled={!newItemText.trim() || createItemMutation.isPending}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
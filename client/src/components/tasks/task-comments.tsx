@@ -3,6 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/contexts/auth-context";
 import { useToast } from "@/hooks/use-toast";
+import { useProjectPermissions } from "@/hooks/use-permissions";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -28,10 +29,12 @@ interface Comment {
 
 interface TaskCommentsProps {
   taskId: number;
+  projectId: number;
 }
 
-export function TaskComments({ taskId }: TaskCommentsProps) {
+export function TaskComments({ taskId, projectId }: TaskCommentsProps) {
   const { user } = useAuth();
+  const { can } = useProjectPermissions(projectId);
   const { toast } = useToast();
   const [commentText, setCommentText] = useState("");
   
@@ -106,9 +109,9 @@ export function TaskComments({ taskId }: TaskCommentsProps) {
     deleteCommentMutation.mutate(commentId);
   };
   
-  // Check if user can delete a comment (user is comment author or admin)
+  // Authors can delete their own comments, team admins any comment
   const canDeleteComment = (comment: Comment) => {
-    return user && (user.id === comment.userId || user.role === "admin");
+    return can("comment:delete", comment.userId);
   };
   
   return (
@@ -118,29 +121,31 @@ export function TaskComments({ taskId }: TaskCommentsProps) {
       </CardHeader>
       <CardContent>
         {/* Comment form */}
-        <form onSubmit={handleAddComment} className="flex items-end gap-2 mb-4">
-          <div className="flex-1">
-            <Textarea 
-              placeholder="Add a comment..." 
-              value={commentText}
-              onChange={(e) => setCommentText(e.target.value)}
-              className="resize-none"
-              disabled={createCommentMutation.isPending}
-            />
-          </div>
-          <Button 
-            type="submit" 
-            size="sm"
-            disabled={!commentText.trim() || createCommentMutation.isPending}
-          >
-            {createCommentMutation.isPending ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Send className="h-4 w-4" />
-            )}
-            <span className="ml-1 sr-only md:not-sr-only">Send</span>
-          </Button>
-        </form>
+        {can("comment:create") && (
+          <form onSubmit={handleAddComment} className="flex items-end gap-2 mb-4">
+            <div className="flex-1">
+              <Textarea 
+                placeholder="Add a comment..." 
+                value={commentText}
+                onChange={(e) => setCommentText(e.target.value)}
+                className="resize-none"
+                disabled={createCommentMutation.isPending}
+              />
+            </div>
+            <Button 
+              type="submit" 
+              size="sm"
+              disabled={!commentText.trim() || createCommentMutation.isPending}
+            >
+              {createCommentMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+              <span className="ml-1 sr-only md:not-sr-only">Send</span>
+            </Button>
+          </form>
+        )}
         
         {/* Comments list */}
         {isLoading ? (
@@ -0,0 +1,193 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectPermissions } from "@/hooks/use-permissions";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Link2, Lock, Plus, X } from "lucide-react";
+import { TASK_STATUSES } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+import type { Task } from "@shared/schema";
+
+type RelatedTask = Task & { dependencyId: number };
+
+interface TaskDependenciesResponse {
+  blockers: RelatedTask[];
+  dependents: RelatedTask[];
+}
+
+interface TaskDependenciesProps {
+  taskId: number;
+  projectId: number;
+}
+
+export function TaskDependencies({ taskId, projectId }: TaskDependenciesProps) {
+  const { can } = useProjectPermissions(projectId);
+  const { toast } = useToast();
+  const [direction, setDirection] = useState<"blockedBy" | "blocks">("blockedBy");
+  const [otherTaskId, setOtherTaskId] = useState("");
+
+  const { data, isLoading } = useQuery<TaskDependenciesResponse>({
+    queryKey: [`/api/tasks/${taskId}/dependencies`],
+    enabled: !!taskId,
+  });
+  const blockers = data?.blockers ?? [];
+  const dependents = data?.dependents ?? [];
+
+  // Candidates: the tasks of this project and the user's own tasks elsewhere
+  const { data: projectTasks = [] } = useQuery<Task[]>({
+    queryKey: [`/api/tasks?projectId=${projectId}`],
+    enabled: !!projectId,
+  });
+  const { data: myTasks = [] } = useQuery<Task[]>({
+    queryKey: ["/api/tasks"],
+  });
+
+  const relatedIds = new Set([taskId, ...blockers.map((t) => t.id), ...dependents.map((t) => t.id)]);
+  const candidates = [...projectTasks, ...myTasks.filter((t) => t.projectId !== projectId)]
+    .filter((t) => !relatedIds.has(t.id));
+
+  // Both sides of a dependency show it, as do the blocked indicators on cards
+  const invalidateDependencies = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).includes("dependencies"),
+    });
+  };
+
+  const addDependencyMutation = useMutation({
+    mutationFn: async (otherId: number) => {
+      const body = direction === "blockedBy"
+        ? { blockerTaskId: otherId, blockedTaskId: taskId }
+        : { blockerTaskId: taskId, blockedTaskId: otherId };
+      return apiRequest("POST", "/api/task-dependencies", body);
+    },
+    onSuccess: () => {
+      invalidateDependencies();
+      setOtherTaskId("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to add dependency: ${error}`,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const removeDependencyMutation = useMutation({
+    mutationFn: async (dependencyId: number) => {
+      return apiRequest("DELETE", `/api/task-dependencies/${dependencyId}`);
+    },
+    onSuccess: invalidateDependencies,
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove dependency: ${error}`,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const canEdit = can("task:update");
+
+  if (isLoading || (blockers.length === 0 && dependents.length === 0 && !canEdit)) return null;
+
+  const renderTask = (task: RelatedTask, removable: boolean) => (
+    <li key={task.dependencyId} className="flex items-center gap-2 group">
+      <span
+        className={cn(
+          "flex-1 text-sm",
+          task.status === "complete" && "line-through text-muted-foreground"
+        )}
+      >
+        {task.title}
+      </span>
+      <Badge variant="outline" className="text-xs">
+        {TASK_STATUSES.find((status) => status.value === task.status)?.label || task.status}
+      </Badge>
+      {removable && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+          onClick={() => removeDependencyMutation.mutate(task.dependencyId)}
+          disabled={removeDependencyMutation.isPending}
+        >
+          <X className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      )}
+    </li>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
+        <Link2 className="h-4 w-4" />
+        <span>Dependencies</span>
+      </div>
+
+      {blockers.length > 0 && (
+        <div className="mb-2">
+          <div className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            <Lock className="h-3 w-3" />
+            <span>Blocked by</span>
+          </div>
+          <ul className="space-y-1">{blockers.map((task) => renderTask(task, canEdit))}</ul>
+        </div>
+      )}
+
+      {dependents.length > 0 && (
+        <div className="mb-2">
+          <div className="text-xs text-muted-foreground mb-1">Blocks</div>
+          <ul className="space-y-1">{dependents.map((task) => renderTask(task, canEdit))}</ul>
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="flex items-center gap-2 mt-2">
+          <Select value={direction} onValueChange={(value) => setDirection(value as "blockedBy" | "blocks")}>
+            <SelectTrigger className="h-8 w-[130px] text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="blockedBy">Blocked by</SelectItem>
+              <SelectItem value="blocks">Blocks</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={otherTaskId} onValueChange={setOtherTaskId}>
+            <SelectTrigger className="h-8 flex-1 text-sm">
+              <SelectValue placeholder="Select a task" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.length === 0 ? (
+                <div className="px-2 py-1.5 text-sm text-muted-foreground">No other tasks</div>
+              ) : (
+                candidates.map((task) => (
+                  <SelectItem key={task.id} value={task.id.toString()}>
+                    {task.title}
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!otherTaskId || addDependencyMutation.isPending}
+            onClick={() => addDependencyMutation.mutate(parseInt(otherTaskId))}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,22 +15,26 @@ import {
   ClockIcon, 
   AlignLeftIcon, 
   UserIcon,
-  TagIcon
+  TagIcon,
+  RepeatIcon
 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { describeRecurrenceRule, parseRecurrenceRule } from "@shared/recurrence";
+import type { Task as SchemaTask, TaskRecurrence } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { TaskComments } from "@/components/tasks/task-comments";
+import { TaskActivity } from "@/components/tasks/task-activity";
+import { TaskChecklist } from "@/components/tasks/task-checklist";
+import { TaskSubtasks } from "@/components/tasks/task-subtasks";
+import { TaskDependencies } from "@/components/tasks/task-dependencies";
+import { TaskTimeEntries } from "@/components/tasks/task-time-entries";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 
 // Task interface
-interface Task {
-  id: number;
-  title: string;
-  description?: string;
-  status: string;
-  priority: string;
-  dueDate?: string;
-  assigneeId?: number;
+// Some task lists come with the assignee included
+type Task = SchemaTask & {
   assignee?: {
     id: number;
     username: string;
@@ -38,10 +42,7 @@ interface Task {
     fullName: string;
     avatar?: string;
   };
-  projectId: number;
-  createdAt: string;
-  order: number;
-}
+};
 
 interface TaskDetailDialogProps {
   task: Task | null;
@@ -50,7 +51,13 @@ interface TaskDetailDialogProps {
 }
 
 export function TaskDetailDialog({ task, open, onClose }: TaskDetailDialogProps) {
+  const { data: recurrence } = useQuery<TaskRecurrence>({
+    queryKey: [`/api/task-recurrences/${task?.recurrenceId}`],
+    enabled: open && !!task?.recurrenceId,
+  });
+
   if (!task) return null;
+  const priority = task.priority || "medium";
 
   // Priority color mapping
   const priorityColorMap: Record<string, string> = {
@@ -69,7 +76,7 @@ export function TaskDetailDialog({ task, open, onClose }: TaskDetailDialogProps)
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-xl font-bold flex items-center gap-2">
             {task.status === "done" && (
@@ -81,8 +88,8 @@ export function TaskDetailDialog({ task, open, onClose }: TaskDetailDialogProps)
             <Badge variant="outline" className={statusColorMap[task.status] || ""}>
               {task.status.charAt(0).toUpperCase() + task.status.slice(1).replace("-", " ")}
             </Badge>
-            <Badge variant="outline" className={priorityColorMap[task.priority] || ""}>
-              {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)} Priority
+            <Badge variant="outline" className={priorityColorMap[priority] || ""}>
+              {priority.charAt(0).toUpperCase() + priority.slice(1)} Priority
             </Badge>
           </div>
         </DialogHeader>
@@ -122,6 +129,18 @@ export function TaskDetailDialog({ task, open, onClose }: TaskDetailDialogProps)
               </div>
             )}
 
+            {task.startDate && (
+              <div className="flex items-start gap-2">
+                <CalendarIcon className="h-4 w-4 text-muted-foreground mt-0.5" />
+                <div>
+                  <div className="text-sm font-medium text-muted-foreground">Start Date</div>
+                  <div className="text-sm mt-1">
+                    {new Date(task.startDate).toLocaleDateString()}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {task.dueDate && (
               <div className="flex items-start gap-2">
                 <CalendarIcon className="h-4 w-4 text-muted-foreground mt-0.5" />
@@ -134,21 +153,59 @@ export function TaskDetailDialog({ task, open, onClose }: TaskDetailDialogProps)
               </div>
             )}
 
-            <div className="flex items-start gap-2">
-              <ClockIcon className="h-4 w-4 text-muted-foreground mt-0.5" />
-              <div>
-                <div className="text-sm font-medium text-muted-foreground">Created</div>
-                <div className="text-sm mt-1">
-                  {new Date(task.createdAt).toLocaleDateString()}
+            {recurrence && (
+              <div className="flex items-start gap-2">
+                <RepeatIcon className="h-4 w-4 text-muted-foreground mt-0.5" />
+                <div>
+                  <div className="text-sm font-medium text-muted-foreground">Repeats</div>
+                  <div className="text-sm mt-1">
+                    {recurrence.endedAt
+                      ? "No longer repeats"
+                      : describeRecurrenceRule(parseRecurrenceRule(recurrence.rule))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {task.createdAt && (
+              <div className="flex items-start gap-2">
+                <ClockIcon className="h-4 w-4 text-muted-foreground mt-0.5" />
+                <div>
+                  <div className="text-sm font-medium text-muted-foreground">Created</div>
+                  <div className="text-sm mt-1">
+                    {new Date(task.createdAt).toLocaleDateString()}
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
           </div>
 
+          {task.id && (
+            <>
+              <TaskSubtasks taskId={task.id} projectId={task.projectId} />
+              <TaskChecklist taskId={task.id} projectId={task.projectId} />
+              <TaskDependencies taskId={task.id} projectId={task.projectId} />
+              <TaskTimeEntries taskId={task.id} projectId={task.projectId} />
+            </>
+          )}
+
           <Separator className="my-2" />
 
-          {/* Comments section */}
-          {task.id && <TaskComments taskId={task.id} />}
+          {/* Comments and the task's change history */}
+          {task.id && (
+            <Tabs defaultValue="comments">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="comments">Comments</TabsTrigger>
+                <TabsTrigger value="activity">Activity</TabsTrigger>
+              </TabsList>
+              <TabsContent value="comments">
+                <TaskComments taskId={task.id} projectId={task.projectId} />
+              </TabsContent>
+              <TabsContent value="activity" className="mt-4">
+                <TaskActivity taskId={task.id} />
+              </TabsContent>
+            </Tabs>
+          )}
         </div>
 
         <DialogFooter>
@@ -0,0 +1,232 @@
+import React, { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import {
+  WEEKDAYS,
+  describeRecurrenceRule,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from "@shared/recurrence";
+
+type RepeatMode = "none" | RecurrenceFrequency | "custom";
+type EndMode = "never" | "until" | "count";
+
+interface RecurrenceState {
+  mode: RepeatMode;
+  interval: number;
+  byDay: Weekday[];
+  end: EndMode;
+  until: string; // yyyy-MM-dd, as used by date inputs
+  count: number;
+  custom: string;
+}
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+};
+
+function toState(value: string | null | undefined): RecurrenceState {
+  const state: RecurrenceState = {
+    mode: "none",
+    interval: 1,
+    byDay: [],
+    end: "never",
+    until: "",
+    count: 10,
+    custom: value || "",
+  };
+  if (!value) return state;
+
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRecurrenceRule(value);
+  } catch {
+    return { ...state, mode: "custom" };
+  }
+  // Monthly rules on a fixed day can only be written by hand
+  if (rule.byMonthDay) return { ...state, mode: "custom" };
+
+  return {
+    ...state,
+    mode: rule.freq,
+    interval: rule.interval,
+    byDay: rule.byDay || [],
+    end: rule.count ? "count" : rule.until ? "until" : "never",
+    until: rule.until ? format(rule.until, "yyyy-MM-dd") : "",
+    count: rule.count || state.count,
+  };
+}
+
+function toRule(state: RecurrenceState): string | null {
+  if (state.mode === "none") return null;
+  if (state.mode === "custom") return state.custom.trim() || null;
+
+  const rule: RecurrenceRule = {
+    freq: state.mode,
+    interval: Math.max(1, state.interval || 1),
+  };
+  if (state.mode === "WEEKLY" && state.byDay.length > 0) rule.byDay = state.byDay;
+  if (state.end === "count") rule.count = Math.max(1, state.count || 1);
+  if (state.end === "until" && state.until) {
+    const [year, month, day] = state.until.split("-").map(Number);
+    rule.until = new Date(year, month - 1, day);
+  }
+  return formatRecurrenceRule(rule);
+}
+
+interface TaskRecurrenceFieldsProps {
+  value: string | null;
+  onChange: (rule: string | null) => void;
+  disabled?: boolean;
+}
+
+// Picks a recurrence rule: a daily, weekly or monthly schedule with an
+// optional end, or a hand-written RRULE for anything else
+export function TaskRecurrenceFields({ value, onChange, disabled }: TaskRecurrenceFieldsProps) {
+  const [state, setState] = useState(() => toState(value));
+
+  const update = (changes: Partial<RecurrenceState>) => {
+    const next = { ...state, ...changes };
+    setState(next);
+    onChange(toRule(next));
+  };
+
+  const toggleDay = (day: Weekday) => {
+    update({
+      byDay: state.byDay.includes(day)
+        ? state.byDay.filter((d) => d !== day)
+        : [...state.byDay, day],
+    });
+  };
+
+  const rule = toRule(state);
+  let summary: string | null = null;
+  let error: string | null = null;
+  if (rule) {
+    try {
+      summary = describeRecurrenceRule(parseRecurrenceRule(rule));
+    } catch (e) {
+      error = e instanceof Error ? e.message : "Invalid rule";
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select
+          value={state.mode}
+          onValueChange={(mode) => update({ mode: mode as RepeatMode })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Doesn't repeat</SelectItem>
+            <SelectItem value="DAILY">Daily</SelectItem>
+            <SelectItem value="WEEKLY">Weekly</SelectItem>
+            <SelectItem value="MONTHLY">Monthly</SelectItem>
+            <SelectItem value="custom">Custom rule</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {state.mode !== "none" && state.mode !== "custom" && (
+          <>
+            <span className="text-sm text-muted-foreground">every</span>
+            <Input
+              type="number"
+              min={1}
+              className="w-16"
+              value={state.interval}
+              onChange={(e) => update({ interval: parseInt(e.target.value) || 1 })}
+              disabled={disabled}
+            />
+            <span className="text-sm text-muted-foreground">{UNIT_LABELS[state.mode]}</span>
+          </>
+        )}
+      </div>
+
+      {state.mode === "custom" && (
+        <Input
+          placeholder="e.g. FREQ=MONTHLY;BYMONTHDAY=15;COUNT=6"
+          value={state.custom}
+          onChange={(e) => update({ custom: e.target.value })}
+          disabled={disabled}
+        />
+      )}
+
+      {state.mode === "WEEKLY" && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map((day) => (
+            <Badge
+              key={day}
+              variant={state.byDay.includes(day) ? "default" : "outline"}
+              className={cn("cursor-pointer", disabled && "pointer-events-none opacity-50")}
+              onClick={() => toggleDay(day)}
+            >
+              {day.charAt(0) + day.charAt(1).toLowerCase()}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {state.mode !== "none" && state.mode !== "custom" && (
+        <div className="flex items-center gap-2">
+          <Select
+            value={state.end}
+            onValueChange={(end) => update({ end: end as EndMode })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">No end</SelectItem>
+              <SelectItem value="until">Ends on</SelectItem>
+              <SelectItem value="count">Ends after</SelectItem>
+            </SelectContent>
+          </Select>
+          {state.end === "until" && (
+            <Input
+              type="date"
+              className="w-[160px]"
+              value={state.until}
+              onChange={(e) => update({ until: e.target.value })}
+              disabled={disabled}
+            />
+          )}
+          {state.end === "count" && (
+            <>
+              <Input
+                type="number"
+                min={1}
+                className="w-20"
+                value={state.count}
+                onChange={(e) => update({ count: parseInt(e.target.value) || 1 })}
+                disabled={disabled}
+              />
+              <span className="text-sm text-muted-foreground">occurrences</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {summary && <p className="text-xs text-muted-foreground">{summary}</p>}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
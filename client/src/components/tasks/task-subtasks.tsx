@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectPermissions } from "@/hooks/use-permissions";
+import { useProjectWorkflow } from "@/hooks/use-workflow";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { GitBranch, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Task } from "@shared/schema";
+
+interface TaskSubtasksProps {
+  taskId: number;
+  projectId: number;
+}
+
+export function TaskSubtasks({ taskId, projectId }: TaskSubtasksProps) {
+  const { can } = useProjectPermissions(projectId);
+  const workflow = useProjectWorkflow(projectId);
+  const { toast } = useToast();
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
+
+  // Subtasks are regular tasks of the same project
+  const { data: projectTasks = [] } = useQuery<Task[]>({
+    queryKey: [`/api/tasks?projectId=${projectId}`],
+    enabled: !!projectId,
+  });
+
+  const subtasks = projectTasks
+    .filter((task) => task.parentTaskId === taskId)
+    .sort((a, b) => a.order - b.order || a.id - b.id);
+  const completedCount = subtasks.filter((task) => workflow.isDone(task.status)).length;
+
+  const invalidateTasks = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tasks?projectId=${projectId}`] });
+  };
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to update subtasks: ${error}`,
+      variant: "destructive"
+    });
+  };
+
+  const createSubtaskMutation = useMutation({
+    mutationFn: async (title: string) => {
+      return apiRequest("POST", "/api/tasks", {
+        title,
+        projectId,
+        parentTaskId: taskId,
+        status: workflow.initialStatus,
+        priority: "medium",
+      });
+    },
+    onSuccess: () => {
+      invalidateTasks();
+      setNewSubtaskTitle("");
+    },
+    onError,
+  });
+
+  // Checking a subtask moves it to the workflow's first done status,
+  // unchecking it back to where new tasks start
+  const toggleSubtaskMutation = useMutation({
+    mutationFn: async ({ id, complete }: { id: number; complete: boolean }) => {
+      const status = complete ? workflow.inCategory("done")[0] : workflow.initialStatus;
+      return apiRequest("PUT", `/api/tasks/${id}`, { status });
+    },
+    onSuccess: invalidateTasks,
+    onError,
+  });
+
+  const handleAddSubtask = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newSubtaskTitle.trim()) {
+      createSubtaskMutation.mutate(newSubtaskTitle.trim());
+    }
+  };
+
+  if (subtasks.length === 0 && !can("task:create")) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm font-medium text-muted-foreground mb-2">
+        <div className="flex items-center gap-2">
+          <GitBranch className="h-4 w-4" />
+          <span>Subtasks</span>
+        </div>
+        {subtasks.length > 0 && (
+          <span className="text-xs">
+            {completedCount}/{subtasks.length} complete
+          </span>
+        )}
+      </div>
+
+      <ul className="space-y-1">
+        {subtasks.map((subtask) => (
+          <li key={subtask.id} className="flex items-center gap-2">
+            <Checkbox
+              checked={workflow.isDone(subtask.status)}
+              disabled={!can("task:update") || toggleSubtaskMutation.isPending}
+              onCheckedChange={(checked) =>
+                toggleSubtaskMutation.mutate({ id: subtask.id, complete: checked === true })
+              }
+            />
+            <span
+              className={cn(
+                "flex-1 text-sm",
+                workflow.isDone(subtask.status) && "line-through text-muted-foreground"
+              )}
+            >
+              {subtask.title}
+            </span>
+            <Badge variant="outline" className="text-xs">
+              {workflow.getLabel(subtask.status)}
+            </Badge>
+          </li>
+        ))}
+      </ul>
+
+      {can("task:create") && (
+        <form onSubmit={handleAddSubtask} className="flex items-center gap-2 mt-2">
+          <Input
+            placeholder="Add a subtask..."
+            value={newSubtaskTitle}
+            onChange={(e) => setNewSubtaskTitle(e.target.value)}
+            className="h-8 text-sm"
+            disabled={createSubtaskMutation.isPending}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="outline"
+            disabled={!newSubtaskTitle.trim() || createSubtaskMutation.isPending}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
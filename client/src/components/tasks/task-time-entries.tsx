@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useProjectPermissions } from "@/hooks/use-permissions";
+import { invalidateTimeEntries, type TimeEntryWithTask } from "@/hooks/use-time-tracking";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TaskTimer } from "@/components/tasks/task-timer";
+import { Clock, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { formatDuration, getTimeEntryDuration } from "@shared/time-tracking";
+import type { User } from "@shared/schema";
+
+interface TaskTimeEntriesProps {
+  taskId: number;
+  projectId: number;
+}
+
+export function TaskTimeEntries({ taskId, projectId }: TaskTimeEntriesProps) {
+  const { can } = useProjectPermissions(projectId);
+  const { toast } = useToast();
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [hours, setHours] = useState("");
+  const [minutes, setMinutes] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data: entries = [], isLoading } = useQuery<TimeEntryWithTask[]>({
+    queryKey: [`/api/time-entries?taskId=${taskId}`],
+    enabled: !!taskId,
+  });
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const total = entries.reduce((sum, entry) => sum + getTimeEntryDuration(entry), 0);
+  const getUserName = (userId: number) => users.find((u) => u.id === userId)?.fullName || "Unknown user";
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to update time entries: ${error}`,
+      variant: "destructive"
+    });
+  };
+
+  const logTimeMutation = useMutation({
+    mutationFn: async (duration: number) => {
+      // Manual entries start at 9:00 on the chosen day
+      const [year, month, day] = date.split("-").map(Number);
+      const startedAt = new Date(year, month - 1, day, 9);
+      return apiRequest("POST", "/api/time-entries", {
+        taskId,
+        startedAt: startedAt.toISOString(),
+        duration,
+        note: note.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateTimeEntries();
+      setHours("");
+      setMinutes("");
+      setNote("");
+    },
+    onError,
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/time-entries/${id}`);
+    },
+    onSuccess: invalidateTimeEntries,
+    onError,
+  });
+
+  const duration = (parseInt(hours) || 0) * 3600 + (parseInt(minutes) || 0) * 60;
+
+  const handleLogTime = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (duration > 0 && date) {
+      logTimeMutation.mutate(duration);
+    }
+  };
+
+  if (isLoading || (entries.length === 0 && !can("time:log"))) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm font-medium text-muted-foreground mb-2">
+        <div className="flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          <span>Time Tracking</span>
+          {total > 0 && <span className="text-xs">({formatDuration(total)} logged)</span>}
+        </div>
+        <TaskTimer taskId={taskId} projectId={projectId} />
+      </div>
+
+      {entries.length > 0 && (
+        <ul className="space-y-1 mb-2">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-2 text-sm group">
+              <span className="w-24 text-muted-foreground">{format(new Date(entry.startedAt), "MMM d, yyyy")}</span>
+              <span className="w-32 truncate">{getUserName(entry.userId)}</span>
+              <span className="flex-1 truncate text-muted-foreground">{entry.note}</span>
+              <span className="tabular-nums">
+                {entry.endedAt === null ? "Running" : formatDuration(getTimeEntryDuration(entry))}
+              </span>
+              {can("time:edit", entry.userId) && entry.endedAt !== null && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                  onClick={() => deleteEntryMutation.mutate(entry.id)}
+                  disabled={deleteEntryMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4 text-muted-foreground" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {can("time:log") && (
+        <form onSubmit={handleLogTime} className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="h-8 w-[140px] text-sm"
+          />
+          <Input
+            type="number"
+            min={0}
+            placeholder="h"
+            value={hours}
+            onChange={(e) => setHours(e.target.value)}
+            className="h-8 w-16 text-sm"
+          />
+          <Input
+            type="number"
+            min={0}
+            max={59}
+            placeholder="min"
+            value={minutes}
+            onChange={(e) => setMinutes(e.target.value)}
+            className="h-8 w-16 text-sm"
+          />
+          <Input
+            placeholder="Note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="h-8 flex-1 text-sm"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="outline"
+            disabled={duration <= 0 || !date || logTimeMutation.isPending}
+            title="Log time"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { useProjectPermissions } from "@/hooks/use-permissions";
+import { useElapsedTime, useRunningTimer } from "@/hooks/use-time-tracking";
+import { formatDuration } from "@shared/time-tracking";
+import { Play, Square } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TaskTimerProps {
+  taskId: number;
+  projectId: number;
+  compact?: boolean;
+}
+
+// Start/stop control for the current user's timer on a task
+export function TaskTimer({ taskId, projectId, compact = false }: TaskTimerProps) {
+  const { can } = useProjectPermissions(projectId);
+  const { running, start, stop, isPending } = useRunningTimer();
+  const isRunningHere = running?.taskId === taskId;
+  const elapsed = useElapsedTime(isRunningHere ? running : null);
+
+  if (!can("time:log")) return null;
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards open the task when clicked
+    e.stopPropagation();
+    if (isRunningHere) {
+      stop(taskId);
+    } else {
+      start(taskId);
+    }
+  };
+
+  return (
+    <Button
+      variant={isRunningHere ? "default" : "outline"}
+      size="sm"
+      className={cn(compact && "h-6 px-2 text-xs", isRunningHere && "tabular-nums")}
+      onClick={handleClick}
+      disabled={isPending}
+      title={isRunningHere ? "Stop timer" : "Start timer"}
+    >
+      {isRunningHere ? (
+        <Square className={cn("mr-1", compact ? "h-3 w-3" : "h-4 w-4")} />
+      ) : (
+        <Play className={cn(!compact && "mr-1", compact ? "h-3 w-3" : "h-4 w-4")} />
+      )}
+      {isRunningHere ? formatDuration(elapsed, true) : !compact && "Start timer"}
+    </Button>
+  );
+}
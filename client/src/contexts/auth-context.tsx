@@ -2,13 +2,15 @@ import { createContext, useState, useContext, useEffect, ReactNode } from "react
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
-interface User {
+// The logged-in user as the auth routes return it, without the password
+export interface User {
   id: number;
   username: string;
   email: string;
   fullName: string;
   avatar?: string;
   role: string;
+  emailVerifiedAt?: string | null;
 }
 
 interface AuthContextType {
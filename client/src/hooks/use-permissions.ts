@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/auth-context";
+import { roleCan, type Action } from "@shared/permissions";
+import type { Project, TeamMember } from "@shared/schema";
+
+// The current user's permissions in a team, following the same policy the
+// server enforces. Used to hide controls the user can't use; while the role
+// is loading everything is treated as not allowed.
+export function usePermissions(teamId: number | null | undefined) {
+  const { user } = useAuth();
+
+  const { data: membership, isLoading } = useQuery<TeamMember>({
+    queryKey: [`/api/teams/${teamId}/members/current`],
+    enabled: !!teamId,
+  });
+
+  const role = membership?.role;
+
+  // `ownerId` is the creator of the content, for actions like deleting a comment
+  const can = (action: Action, ownerId?: number | null) =>
+    roleCan(role, action, ownerId != null && ownerId === user?.id);
+
+  return { role, can, isLoading };
+}
+
+// Permissions in the team that owns a project
+export function useProjectPermissions(projectId: number | null | undefined) {
+  const { data: project } = useQuery<Project>({
+    queryKey: [`/api/projects/${projectId}`],
+    enabled: !!projectId,
+  });
+
+  return usePermissions(project?.teamId);
+}
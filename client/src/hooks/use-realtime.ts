@@ -0,0 +1,135 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { RealtimeEvent, RealtimeClientMessage } from "@shared/events";
+import type { Task } from "@shared/schema";
+import { applyColumnOrder } from "@shared/task-order";
+
+type Listener = (event: RealtimeEvent) => void;
+
+const RECONNECT_DELAY = 3000;
+
+// A single WebSocket connection is shared by every component that listens
+const listeners = new Set<Listener>();
+// Number of mounted components watching each project
+const projectSubscriptions = new Map<number, number>();
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+function send(message: RealtimeClientMessage) {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function connect() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  socket = ws;
+
+  // Subscriptions are per connection, so replay them after (re)connecting
+  ws.onopen = () => {
+    projectSubscriptions.forEach((_, projectId) => send({ type: "subscribe", projectId }));
+  };
+
+  ws.onmessage = (e) => {
+    try {
+      const event = JSON.parse(e.data) as RealtimeEvent;
+      listeners.forEach((listener) => listener(event));
+    } catch (error) {
+      console.error("Invalid realtime event:", error);
+    }
+  };
+
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    // Keep trying while someone is still listening
+    if (listeners.size > 0 && !reconnectTimer) {
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        if (listeners.size > 0 && !socket) connect();
+      }, RECONNECT_DELAY);
+    }
+  };
+}
+
+function subscribe(listener: Listener) {
+  listeners.add(listener);
+  if (!socket) connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      socket?.close();
+      socket = null;
+    }
+  };
+}
+
+function watchProject(projectId: number) {
+  const count = projectSubscriptions.get(projectId) || 0;
+  projectSubscriptions.set(projectId, count + 1);
+  if (count === 0) send({ type: "subscribe", projectId });
+
+  return () => {
+    const remaining = (projectSubscriptions.get(projectId) || 1) - 1;
+    if (remaining > 0) {
+      projectSubscriptions.set(projectId, remaining);
+    } else {
+      projectSubscriptions.delete(projectId);
+      send({ type: "unsubscribe", projectId });
+    }
+  };
+}
+
+export function useRealtime(onEvent: Listener, enabled = true) {
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribe((event) => handlerRef.current(event));
+  }, [enabled]);
+}
+
+// Keep the cached task list of a project in sync with changes made by others
+export function useProjectTasksSync(projectId?: number) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const queryKey = [`/api/tasks?projectId=${projectId}`];
+    const unwatch = watchProject(projectId);
+    const unsubscribe = subscribe((event) => {
+      // Only task events carry a projectId
+      if (!("projectId" in event) || event.projectId !== projectId) return;
+
+      // A task that changes status may block or unblock others
+      queryClient.invalidateQueries({ queryKey: [`/api/task-dependencies?projectId=${projectId}`] });
+
+      queryClient.setQueryData<Task[]>(queryKey, (old) => {
+        if (!old) return old;
+
+        switch (event.type) {
+          case "task.created":
+            return old.some((t) => t.id === event.task.id) ? old : [...old, event.task];
+          case "task.updated":
+          case "task.moved":
+            return old.map((t) => (t.id === event.task.id ? event.task : t));
+          case "task.deleted":
+            return old.filter((t) => t.id !== event.taskId);
+          case "tasks.reordered":
+            return applyColumnOrder(old, event.taskIds);
+          default:
+            return old;
+        }
+      });
+    });
+
+    return () => {
+      unsubscribe();
+      unwatch();
+    };
+  }, [projectId, queryClient]);
+}
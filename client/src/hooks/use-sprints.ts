@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import type { Sprint } from "@shared/schema";
+
+// Closing or deleting a sprint also moves tasks, so both lists go stale
+export function invalidateSprints(projectId: number) {
+  queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/sprints`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/tasks?projectId=${projectId}`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+}
+
+// The sprints of a project, oldest first, and the one being worked on
+export function useProjectSprints(projectId: number | undefined) {
+  const { data: sprints = [], isLoading } = useQuery<Sprint[]>({
+    queryKey: [`/api/projects/${projectId}/sprints`],
+    enabled: !!projectId,
+  });
+
+  return {
+    sprints,
+    isLoading,
+    activeSprint: sprints.find((sprint) => sprint.state === "active"),
+    plannedSprints: sprints.filter((sprint) => sprint.state === "planned"),
+    closedSprints: sprints.filter((sprint) => sprint.state === "closed"),
+  };
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getTimeEntryDuration } from "@shared/time-tracking";
+import type { TimeEntry } from "@shared/schema";
+
+// Time entries as the API lists them, with the task they were logged on
+export type TimeEntryWithTask = TimeEntry & {
+  task: { id: number; title: string; projectId: number } | null;
+};
+
+// Timers change every list, total and timesheet of logged time
+export function invalidateTimeEntries() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/time-entries"),
+  });
+}
+
+// The current user's timer. Starting one stops whatever else was running.
+export function useRunningTimer() {
+  const { toast } = useToast();
+
+  const { data: running = null } = useQuery<TimeEntryWithTask | null>({
+    queryKey: ["/api/time-entries/running"],
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: `Failed to update timer: ${error}`,
+      variant: "destructive"
+    });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async (taskId: number) => {
+      return apiRequest("POST", `/api/tasks/${taskId}/timer/start`);
+    },
+    onSuccess: invalidateTimeEntries,
+    onError,
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (taskId: number) => {
+      return apiRequest("POST", `/api/tasks/${taskId}/timer/stop`);
+    },
+    onSuccess: invalidateTimeEntries,
+    onError,
+  });
+
+  return {
+    running,
+    start: startMutation.mutate,
+    stop: stopMutation.mutate,
+    isPending: startMutation.isPending || stopMutation.isPending,
+  };
+}
+
+// Seconds spent on an entry, ticking every second while its timer runs
+export function useElapsedTime(entry: TimeEntry | null | undefined) {
+  const [now, setNow] = useState(() => new Date());
+  const isRunning = !!entry && entry.endedAt === null;
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  return entry ? getTimeEntryDuration(entry, now) : 0;
+}
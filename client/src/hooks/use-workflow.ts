@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  findStatus,
+  getEntryCriteriaError,
+  getInitialStatus,
+  getStatusLabel,
+  getTransitionError,
+  getWorkflow,
+  isDoneStatus,
+} from "@shared/workflow";
+import type { Project, Task, WorkflowCategory, WorkflowStatus } from "@shared/schema";
+
+const UNKNOWN_STATUS_COLOR = "#94A3B8";
+
+// The workflow of a project, or the default one when there is no project
+// (like the board of the user's own tasks across projects)
+export function useProjectWorkflow(projectId: number | undefined) {
+  const { data: project, isLoading } = useQuery<Project>({
+    queryKey: [`/api/projects/${projectId}`],
+    enabled: !!projectId,
+  });
+
+  const statuses = getWorkflow(project);
+
+  return {
+    statuses,
+    isLoading: !!projectId && isLoading,
+    initialStatus: getInitialStatus(statuses),
+    getLabel: (value: string) => getStatusLabel(statuses, value),
+    getColor: (value: string) => statuses.find((status) => status.value === value)?.color ?? UNKNOWN_STATUS_COLOR,
+    isDone: (value: string) => isDoneStatus(statuses, value),
+    inCategory: (category: WorkflowCategory) =>
+      statuses.filter((status) => status.category === category).map((status) => status.value),
+    canMove: (from: string, to: string) => getTransitionError(statuses, from, to) === null,
+    // Why a task can't enter a status because of the status's entry criteria
+    // or hard WIP limit, given how many other tasks are in it already
+    getEntryError: (task: Pick<Task, "assigneeId" | "estimate">, to: string, tasksInStatus: number) => {
+      const target = findStatus(statuses, to);
+      if (!target) return null;
+      if (target.hardLimit && target.wipLimit !== null && tasksInStatus >= target.wipLimit) {
+        return `"${target.label}" already holds its limit of ${target.wipLimit} tasks`;
+      }
+      return getEntryCriteriaError(target, task);
+    },
+  };
+}
+
+// The workflow's statuses plus any status tasks are in that it doesn't
+// define, so that no task drops off the board
+export function getStatusColumns(statuses: WorkflowStatus[], tasks: Pick<Task, "status">[]): WorkflowStatus[] {
+  const extra = Array.from(new Set(tasks.map((task) => task.status)))
+    .filter((value) => !statuses.some((status) => status.value === value))
+    .map((value): WorkflowStatus => ({
+      value,
+      label: value,
+      category: "not started",
+      color: UNKNOWN_STATUS_COLOR,
+      transitions: null,
+      wipLimit: null,
+      hardLimit: false,
+      entryCriteria: [],
+    }));
+  return [...statuses, ...extra];
+}
@@ -1,4 +1,5 @@
-// Status options for tasks
+// Status options of the default workflow, for tasks shown outside their
+// project. Project views use the project's own workflow (useProjectWorkflow).
 export const TASK_STATUSES = [
   { label: "To Do", value: "todo" },
   { label: "In Progress", value: "in progress" },
@@ -13,6 +14,25 @@ export const TASK_PRIORITIES = [
   { label: "High", value: "high" }
 ];
 
+// What task estimates are measured in, chosen per project
+export const ESTIMATE_UNIT_OPTIONS = [
+  { label: "Story points", value: "points" },
+  { label: "Hours", value: "hours" }
+];
+
+// Categories of project workflow statuses
+export const WORKFLOW_CATEGORY_OPTIONS = [
+  { label: "Not started", value: "not started" },
+  { label: "Active", value: "active" },
+  { label: "Done", value: "done" }
+];
+
+// What a task can be required to have before it enters a workflow status
+export const ENTRY_CRITERIA_OPTIONS = [
+  { label: "Must have an assignee", value: "assignee" },
+  { label: "Must have an estimate", value: "estimate" }
+];
+
 // Team member roles
 export const TEAM_ROLES = [
   { label: "Admin", value: "admin", description: "Full access to all features, can manage team members and settings" },
@@ -34,15 +54,20 @@ export const TASK_CATEGORIES = [
 export const ROUTES = {
   LOGIN: '/login',
   REGISTER: '/register',
+  FORGOT_PASSWORD: '/forgot-password',
+  RESET_PASSWORD: '/reset-password',
+  VERIFY_EMAIL: '/verify-email',
   DASHBOARD: '/',
   PROJECTS: '/projects',
   TASKS: '/tasks',
   CALENDAR: '/calendar',
+  TIMESHEET: '/timesheet',
   CHAT: '/chat',
   FILES: '/files',
   TEAMS: '/teams',
   SETTINGS: '/settings',
   ADMIN_USERS: '/admin/users',
+  ADMIN_AUDIT_LOG: '/admin/audit-log',
 };
 
 // Time periods for analytics
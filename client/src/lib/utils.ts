@@ -83,3 +83,15 @@ export function formatFileSize(bytes: number): string {
   const i = Math.floor(Math.log(bytes) / Math.log(k));
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
+
+// Task estimates in the project's unit, e.g. "5 pts" or "2.5h"
+export function formatEstimate(value: number, unit: string = 'points'): string {
+  const amount = parseFloat(value.toFixed(1));
+  if (unit === 'hours') return `${amount}h`;
+  return `${amount} ${amount === 1 ? 'pt' : 'pts'}`;
+}
+
+// Total estimate of a set of tasks; tasks without an estimate count as zero
+export function sumEstimates(tasks: { estimate: number | null }[]): number {
+  return tasks.reduce((sum, task) => sum + (task.estimate ?? 0), 0);
+}
@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/auth-context";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { DashboardLayout } from "../../components/layout/dashboard-layout";
+import { format } from "date-fns";
+import { Download } from "lucide-react";
+import type { AuditEvent, User } from "@shared/schema";
+
+const ENTITY_TYPES = [
+  { label: "Users", value: "user" },
+  { label: "Teams", value: "team" },
+  { label: "Team members", value: "team_member" },
+  { label: "Team invitations", value: "team_invitation" },
+  { label: "Projects", value: "project" },
+  { label: "Tasks", value: "task" },
+  { label: "Checklist items", value: "checklist_item" },
+  { label: "Task dependencies", value: "task_dependency" },
+  { label: "Task recurrences", value: "task_recurrence" },
+  { label: "Time entries", value: "time_entry" },
+  { label: "Sprints", value: "sprint" },
+  { label: "Comments", value: "comment" },
+  { label: "Files", value: "file" },
+  { label: "Messages", value: "message" },
+  { label: "API tokens", value: "api_token" },
+  { label: "Two-factor auth", value: "two_factor_auth" },
+  { label: "Sessions", value: "session" },
+];
+
+const ALL = "all";
+
+const getActionBadgeColor = (action: string) => {
+  switch (action) {
+    case "create":
+      return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300";
+    case "update":
+      return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300";
+    case "delete":
+      return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300";
+    default:
+      return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300";
+  }
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+};
+
+export default function AuditLogPage() {
+  const { user: currentUser } = useAuth();
+  const [actorId, setActorId] = useState(ALL);
+  const [entityType, setEntityType] = useState(ALL);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  // Dates are picked in local time and sent as full-day timestamps
+  const params = new URLSearchParams();
+  if (actorId !== ALL) params.set("actorId", actorId);
+  if (entityType !== ALL) params.set("entityType", entityType);
+  if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+  if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+  const queryString = params.toString();
+
+  const { data: events = [], isLoading } = useQuery<AuditEvent[]>({
+    queryKey: [`/api/audit-events${queryString ? `?${queryString}` : ""}`],
+    enabled: currentUser?.role === "admin",
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: currentUser?.role === "admin",
+  });
+
+  if (currentUser?.role !== "admin") {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <h2 className="text-2xl font-bold mb-2">Access Denied</h2>
+            <p className="text-gray-500 dark:text-gray-400">
+              You do not have permission to access this page.
+            </p>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const getActorName = (id: number | null) => {
+    if (id === null) return "System";
+    const actor = users.find((user) => user.id === id);
+    return actor ? actor.fullName || actor.username : `Deleted user #${id}`;
+  };
+
+  const clearFilters = () => {
+    setActorId(ALL);
+    setEntityType(ALL);
+    setFromDate("");
+    setToDate("");
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="container mx-auto py-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Audit Log</CardTitle>
+            <Button variant="outline" asChild>
+              <a href={`/api/audit-events/export${queryString ? `?${queryString}` : ""}`} download>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 gap-4 mb-6 md:grid-cols-5 md:items-end">
+              <div className="space-y-2">
+                <Label>Actor</Label>
+                <Select value={actorId} onValueChange={setActorId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Everyone</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id.toString()}>
+                        {user.fullName || user.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Entity</Label>
+                <Select value={entityType} onValueChange={setEntityType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All entities</SelectItem>
+                    {ENTITY_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => setFromDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => setToDate(e.target.value)}
+                />
+              </div>
+              <Button variant="ghost" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center p-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Actor</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Entity</TableHead>
+                      <TableHead>Changes</TableHead>
+                      <TableHead>IP Address</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                          No audit events found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      events.map((event) => (
+                        <TableRow key={event.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(event.createdAt), "MMM d, yyyy HH:mm:ss")}
+                          </TableCell>
+                          <TableCell>{getActorName(event.actorId)}</TableCell>
+                          <TableCell>
+                            <Badge className={getActionBadgeColor(event.action)}>
+                              {event.action}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {event.entityType}
+                            {event.entityId !== null && ` #${event.entityId}`}
+                          </TableCell>
+                          <TableCell>
+                            <ul className="space-y-0.5 text-xs font-mono">
+                              {Object.entries(event.changes ?? {}).map(([field, change]) => (
+                                <li key={field}>
+                                  <span className="font-semibold">{field}</span>:{" "}
+                                  {event.action === "create"
+                                    ? formatValue(change.after)
+                                    : event.action === "delete"
+                                    ? formatValue(change.before)
+                                    : `${formatValue(change.before)} → ${formatValue(change.after)}`}
+                                </li>
+                              ))}
+                            </ul>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{event.ipAddress || "—"}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -46,7 +46,7 @@ import { User } from "@shared/schema";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { PlusIcon, Trash2Icon, Pencil } from "lucide-react";
+import { PlusIcon, Trash2Icon, Pencil, ShieldOff } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 
@@ -539,6 +539,79 @@ function DeleteUserDialog({
   );
 }
 
+// Reset 2FA Dialog Component
+function ResetTwoFactorDialog({
+  user,
+  open,
+  onOpenChange,
+}: {
+  user: User | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("No user selected");
+      const res = await apiRequest(`/api/users/${user.id}/2fa/reset`, {
+        method: "POST",
+      });
+      return res;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Two-factor authentication has been reset",
+      });
+      onOpenChange(false);
+    },
+    onError: (err) => {
+      toast({
+        title: "Error",
+        description: "Failed to reset two-factor authentication. " + err,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Reset Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            This turns off two-factor authentication for {user.fullName} and invalidates their
+            recovery codes. They can log in with their password only and set it up again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="mt-2"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={() => resetTwoFactorMutation.mutate()}
+            disabled={resetTwoFactorMutation.isPending}
+            className="mt-2"
+          >
+            {resetTwoFactorMutation.isPending ? "Resetting..." : "Reset 2FA"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // Main Admin Users Page Component
 export default function AdminUsersPage() {
   const { user: currentUser } = useAuth();
@@ -547,6 +620,7 @@ export default function AdminUsersPage() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [isResetTwoFactorOpen, setIsResetTwoFactorOpen] = useState(false);
   const [showSystemUsers, setShowSystemUsers] = useState(false);
 
   // Fetch users
@@ -581,6 +655,11 @@ export default function AdminUsersPage() {
     setIsDeleteOpen(true);
   };
 
+  const handleResetTwoFactor = (user: User) => {
+    setSelectedUser(user);
+    setIsResetTwoFactorOpen(true);
+  };
+
   // Filter out the system users unless checkbox is checked
   const filteredUsers = showSystemUsers 
     ? users 
@@ -663,7 +742,14 @@ export default function AdminUsersPage() {
                             </div>
                           </TableCell>
                           <TableCell>{user.username}</TableCell>
-                          <TableCell>{user.email}</TableCell>
+                          <TableCell>
+                            {user.email}
+                            {!user.emailVerifiedAt && (
+                              <Badge variant="outline" className="ml-2">
+                                Unverified
+                              </Badge>
+                            )}
+                          </TableCell>
                           <TableCell>
                             <Badge className={`${getRoleBadgeColor(user.role || 'member')}`}>
                               {user.role || "member"}
@@ -678,6 +764,14 @@ export default function AdminUsersPage() {
                               >
                                 <Pencil className="h-4 w-4" />
                               </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Reset two-factor authentication"
+                                onClick={() => handleResetTwoFactor(user)}
+                              >
+                                <ShieldOff className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -700,10 +794,11 @@ export default function AdminUsersPage() {
         </Card>
       </div>
 
-      {/* Create, Edit, Delete Dialogs */}
+      {/* Create, Edit, Delete, Reset 2FA Dialogs */}
       <CreateUserDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} />
       <EditUserDialog user={selectedUser} open={isEditOpen} onOpenChange={setIsEditOpen} />
       <DeleteUserDialog user={selectedUser} open={isDeleteOpen} onOpenChange={setIsDeleteOpen} />
+      <ResetTwoFactorDialog user={selectedUser} open={isResetTwoFactorOpen} onOpenChange={setIsResetTwoFactorOpen} />
     </DashboardLayout>
   );
 }
\ No newline at end of file
@@ -4,6 +4,8 @@ import { useAuth } from "@/contexts/auth-context";
 import { MainLayout } from "@/components/layout/main-layout";
 import { Team, Message } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useRealtime } from "@/hooks/use-realtime";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -22,6 +24,7 @@ export default function ChatPage() {
   const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
   const [message, setMessage] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { role, can } = usePermissions(selectedTeamId);
 
   // Fetch teams
   const { data: teams, isLoading: isLoadingTeams } = useQuery<Team[]>({
@@ -42,6 +45,21 @@ export default function ChatPage() {
     enabled: !!selectedTeamId,
   });
 
+  // Merge live message events from teammates into the cached message lists
+  useRealtime((event) => {
+    if (event.type === "message.created") {
+      queryClient.setQueryData<Message[]>([`/api/teams/${event.teamId}/messages`], (old) => {
+        if (!old || old.some((m) => m.id === event.message.id)) return old;
+        // Messages come back newest first
+        return [event.message, ...old];
+      });
+    } else if (event.type === "message.deleted") {
+      queryClient.setQueryData<Message[]>([`/api/teams/${event.teamId}/messages`], (old) =>
+        old?.filter((m) => m.id !== event.messageId)
+      );
+    }
+  }, !!user);
+
   // Send message mutation
   const sendMessageMutation = useMutation({
     mutationFn: async (content: string) => {
@@ -269,23 +287,29 @@ export default function ChatPage() {
 
                 {/* Message input */}
                 <div className="p-4 border-t border-gray-200 dark:border-gray-800">
-                  <div className="flex space-x-2">
-                    <Textarea
-                      value={message}
-                      onChange={(e) => setMessage(e.target.value)}
-                      onKeyDown={handleKeyDown}
-                      placeholder="Type a message..."
-                      className="min-h-[60px] resize-none"
-                      disabled={sendMessageMutation.isPending}
-                    />
-                    <Button
-                      onClick={handleSendMessage}
-                      disabled={!message.trim() || sendMessageMutation.isPending}
-                      className="flex-shrink-0"
-                    >
-                      <Send className="h-4 w-4" />
-                    </Button>
-                  </div>
+                  {can("message:send") ? (
+                    <div className="flex space-x-2">
+                      <Textarea
+                        value={message}
+                        onChange={(e) => setMessage(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Type a message..."
+                        className="min-h-[60px] resize-none"
+                        disabled={sendMessageMutation.isPending}
+                      />
+                      <Button
+                        onClick={handleSendMessage}
+                        disabled={!message.trim() || sendMessageMutation.isPending}
+                        className="flex-shrink-0"
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : role && (
+                    <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+                      Guests can read this chat but not send messages.
+                    </p>
+                  )}
                 </div>
               </>
             )}
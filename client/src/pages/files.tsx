@@ -7,6 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DataTable } from "@/components/ui/data-table";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useProjectPermissions } from "@/hooks/use-permissions";
 import { File, Project } from "@shared/schema";
 import { formatDate, formatFileSize } from "@/lib/utils";
 import { ACCEPTED_FILE_TYPES, MAX_FILE_SIZE } from "@/lib/constants";
@@ -231,25 +232,7 @@ export default function FilesPage() {
       id: "actions",
       cell: ({ row }) => {
         const file = row.original;
-        return (
-          <div className="flex items-center space-x-2">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => window.open(file.url, "_blank")}
-            >
-              <ArrowDown className="h-4 w-4" />
-            </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => handleDeleteFile(file.id)}
-              className="text-red-500"
-            >
-              <Trash2 className="h-4 w-4" />
-            </Button>
-          </div>
-        );
+        return <FileActions file={file} onDelete={handleDeleteFile} />;
       },
     },
   ];
@@ -426,3 +409,36 @@ export default function FilesPage() {
     </MainLayout>
   );
 }
+
+interface FileActionsProps {
+  file: File;
+  onDelete: (fileId: number) => void;
+}
+
+// Download and delete buttons for a file row; delete is only shown to the
+// uploader and team admins
+function FileActions({ file, onDelete }: FileActionsProps) {
+  const { can } = useProjectPermissions(file.projectId);
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => window.open(file.url, "_blank")}
+      >
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+      {can("file:delete", file.uploadedBy) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onDelete(file.id)}
+          className="text-red-500"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
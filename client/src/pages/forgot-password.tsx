@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { z } from "zod";
+import { useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ROUTES } from "@/lib/constants";
+import { AuthCard } from "@/components/auth/auth-card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+const formSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email" }),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+export default function ForgotPasswordPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async (data: FormValues) => {
+    setIsLoading(true);
+    try {
+      await apiRequest("POST", "/api/auth/forgot-password", data);
+      setSentTo(data.email);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Request failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard
+      title="Forgot your password?"
+      description="Enter your email and we'll send you a link to reset it"
+    >
+      {sentTo ? (
+        <div className="space-y-6 text-center">
+          <p className="text-sm text-muted-foreground">
+            If an account exists for <span className="font-medium">{sentTo}</span>, a password
+            reset link is on its way. The link expires in one hour.
+          </p>
+          <Button className="w-full" onClick={() => setLocation(ROUTES.LOGIN)}>
+            Back to login
+          </Button>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="email"
+                      placeholder="Enter your email"
+                      {...field}
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                "Send reset link"
+              )}
+            </Button>
+
+            <div className="text-center text-sm">
+              <Button
+                type="button"
+                variant="link"
+                className="p-0"
+                onClick={() => setLocation(ROUTES.LOGIN)}
+                disabled={isLoading}
+              >
+                Back to login
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+    </AuthCard>
+  );
+}
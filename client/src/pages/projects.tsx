@@ -12,13 +12,28 @@ import { CreateTaskDialog } from "@/components/common/create-task-dialog";
 import { TaskListView } from "@/components/projects/task-list-view";
 import { FileListView } from "@/components/projects/file-list-view";
 import { ProjectAnalytics } from "@/components/projects/project-analytics";
+import { SprintBacklog } from "@/components/projects/sprint-backlog";
+import { TaskTimeline } from "@/components/projects/task-timeline";
+import { EditWorkflowDialog } from "@/components/common/edit-workflow-dialog";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Project } from "@shared/schema";
-import { Plus, Calendar, FileText, Users, Settings, MoreHorizontal } from "lucide-react";
+import { Plus, Calendar, FileText, Users, Settings, MoreHorizontal, Gauge, Workflow } from "lucide-react";
 import { formatDate } from "@/lib/utils";
+import { ESTIMATE_UNIT_OPTIONS } from "@/lib/constants";
 import { Skeleton } from "@/components/ui/skeleton";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 export default function ProjectsPage() {
   const params = useParams();
@@ -35,11 +50,8 @@ export default function ProjectsPage() {
     enabled: !!projectId,
   });
 
-  // Fetch user's role in the team for permission checking
-  const { data: teamMember } = useQuery({
-    queryKey: [projectId ? `/api/teams/${project?.teamId}/members/current` : null],
-    enabled: !!projectId && !!project?.teamId,
-  });
+  // User's permissions in the project's team
+  const { role, can } = usePermissions(project?.teamId);
 
   // Fetch all projects if no projectId is provided
   const { data: projects } = useQuery<Project[]>({
@@ -122,32 +134,11 @@ export default function ProjectsPage() {
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white font-inter">
                 {project.name}
               </h1>
-              {teamMember && teamMember.role !== 'guest' && (
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="icon" className="ml-2">
-                      <MoreHorizontal className="h-5 w-5" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem onClick={() => setLocation(`/projects/${project.id}/edit`)}>
-                      <Settings className="mr-2 h-4 w-4" />
-                      Edit Project
-                    </DropdownMenuItem>
-                    {teamMember.role === 'admin' && (
-                      <DropdownMenuItem 
-                        onClick={() => handleDeleteProject(project.id)}
-                        className="text-red-600 focus:text-red-600"
-                      >
-                        <svg className="mr-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                        </svg>
-                        Delete Project
-                      </DropdownMenuItem>
-                    )}
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              )}
+              <ProjectActionsMenu
+                project={project}
+                onDelete={handleDeleteProject}
+                className="ml-2"
+              />
             </div>
             {project.description && (
               <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
@@ -168,7 +159,7 @@ export default function ProjectsPage() {
             </div>
           </div>
           <div className="mt-4 sm:mt-0">
-            {teamMember && teamMember.role !== 'guest' && (
+            {can("task:create") && (
               <Button
                 onClick={() => setIsCreateTaskOpen(true)}
                 className="flex items-center gap-2"
@@ -184,7 +175,9 @@ export default function ProjectsPage() {
         <Tabs value={activeTab} onValueChange={setActiveTab} className="mb-6">
           <TabsList className="mb-4">
             <TabsTrigger value="board">Board</TabsTrigger>
+            <TabsTrigger value="backlog">Backlog</TabsTrigger>
             <TabsTrigger value="list">List</TabsTrigger>
+            <TabsTrigger value="timeline">Timeline</TabsTrigger>
             <TabsTrigger value="files">Files</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
@@ -193,11 +186,19 @@ export default function ProjectsPage() {
             <KanbanBoard projectId={project.id} />
           </TabsContent>
           
+          <TabsContent value="backlog" className="mt-0">
+            <SprintBacklog projectId={project.id} />
+          </TabsContent>
+          
           <TabsContent value="list" className="mt-0">
             {/* Import TaskListView component at top of file */}
             <TaskListView projectId={project.id} />
           </TabsContent>
           
+          <TabsContent value="timeline" className="mt-0">
+            <TaskTimeline projectId={project.id} />
+          </TabsContent>
+          
           <TabsContent value="files" className="mt-0">
             {/* Import FileListView component at top of file */}
             <FileListView projectId={project.id} />
@@ -212,7 +213,7 @@ export default function ProjectsPage() {
                 <TeamMembersCard 
                   teamId={project.teamId}
                   showRoleBadges={true} 
-                  currentUserRole={teamMember?.role}
+                  currentUserRole={role}
                 />
                 <div className="lg:col-span-2">
                   <ProjectProgressCard projectId={project.id} />
@@ -278,28 +279,7 @@ export default function ProjectsPage() {
                     <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
                       {project.name}
                     </h2>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="icon">
-                          <MoreHorizontal className="h-5 w-5" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem onClick={() => setLocation(`/projects/${project.id}/edit`)}>
-                          <Settings className="mr-2 h-4 w-4" />
-                          Edit Project
-                        </DropdownMenuItem>
-                        <DropdownMenuItem 
-                          onClick={() => handleDeleteProject(project.id)}
-                          className="text-red-600 focus:text-red-600"
-                        >
-                          <svg className="mr-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                          Delete Project
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
+                    <ProjectActionsMenu project={project} onDelete={handleDeleteProject} />
                   </div>
                   
                   <p className="text-sm text-gray-500 dark:text-gray-400 mb-4 line-clamp-2">
@@ -323,3 +303,104 @@ export default function ProjectsPage() {
     </MainLayout>
   );
 }
+
+interface ProjectActionsMenuProps {
+  project: Project;
+  onDelete: (id: number) => void;
+  className?: string;
+}
+
+// Edit and delete actions for a project, shown only to users allowed to use them
+function ProjectActionsMenu({ project, onDelete, className }: ProjectActionsMenuProps) {
+  const [, setLocation] = useLocation();
+  const { can } = usePermissions(project.teamId);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isWorkflowOpen, setIsWorkflowOpen] = useState(false);
+
+  const updateEstimateUnitMutation = useMutation({
+    mutationFn: async (estimateUnit: string) => {
+      return apiRequest("PUT", `/api/projects/${project.id}`, { estimateUnit });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${project.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update project: ${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!can("project:update") && !can("project:delete")) {
+    return null;
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className={className}>
+            <MoreHorizontal className="h-5 w-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {can("project:update") && (
+            <DropdownMenuItem onClick={() => setLocation(`/projects/${project.id}/edit`)}>
+              <Settings className="mr-2 h-4 w-4" />
+              Edit Project
+            </DropdownMenuItem>
+          )}
+          {can("project:update") && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Gauge className="mr-2 h-4 w-4" />
+                Estimate in
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuRadioGroup
+                  value={project.estimateUnit}
+                  onValueChange={(value) => updateEstimateUnitMutation.mutate(value)}
+                >
+                  {ESTIMATE_UNIT_OPTIONS.map((unit) => (
+                    <DropdownMenuRadioItem key={unit.value} value={unit.value}>
+                      {unit.label}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+          {can("project:update") && (
+            <DropdownMenuItem onClick={() => setIsWorkflowOpen(true)}>
+              <Workflow className="mr-2 h-4 w-4" />
+              Workflow
+            </DropdownMenuItem>
+          )}
+          {can("project:delete") && (
+            <DropdownMenuItem 
+              onClick={() => onDelete(project.id)}
+              className="text-red-600 focus:text-red-600"
+            >
+              <svg className="mr-2 h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+              Delete Project
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {isWorkflowOpen && (
+        <EditWorkflowDialog
+          open={isWorkflowOpen}
+          onOpenChange={setIsWorkflowOpen}
+          project={project}
+        />
+      )}
+    </>
+  );
+}
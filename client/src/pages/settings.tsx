@@ -37,6 +37,9 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { generateAvatar, getInitials } from "@/lib/utils";
 import { Loader2, Sun, Moon, Monitor } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
+import { TwoFactorSettings } from "@/components/auth/two-factor-settings";
+import { ActiveSessions } from "@/components/auth/active-sessions";
+import { ApiTokens } from "@/components/auth/api-tokens";
 
 // Profile form schema
 const profileFormSchema = z.object({
@@ -126,6 +129,24 @@ export default function SettingsPage() {
     },
   });
 
+  // Resend the email verification link
+  const resendVerificationMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/auth/resend-verification"),
+    onSuccess: () => {
+      toast({
+        title: "Verification email sent",
+        description: `Check ${user?.email} for the verification link.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to send verification email",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+      });
+    },
+  });
+
   const onProfileSubmit = (data: z.infer<typeof profileFormSchema>) => {
     updateProfileMutation.mutate(data);
   };
@@ -215,6 +236,20 @@ export default function SettingsPage() {
                               <FormControl>
                                 <Input {...field} />
                               </FormControl>
+                              {user && !user.emailVerifiedAt && (
+                                <FormDescription>
+                                  This email address has not been verified.{" "}
+                                  <Button
+                                    type="button"
+                                    variant="link"
+                                    className="h-auto p-0"
+                                    onClick={() => resendVerificationMutation.mutate()}
+                                    disabled={resendVerificationMutation.isPending}
+                                  >
+                                    Resend verification email
+                                  </Button>
+                                </FormDescription>
+                              )}
                               <FormMessage />
                             </FormItem>
                           )}
@@ -323,6 +358,15 @@ export default function SettingsPage() {
                 </Form>
               </CardContent>
             </Card>
+
+            {/* Two-Factor Authentication */}
+            <TwoFactorSettings />
+
+            {/* Active Sessions */}
+            <ActiveSessions />
+
+            {/* API Tokens */}
+            <ApiTokens />
           </TabsContent>
 
           {/* Appearance Tab */}
@@ -10,6 +10,7 @@ import { Users, User, Plus, Settings, Trash2 } from "lucide-react";
 import { PageHeader } from "@/components/layout/page-header";
 import { CreateTeamDialog } from "@/components/common/create-team-dialog";
 import { TeamManagementDialog } from "@/components/common/team-management-dialog";
+import { PendingInvitationsCard } from "@/components/common/pending-invitations";
 import { type Team, type TeamMember } from "@shared/schema";
 import {
   AlertDialog,
@@ -22,6 +23,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { MainLayout } from "@/components/layout/main-layout";
@@ -100,6 +102,8 @@ console.log(user);
           }
         />
 
+        <PendingInvitationsCard />
+
         <Tabs defaultValue="all" className="mt-6">
           <TabsList>
             <TabsTrigger value="all">All Teams</TabsTrigger>
@@ -167,15 +171,7 @@ console.log(user);
                         <Settings className="h-4 w-4 mr-2" />
                         Manage
                       </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="text-red-500 hover:text-red-700 hover:bg-red-50"
-                        onClick={() => handleDeleteTeam(team)}
-                      >
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Delete
-                      </Button>
+                      <DeleteTeamButton team={team} onDelete={handleDeleteTeam} />
                     </CardFooter>
                   </Card>
                 ))
@@ -258,15 +254,7 @@ console.log(user);
                           <Settings className="h-4 w-4 mr-2" />
                           Manage
                         </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="text-red-500 hover:text-red-700 hover:bg-red-50"
-                          onClick={() => handleDeleteTeam(team)}
-                        >
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          Delete
-                        </Button>
+                        <DeleteTeamButton team={team} onDelete={handleDeleteTeam} />
                       </CardFooter>
                     </Card>
                   ))
@@ -324,4 +312,25 @@ console.log(user);
       </div>
     </MainLayout>
   );
-}
\ No newline at end of file
+}
+
+// Only team admins can delete a team
+function DeleteTeamButton({ team, onDelete }: { team: Team; onDelete: (team: Team) => void }) {
+  const { can } = usePermissions(team.id);
+
+  if (!can("team:delete")) {
+    return null;
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="text-red-500 hover:text-red-700 hover:bg-red-50"
+      onClick={() => onDelete(team)}
+    >
+      <Trash2 className="h-4 w-4 mr-2" />
+      Delete
+    </Button>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { MainLayout } from "@/components/layout/main-layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Download } from "lucide-react";
+import {
+  addDays,
+  addWeeks,
+  endOfWeek,
+  format,
+  isSameDay,
+  startOfWeek,
+  subWeeks,
+} from "date-fns";
+import type { TimeEntryWithTask } from "@/hooks/use-time-tracking";
+import { formatDuration, getTimeEntryDuration, type TimeTotals } from "@shared/time-tracking";
+import type { Project, User } from "@shared/schema";
+
+const MINE = "mine";
+
+interface TimesheetRow {
+  taskId: number;
+  title: string;
+  projectId: number | null;
+  days: number[]; // seconds per day of the week
+  total: number;
+}
+
+export default function TimesheetPage() {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [projectId, setProjectId] = useState(MINE);
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  // Without a project the timesheet shows the current user's own time
+  const params = new URLSearchParams({
+    from: weekStart.toISOString(),
+    to: endOfWeek(weekStart, { weekStartsOn: 1 }).toISOString(),
+  });
+  if (projectId !== MINE) params.set("projectId", projectId);
+  const queryString = params.toString();
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+  const { data: entries = [], isLoading } = useQuery<TimeEntryWithTask[]>({
+    queryKey: [`/api/time-entries?${queryString}`],
+  });
+  const { data: totals } = useQuery<TimeTotals>({
+    queryKey: [`/api/time-entries/totals?${queryString}`],
+  });
+
+  const rows = new Map<number, TimesheetRow>();
+  entries.forEach((entry) => {
+    const row = rows.get(entry.taskId) ?? {
+      taskId: entry.taskId,
+      title: entry.task?.title ?? "Deleted task",
+      projectId: entry.task?.projectId ?? null,
+      days: days.map(() => 0),
+      total: 0,
+    };
+    const seconds = getTimeEntryDuration(entry);
+    const dayIndex = days.findIndex((day) => isSameDay(day, new Date(entry.startedAt)));
+    if (dayIndex >= 0) row.days[dayIndex] += seconds;
+    row.total += seconds;
+    rows.set(entry.taskId, row);
+  });
+  const sortedRows = Array.from(rows.values()).sort((a, b) => a.title.localeCompare(b.title));
+  const dayTotals = days.map((_, i) => sortedRows.reduce((sum, row) => sum + row.days[i], 0));
+
+  const getProjectName = (id: number | null) => projects.find((p) => p.id === id)?.name ?? "";
+  const getUserName = (id: number) => {
+    const user = users.find((u) => u.id === id);
+    return user ? user.fullName || user.username : `User #${id}`;
+  };
+
+  // Per user for a project, per project for the user's own time
+  const breakdown = projectId === MINE
+    ? Object.entries(totals?.byProject ?? {}).map(([id, seconds]) => ({ label: getProjectName(Number(id)), seconds }))
+    : Object.entries(totals?.byUser ?? {}).map(([id, seconds]) => ({ label: getUserName(Number(id)), seconds }));
+
+  return (
+    <MainLayout>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white font-inter">
+            Timesheet
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {format(weekStart, "MMM d")} – {format(days[6], "MMM d, yyyy")}
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={MINE}>My time</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id.toString()}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+          >
+            This week
+          </Button>
+
+          <div className="flex items-center rounded-md border">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setWeekStart(subWeeks(weekStart, 1))}
+              className="border-r rounded-r-none"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setWeekStart(addWeeks(weekStart, 1))}
+              className="rounded-l-none"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/time-entries/export?${queryString}`} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-4">
+        <Card className="lg:col-span-3">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="flex justify-center p-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+              </div>
+            ) : sortedRows.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+                No time logged this week.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Task</TableHead>
+                      {days.map((day) => (
+                        <TableHead key={day.toISOString()} className="text-right">
+                          {format(day, "EEE d")}
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sortedRows.map((row) => (
+                      <TableRow key={row.taskId}>
+                        <TableCell>
+                          <div className="font-medium">{row.title}</div>
+                          {projectId === MINE && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {getProjectName(row.projectId)}
+                            </div>
+                          )}
+                        </TableCell>
+                        {row.days.map((seconds, i) => (
+                          <TableCell key={i} className="text-right tabular-nums">
+                            {seconds > 0 ? formatDuration(seconds) : "—"}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-medium tabular-nums">
+                          {formatDuration(row.total)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell>Total</TableCell>
+                      {dayTotals.map((seconds, i) => (
+                        <TableCell key={i} className="text-right tabular-nums">
+                          {formatDuration(seconds)}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right tabular-nums">
+                        {formatDuration(totals?.total ?? 0)}
+                      </TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {projectId === MINE ? "By project" : "By person"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {breakdown.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nothing logged yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {breakdown.map((item) => (
+                  <li key={item.label} className="flex items-center justify-between text-sm">
+                    <span className="truncate">{item.label}</span>
+                    <span className="tabular-nums font-medium">{formatDuration(item.seconds)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { ROUTES } from "@/lib/constants";
+import { useAuth } from "@/contexts/auth-context";
+import { AuthCard } from "@/components/auth/auth-card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token");
+  const { isAuthenticated } = useAuth();
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">("verifying");
+  const [error, setError] = useState<string | null>(null);
+  // Tokens are single-use, so never submit twice (e.g. in strict mode)
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    if (!token) {
+      setStatus("failed");
+      setError("This verification link is incomplete.");
+      return;
+    }
+
+    apiRequest("POST", "/api/auth/verify-email", { token })
+      .then(() => setStatus("verified"))
+      .catch((err) => {
+        setStatus("failed");
+        setError(err instanceof Error ? err.message : "Verification failed");
+      });
+  }, [token]);
+
+  const continueTo = isAuthenticated ? ROUTES.DASHBOARD : ROUTES.LOGIN;
+
+  return (
+    <AuthCard
+      title={
+        status === "verifying"
+          ? "Verifying your email"
+          : status === "verified"
+            ? "Email verified"
+            : "Verification failed"
+      }
+      description={
+        status === "verified"
+          ? "Thanks for confirming your email address"
+          : "Confirming your email address for TeamFlow"
+      }
+    >
+      {status === "verifying" ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <div className="space-y-6 text-center">
+          {error && <p className="text-sm text-muted-foreground">{error}</p>}
+          <Button className="w-full" onClick={() => setLocation(continueTo)}>
+            {isAuthenticated ? "Go to dashboard" : "Go to login"}
+          </Button>
+        </div>
+      )}
+    </AuthCard>
+  );
+}
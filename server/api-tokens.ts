@@ -0,0 +1,62 @@
+import type { Request } from "express";
+import { createHash, randomBytes } from "crypto";
+import type { ApiToken } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request was authenticated with a personal API token
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+// Tokens look like "tf_<43 url-safe characters>"; only their SHA-256 hash is
+// stored. The prefix lets users recognise a token in the settings list.
+const TOKEN_PREFIX = "tf_";
+const DISPLAY_PREFIX_LENGTH = 8;
+
+const READ_ONLY_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken() {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, TOKEN_PREFIX.length + DISPLAY_PREFIX_LENGTH),
+  };
+}
+
+export function getBearerToken(req: Request): string | null {
+  const header = req.get("authorization");
+  if (!header || !header.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+export type ApiTokenAuthResult =
+  | { token: ApiToken }
+  | { status: 401 | 403; message: string };
+
+// Resolves the bearer token of a request and checks expiry and scope
+export async function authenticateApiToken(req: Request, bearer: string): Promise<ApiTokenAuthResult> {
+  const token = await storage.getApiTokenByHash(hashApiToken(bearer));
+  if (!token) {
+    return { status: 401, message: "Invalid API token" };
+  }
+  if (token.expiresAt && new Date(token.expiresAt).getTime() < Date.now()) {
+    return { status: 401, message: "API token has expired" };
+  }
+  if (token.scope !== "write" && !READ_ONLY_METHODS.includes(req.method)) {
+    return { status: 403, message: "This API token is read-only" };
+  }
+
+  storage.touchApiToken(token.id)
+    .catch(error => console.error("Failed to update API token usage:", error));
+
+  return { token };
+}
@@ -0,0 +1,93 @@
+import type { Request } from "express";
+import type { AuditChanges, AuditEvent, User } from "@shared/schema";
+import { storage } from "./storage";
+
+export type AuditAction = "create" | "update" | "delete";
+
+// Secrets never end up in the audit log; a change to them is recorded
+// without the values
+const REDACTED_FIELDS = new Set(["password", "secret", "recoveryCodes", "tokenHash", "sid"]);
+const REDACTED = "[redacted]";
+
+type AuditRecord = Record<string, unknown> | null | undefined;
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: string;
+  entityId?: number | null;
+  before?: AuditRecord;
+  after?: AuditRecord;
+}
+
+// Dates are compared and stored as ISO strings
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+// The fields that differ between two versions of a record. For creates
+// `before` is empty and for deletes `after` is empty, so every field shows up.
+export function diffRecords(before: AuditRecord, after: AuditRecord): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  fields.forEach(field => {
+    const oldValue = normalize(before?.[field]);
+    const newValue = normalize(after?.[field]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: oldValue === null ? null : REDACTED, after: newValue === null ? null : REDACTED }
+      : { before: oldValue, after: newValue };
+  });
+
+  return changes;
+}
+
+// Appends an audit event for a change made by the current request, or by the
+// server itself when there is no request. Failing to write the log never
+// fails the request itself.
+export async function recordAudit(req: Request | null, entry: AuditEntry) {
+  try {
+    await storage.createAuditEvent({
+      actorId: req?.session?.userId ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      changes: diffRecords(entry.before, entry.after),
+      ipAddress: req?.ip ?? null,
+    });
+  } catch (error) {
+    console.error("Failed to record audit event:", error);
+  }
+}
+
+const CSV_COLUMNS = ["id", "timestamp", "actor_id", "actor", "action", "entity_type", "entity_id", "ip_address", "changes"];
+
+// Text a spreadsheet would run as a formula gets a leading quote, since
+// titles, names and notes are whatever users typed
+export function csvField(value: unknown): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV export of audit events for the admin viewer. `actors` maps actor ids to
+// users so the export stays readable after ids are looked up.
+export function auditEventsToCsv(events: AuditEvent[], actors: Map<number, User>): string {
+  const rows = events.map(event => [
+    event.id,
+    event.createdAt.toISOString(),
+    event.actorId,
+    event.actorId !== null ? actors.get(event.actorId)?.username : "",
+    event.action,
+    event.entityType,
+    event.entityId,
+    event.ipAddress,
+    event.changes ? JSON.stringify(event.changes) : "",
+  ].map(csvField).join(","));
+
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
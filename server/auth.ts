@@ -0,0 +1,39 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number,
+) => Promise<Buffer>;
+
+const HASH_PREFIX = "scrypt";
+const KEY_LENGTH = 64;
+
+// Hashes are stored as "scrypt$<salt>$<hash>" (hex encoded)
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derivedKey = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt}$${derivedKey.toString("hex")}`;
+}
+
+export function isPasswordHashed(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+// Compare a password with a stored value. Rows created before hashing was
+// introduced still hold the plaintext password, which is compared directly.
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHashed(stored)) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, salt, hash] = stored.split("$");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const derivedKey = await scryptAsync(password, salt, expected.length);
+  return derivedKey.length === expected.length && timingSafeEqual(derivedKey, expected);
+}
@@ -0,0 +1,53 @@
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+interface AdminDetails {
+  username: string;
+  email: string;
+  password: string;
+  fullName?: string;
+}
+
+// Create the first admin account. Does nothing once any admin exists, so it
+// is safe to run on every start.
+export async function createInitialAdmin(details: AdminDetails): Promise<User | undefined> {
+  const users = await storage.getAllUsers();
+  if (users.some(user => user.role === "admin")) {
+    return undefined;
+  }
+
+  if (await storage.getUserByUsername(details.username)) {
+    throw new Error(`Username "${details.username}" is already taken`);
+  }
+
+  return storage.createUser({
+    username: details.username,
+    email: details.email,
+    password: details.password,
+    fullName: details.fullName || "Administrator",
+    role: "admin",
+    userType: "organization",
+  });
+}
+
+// Bootstrap the first admin from ADMIN_USERNAME / ADMIN_EMAIL / ADMIN_PASSWORD
+export async function bootstrapAdminFromEnv() {
+  const { ADMIN_USERNAME, ADMIN_EMAIL, ADMIN_PASSWORD, ADMIN_FULL_NAME } = process.env;
+  if (!ADMIN_USERNAME || !ADMIN_EMAIL || !ADMIN_PASSWORD) {
+    return;
+  }
+
+  try {
+    const admin = await createInitialAdmin({
+      username: ADMIN_USERNAME,
+      email: ADMIN_EMAIL,
+      password: ADMIN_PASSWORD,
+      fullName: ADMIN_FULL_NAME,
+    });
+    if (admin) {
+      console.log(`Created initial admin user "${admin.username}"`);
+    }
+  } catch (error) {
+    console.error("Failed to bootstrap admin user:", error);
+  }
+}
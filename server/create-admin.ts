@@ -0,0 +1,32 @@
+// Usage: npm run admin:create -- <username> <email> <password> [full name]
+import { createInitialAdmin } from "./bootstrap";
+import { pool } from "./db";
+
+async function main() {
+  const [username, email, password, ...fullName] = process.argv.slice(2);
+
+  if (!username || !email || !password) {
+    console.error("Usage: npm run admin:create -- <username> <email> <password> [full name]");
+    process.exit(1);
+  }
+
+  const admin = await createInitialAdmin({
+    username,
+    email,
+    password,
+    fullName: fullName.join(" ") || undefined,
+  });
+
+  if (admin) {
+    console.log(`Created admin user "${admin.username}"`);
+  } else {
+    console.log("An admin user already exists, nothing to do");
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,65 @@
+import { format } from "date-fns";
+import {
+  getTaskTiming,
+  summarizeTimings,
+  type CycleTimeReport,
+  type StatusChange,
+  type TaskTiming,
+} from "@shared/cycle-time";
+import type { StatusTotals } from "@shared/schema";
+import { isDoneStatus } from "@shared/workflow";
+import { storage } from "./storage";
+import { getProjectWorkflow } from "./workflow";
+
+// Groups timings by a key; a timing can be in several groups, like a task
+// with more than one tag
+function groupTimings<K>(timings: TaskTiming[], keysOf: (timing: TaskTiming) => K[]): Map<K, TaskTiming[]> {
+  const groups = new Map<K, TaskTiming[]>();
+  timings.forEach(timing => {
+    keysOf(timing).forEach(key => {
+      groups.set(key, [...(groups.get(key) ?? []), timing]);
+    });
+  });
+  return groups;
+}
+
+// Lead and cycle times of the project's tasks completed between `from` and
+// `to` (inclusive days), overall and per assignee and tag
+export async function getCycleTimeReport(projectId: number, from: Date, to: Date): Promise<CycleTimeReport> {
+  const workflow = await getProjectWorkflow(projectId);
+  const tasks = (await storage.getTasksByProject(projectId)).filter(task => isDoneStatus(workflow, task.status));
+  const events = await storage.getTaskEventsByTasks(tasks.map(task => task.id), "status");
+
+  const changesByTask = new Map<number, StatusChange[]>();
+  events.forEach(event => {
+    const changes = changesByTask.get(event.taskId) ?? [];
+    changes.push({ from: event.oldValue as string | null, to: event.newValue as string | null, at: event.createdAt });
+    changesByTask.set(event.taskId, changes);
+  });
+
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1);
+  const timings = tasks
+    .map(task => getTaskTiming(task, changesByTask.get(task.id) ?? [], workflow))
+    .filter((timing): timing is TaskTiming => !!timing && timing.completedAt >= from && timing.completedAt < end)
+    .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+
+  const averageTimeInStatus: StatusTotals = {};
+  timings.forEach(timing => {
+    Object.entries(timing.timeInStatus).forEach(([status, time]) => {
+      averageTimeInStatus[status] = (averageTimeInStatus[status] ?? 0) + time / timings.length;
+    });
+  });
+
+  const byAssignee = groupTimings(timings, timing => [timing.assigneeId]);
+  const byTag = groupTimings(timings, timing => timing.tags);
+
+  return {
+    from: format(from, "yyyy-MM-dd"),
+    to: format(to, "yyyy-MM-dd"),
+    tasks: timings,
+    overall: summarizeTimings(timings),
+    byAssignee: Array.from(byAssignee, ([assigneeId, group]) => ({ assigneeId, ...summarizeTimings(group) })),
+    byTag: Array.from(byTag, ([tag, group]) => ({ tag, ...summarizeTimings(group) })),
+    averageTimeInStatus,
+  };
+}
@@ -0,0 +1,35 @@
+import { EventEmitter } from "events";
+import type { TaskEvent } from "@shared/events";
+
+// A logged-out session, or every session of a user but `exceptSid`
+export type SessionRevokedEvent =
+  | { sid: string }
+  | { userId: number; exceptSid?: string };
+
+// In-process event bus. Routes publish domain events here and transports
+// (e.g. the WebSocket server) subscribe to deliver them.
+class EventBus extends EventEmitter {
+  publishTaskEvent(event: TaskEvent) {
+    this.emit("task", event);
+  }
+
+  onTaskEvent(listener: (event: TaskEvent) => void) {
+    this.on("task", listener);
+    return () => {
+      this.off("task", listener);
+    };
+  }
+
+  publishSessionRevoked(event: SessionRevokedEvent) {
+    this.emit("session.revoked", event);
+  }
+
+  onSessionRevoked(listener: (event: SessionRevokedEvent) => void) {
+    this.on("session.revoked", listener);
+    return () => {
+      this.off("session.revoked", listener);
+    };
+  }
+}
+
+export const eventBus = new EventBus();
@@ -0,0 +1,76 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { Project } from "@shared/schema";
+import { getStatusTotals, type FlowDay, type ProjectFlow } from "@shared/flow";
+import { storage } from "./storage";
+
+// Snapshots are rewritten throughout the day, so the last one of a day
+// reflects where the project ended up
+const SNAPSHOT_INTERVAL = 60 * 60 * 1000;
+
+const toDay = (date: Date) => format(date, "yyyy-MM-dd");
+
+async function getCurrentTotals(projectId: number) {
+  const tasks = await storage.getTasksByProject(projectId);
+  return getStatusTotals(tasks);
+}
+
+export async function recordFlowSnapshots(now = new Date()) {
+  const projects = await storage.getAllProjects();
+  const day = toDay(now);
+
+  for (const project of projects) {
+    const { counts, estimates } = await getCurrentTotals(project.id);
+    await storage.saveProjectFlowSnapshot({
+      projectId: project.id,
+      day,
+      statusCounts: counts,
+      statusEstimates: estimates,
+    });
+  }
+}
+
+export function startFlowSnapshotScheduler() {
+  const run = () => {
+    recordFlowSnapshots().catch(error => {
+      console.error("Failed to record project flow snapshots:", error);
+    });
+  };
+
+  run();
+  setInterval(run, SNAPSHOT_INTERVAL).unref();
+}
+
+// The status totals of each day from `from` to `to`. Today comes from the
+// tasks as they are now. A day the scheduler missed repeats the day before;
+// days before the first snapshot are left out.
+export async function getProjectFlow(project: Project, from: Date, to: Date, now = new Date()): Promise<ProjectFlow> {
+  const fromDay = toDay(from);
+  const toDayValue = toDay(to);
+  const today = toDay(now);
+
+  const snapshots = await storage.getProjectFlowSnapshots(project.id, fromDay, toDayValue);
+  const byDay = new Map(snapshots.map(snapshot => [snapshot.day, snapshot]));
+
+  const days: FlowDay[] = [];
+  let previous: FlowDay | undefined;
+  for (let date = parseISO(fromDay); toDay(date) <= toDayValue && toDay(date) <= today; date = addDays(date, 1)) {
+    const day = toDay(date);
+    const snapshot = byDay.get(day);
+
+    let flowDay: FlowDay | undefined;
+    if (day === today) {
+      flowDay = { day, ...(await getCurrentTotals(project.id)) };
+    } else if (snapshot) {
+      flowDay = { day, counts: snapshot.statusCounts, estimates: snapshot.statusEstimates };
+    } else if (previous) {
+      flowDay = { ...previous, day };
+    }
+
+    if (flowDay) {
+      days.push(flowDay);
+      previous = flowDay;
+    }
+  }
+
+  return { from: fromDay, to: toDayValue, days };
+}
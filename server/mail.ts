@@ -0,0 +1,110 @@
+import sgMail from "@sendgrid/mail";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { User } from "@shared/schema";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "TeamFlow <no-reply@teamflow.local>";
+
+// Delivers through the SendGrid API (production)
+export class SendGridTransport implements MailTransport {
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage) {
+    await sgMail.send({ from: MAIL_FROM, ...message });
+  }
+}
+
+// Prints messages to the server log (development)
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes each message to a JSON file so tests and local tooling can read them
+export class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from: MAIL_FROM, ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+// MAIL_TRANSPORT selects "sendgrid", "file" or "console". Without it, SendGrid
+// is used in production when an API key is configured, otherwise the console.
+function createTransport(): MailTransport {
+  const apiKey = process.env.SENDGRID_API_KEY;
+  const transport =
+    process.env.MAIL_TRANSPORT ||
+    (process.env.NODE_ENV === "production" && apiKey ? "sendgrid" : "console");
+
+  switch (transport) {
+    case "sendgrid":
+      if (!apiKey) throw new Error("SENDGRID_API_KEY is required for the sendgrid mail transport");
+      return new SendGridTransport(apiKey);
+    case "file":
+      return new FileTransport(
+        process.env.MAIL_OUTBOX_DIR || path.join(os.tmpdir(), "teamflow-mail")
+      );
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${transport}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// Replace the transport, e.g. with an in-memory one in tests
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage) {
+  if (!transport) transport = createTransport();
+  await transport.send(message);
+}
+
+export async function sendPasswordResetEmail(user: User, resetUrl: string) {
+  await sendMail({
+    to: user.email,
+    subject: "Reset your TeamFlow password",
+    text:
+      `Hi ${user.fullName},\n\n` +
+      `Someone asked to reset the password for your TeamFlow account (${user.username}).\n` +
+      `Use this link to choose a new password. It expires in one hour and can only be used once:\n\n` +
+      `${resetUrl}\n\n` +
+      `If you did not ask for this, you can ignore this email.`,
+  });
+}
+
+export async function sendVerificationEmail(user: User, verifyUrl: string) {
+  await sendMail({
+    to: user.email,
+    subject: "Verify your TeamFlow email address",
+    text:
+      `Hi ${user.fullName},\n\n` +
+      `Please confirm that ${user.email} is your email address by opening this link:\n\n` +
+      `${verifyUrl}\n\n` +
+      `The link expires in 3 days.`,
+  });
+}
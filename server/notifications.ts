@@ -0,0 +1,74 @@
+import type { File, InsertNotification, Task, Team, User } from "@shared/schema";
+import { storage } from "./storage";
+import { publishToUsers } from "./realtime";
+
+// Store a notification and push it to the recipient if they are connected.
+// Failures are logged and swallowed so they never break the originating request.
+export async function notify(notification: InsertNotification) {
+  try {
+    const created = await storage.createNotification(notification);
+    publishToUsers([created.userId], { type: "notification.created", notification: created });
+    return created;
+  } catch (error) {
+    console.error("Failed to create notification:", error);
+    return undefined;
+  }
+}
+
+// Task assigned to someone other than the person making the change
+export async function notifyTaskAssigned(task: Task, actor: User) {
+  if (!task.assigneeId || task.assigneeId === actor.id) return;
+
+  await notify({
+    userId: task.assigneeId,
+    type: "task_assigned",
+    message: `${actor.fullName} assigned you to "${task.title}"`,
+    link: `/projects/${task.projectId}`,
+  });
+}
+
+// Comment on a task, sent to the task's assignee
+export async function notifyTaskComment(task: Task, actor: User) {
+  if (!task.assigneeId || task.assigneeId === actor.id) return;
+
+  await notify({
+    userId: task.assigneeId,
+    type: "comment",
+    message: `${actor.fullName} commented on "${task.title}"`,
+    link: `/projects/${task.projectId}`,
+  });
+}
+
+// File uploaded to a project, sent to the rest of the project's team
+export async function notifyFileUploaded(file: File, teamId: number, actor: User) {
+  try {
+    const teamMembers = await storage.getTeamMembers(teamId);
+
+    await Promise.all(
+      teamMembers
+        .filter(member => member.userId !== actor.id)
+        .map(member =>
+          notify({
+            userId: member.userId,
+            type: "file",
+            message: `${actor.fullName} shared "${file.name}"`,
+            link: `/projects/${file.projectId}`,
+          })
+        )
+    );
+  } catch (error) {
+    console.error("Failed to notify team about file:", error);
+  }
+}
+
+// Invitation to join a team
+export async function notifyTeamInvitation(team: Team, userId: number, actor: User) {
+  if (userId === actor.id) return;
+
+  await notify({
+    userId,
+    type: "team_invitation",
+    message: `${actor.fullName} invited you to join ${team.name}`,
+    link: "/teams",
+  });
+}
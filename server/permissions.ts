@@ -0,0 +1,35 @@
+import type { User } from "@shared/schema";
+import { roleCan, type Action } from "@shared/permissions";
+import { storage } from "./storage";
+
+export type { Action } from "@shared/permissions";
+
+// What an action applies to: the team that owns it and, for content such as
+// comments, files and messages, the user who created it
+export interface Resource {
+  teamId: number;
+  ownerId?: number | null;
+}
+
+// Central authorization check used by every route that touches team content.
+// Permissions come from the user's role in the resource's team; users outside
+// the team can't do anything.
+export async function can(
+  user: Pick<User, "id">,
+  action: Action,
+  resource: Resource
+): Promise<boolean> {
+  const role = await getTeamRole(user.id, resource.teamId);
+  if (!role) return false;
+  return roleCan(role, action, resource.ownerId != null && resource.ownerId === user.id);
+}
+
+export async function getTeamRole(userId: number, teamId: number): Promise<string | undefined> {
+  const teamMembers = await storage.getTeamMembers(teamId);
+  return teamMembers.find(member => member.userId === userId)?.role;
+}
+
+// Account-level actions (creating teams, managing users) need a global admin
+export function isSystemAdmin(user: Pick<User, "role"> | undefined): boolean {
+  return user?.role === "admin";
+}
@@ -0,0 +1,155 @@
+import type { Request, Response, RequestHandler } from "express";
+import type { Server, IncomingMessage } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import type { RealtimeEvent, RealtimeClientMessage } from "@shared/events";
+import { storage } from "./storage";
+import { eventBus } from "./events";
+import { can } from "./permissions";
+
+interface RealtimeClient {
+  userId: number;
+  sid: string;
+  projectIds: Set<number>;
+}
+
+// Open sockets, the user each one was authenticated as and the projects it watches
+const clients = new Map<WebSocket, RealtimeClient>();
+
+// Resolve the logged-in user and their session for an upgrade request by
+// running it through the same express-session middleware the REST routes use
+const getSession = (req: IncomingMessage, sessionMiddleware: RequestHandler) => {
+  return new Promise<{ userId: number | undefined; sid: string }>((resolve) => {
+    sessionMiddleware(req as Request, {} as Response, () => {
+      resolve({ userId: (req as Request).session?.userId, sid: (req as Request).sessionID });
+    });
+  });
+};
+
+// Check that a user may view a project
+const isProjectMember = async (projectId: number, userId: number) => {
+  const project = await storage.getProject(projectId);
+  if (!project) return false;
+
+  return can({ id: userId }, "project:view", { teamId: project.teamId });
+};
+
+const handleClientMessage = async (client: RealtimeClient, data: string) => {
+  let message: RealtimeClientMessage;
+  try {
+    message = JSON.parse(data);
+  } catch (error) {
+    return;
+  }
+
+  const projectId = Number(message.projectId);
+  if (!Number.isInteger(projectId)) return;
+
+  if (message.type === "subscribe") {
+    if (await isProjectMember(projectId, client.userId)) {
+      client.projectIds.add(projectId);
+    }
+  } else if (message.type === "unsubscribe") {
+    client.projectIds.delete(projectId);
+  }
+};
+
+export function setupRealtime(server: Server, sessionMiddleware: RequestHandler) {
+  // noServer so that upgrades for other paths (e.g. Vite HMR) are left alone
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== "/ws") return;
+
+    try {
+      const { userId, sid } = await getSession(req, sessionMiddleware);
+      if (!userId) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: RealtimeClient = { userId, sid, projectIds: new Set() };
+        clients.set(ws, client);
+
+        ws.on("message", (data) => {
+          handleClientMessage(client, data.toString()).catch((error) => {
+            console.error("Failed to handle realtime message:", error);
+          });
+        });
+        ws.on("close", () => clients.delete(ws));
+        ws.on("error", () => clients.delete(ws));
+      });
+    } catch (error) {
+      console.error("WebSocket upgrade error:", error);
+      socket.destroy();
+    }
+  });
+
+  // A socket lives only as long as the session it was opened with
+  eventBus.onSessionRevoked((event) => {
+    clients.forEach((client, ws) => {
+      const revoked = "sid" in event
+        ? client.sid === event.sid
+        : client.userId === event.userId && client.sid !== event.exceptSid;
+      if (revoked) {
+        ws.close(4001, "Session ended");
+        clients.delete(ws);
+      }
+    });
+  });
+
+  // Forward task events to everyone watching the project
+  eventBus.onTaskEvent((event) => {
+    publishToProject(event.projectId, event);
+  });
+
+  return wss;
+}
+
+// Send an event to every connected user in the given list
+export function publishToUsers(userIds: number[], event: RealtimeEvent) {
+  const payload = JSON.stringify(event);
+
+  clients.forEach((client, ws) => {
+    if (userIds.includes(client.userId) && ws.readyState === WebSocket.OPEN) {
+      ws.send(payload);
+    }
+  });
+}
+
+// Send an event to every connected member of a team
+export async function publishToTeam(teamId: number, event: RealtimeEvent) {
+  try {
+    const teamMembers = await storage.getTeamMembers(teamId);
+    publishToUsers(teamMembers.map(member => member.userId), event);
+  } catch (error) {
+    console.error("Failed to publish realtime event:", error);
+  }
+}
+
+// Send an event to every socket subscribed to a project whose user is still
+// a member of the project's team
+export async function publishToProject(projectId: number, event: RealtimeEvent) {
+  try {
+    const project = await storage.getProject(projectId);
+    if (!project) return;
+
+    const teamMembers = await storage.getTeamMembers(project.teamId);
+    const memberIds = new Set(teamMembers.map(member => member.userId));
+    const payload = JSON.stringify(event);
+
+    clients.forEach((client, ws) => {
+      if (
+        client.projectIds.has(projectId) &&
+        memberIds.has(client.userId) &&
+        ws.readyState === WebSocket.OPEN
+      ) {
+        ws.send(payload);
+      }
+    });
+  } catch (error) {
+    console.error("Failed to publish realtime event:", error);
+  }
+}
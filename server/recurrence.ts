@@ -0,0 +1,261 @@
+import type { Request } from "express";
+import type { Task, TaskRecurrence } from "@shared/schema";
+import { parseRecurrenceRule, getNextOccurrence } from "@shared/recurrence";
+import { storage } from "./storage";
+import { eventBus } from "./events";
+import { recordAudit } from "./audit";
+import { recordTaskChanges } from "./task-history";
+import { getInitialStatus, isDoneStatus } from "@shared/workflow";
+import { getProjectWorkflow } from "./workflow";
+
+// Fields every occurrence of a series starts with
+const TEMPLATE_FIELDS = ["title", "description", "assigneeId", "priority", "tags", "estimate"] as const;
+
+// How often the scheduler looks for series whose latest occurrence is due
+const RECURRENCE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+type TemplateChanges = Partial<Pick<Task, typeof TEMPLATE_FIELDS[number]>>;
+
+// Postgres unique_violation, raised when two occurrences of a series would
+// have the same due date
+export const isUniqueViolation = (error: unknown) =>
+  typeof error === "object" && error !== null && (error as { code?: string }).code === "23505";
+
+function pickTemplateFields(changes: Partial<Task>): TemplateChanges {
+  const template: Record<string, unknown> = {};
+  TEMPLATE_FIELDS.forEach(field => {
+    if (changes[field] !== undefined) template[field] = changes[field];
+  });
+  return template as TemplateChanges;
+}
+
+// Turns a task into the first occurrence of a new series. The task's due
+// date is where the schedule starts, so it must have one.
+export async function startRecurrence(req: Request, task: Task, rule: string): Promise<Task> {
+  if (!task.dueDate) {
+    throw new Error("Recurring tasks need a due date");
+  }
+
+  const recurrence = await storage.createTaskRecurrence({
+    projectId: task.projectId,
+    rule,
+    startDate: task.dueDate,
+    title: task.title,
+    description: task.description,
+    assigneeId: task.assigneeId,
+    priority: task.priority,
+    tags: task.tags,
+    estimate: task.estimate,
+    lastTaskId: task.id,
+    lastDueDate: task.dueDate,
+    createdBy: req.session.userId!,
+  });
+  await recordAudit(req, { action: "create", entityType: "task_recurrence", entityId: recurrence.id, after: recurrence });
+
+  const updatedTask = await storage.updateTask(task.id, { recurrenceId: recurrence.id });
+  return updatedTask ?? task;
+}
+
+async function endRecurrence(req: Request | null, recurrence: TaskRecurrence) {
+  const ended = await storage.updateTaskRecurrence(recurrence.id, { endedAt: new Date() });
+  await recordAudit(req, { action: "update", entityType: "task_recurrence", entityId: recurrence.id, before: recurrence, after: ended });
+}
+
+// Creates the occurrence after the latest one, or ends the series once its
+// schedule has run out. Dates up to `skipUntil` are skipped, so a scheduler
+// that was down for a while doesn't create every missed occurrence; they
+// still count toward COUNT. `req` is null when the scheduler does this.
+export async function createNextOccurrence(
+  req: Request | null,
+  recurrence: TaskRecurrence,
+  skipUntil?: Date
+): Promise<Task | undefined> {
+  const rule = parseRecurrenceRule(recurrence.rule);
+  let dueDate = getNextOccurrence(rule, recurrence.startDate, recurrence.lastDueDate);
+  let occurrenceCount = recurrence.occurrenceCount + 1;
+  while (dueDate && skipUntil && dueDate <= skipUntil) {
+    dueDate = getNextOccurrence(rule, recurrence.startDate, dueDate);
+    occurrenceCount++;
+  }
+  if (rule.count !== undefined && occurrenceCount > rule.count) {
+    dueDate = null;
+  }
+
+  if (!dueDate) {
+    await endRecurrence(req, recurrence);
+    return undefined;
+  }
+
+  // The scheduler and a just completed occurrence can both get here for the
+  // same series. Whichever comes second finds the occurrence already there,
+  // or is turned away by the unique index if both insert at once.
+  const occurrences = await storage.getTasksByRecurrence(recurrence.id);
+  if (occurrences.some(occurrence => occurrence.dueDate?.getTime() === dueDate!.getTime())) {
+    return undefined;
+  }
+
+  const workflow = await getProjectWorkflow(recurrence.projectId);
+  let created: Task;
+  try {
+    created = await storage.createTask({
+      title: recurrence.title,
+      description: recurrence.description,
+      projectId: recurrence.projectId,
+      assigneeId: recurrence.assigneeId,
+      priority: recurrence.priority,
+      tags: recurrence.tags,
+      estimate: recurrence.estimate,
+      status: getInitialStatus(workflow),
+      order: 0,
+      dueDate,
+      recurrenceId: recurrence.id,
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) return undefined;
+    throw error;
+  }
+
+  // Like a card dropped on the board, it goes to the end of its column
+  const move = await storage.moveTask(created.id, { status: created.status }, null);
+  const task = move?.task ?? created;
+  await storage.updateTaskRecurrence(recurrence.id, {
+    lastTaskId: task.id,
+    lastDueDate: dueDate,
+    occurrenceCount,
+  });
+  await recordAudit(req, { action: "create", entityType: "task", entityId: task.id, after: task });
+
+  eventBus.publishTaskEvent({ type: "task.created", projectId: task.projectId, task });
+  if (move) {
+    eventBus.publishTaskEvent({ type: "tasks.reordered", projectId: task.projectId, status: task.status, taskIds: move.column });
+  }
+  return task;
+}
+
+// Completing the latest occurrence of a series brings up the next one right
+// away instead of waiting for the scheduler
+export async function handleOccurrenceCompleted(req: Request, before: Task, after: Task) {
+  if (!after.recurrenceId) return;
+
+  const workflow = await getProjectWorkflow(after.projectId);
+  if (isDoneStatus(workflow, before.status) || !isDoneStatus(workflow, after.status)) return;
+
+  const recurrence = await storage.getTaskRecurrence(after.recurrenceId);
+  if (recurrence && !recurrence.endedAt && recurrence.lastTaskId === after.id) {
+    await createNextOccurrence(req, recurrence);
+  }
+}
+
+// Open occurrences of the same series due at or after the given task
+async function getFutureOccurrences(task: Task): Promise<Task[]> {
+  const occurrences = await storage.getTasksByRecurrence(task.recurrenceId!);
+  const workflow = await getProjectWorkflow(task.projectId);
+  const from = task.dueDate?.getTime() ?? 0;
+  return occurrences.filter(occurrence =>
+    occurrence.id !== task.id &&
+    !isDoneStatus(workflow, occurrence.status) &&
+    (occurrence.dueDate?.getTime() ?? 0) >= from
+  );
+}
+
+// Applies an edit of one occurrence to "all future occurrences": the
+// occurrence itself, the series template, the later open occurrences and,
+// when given, the schedule. A new due date moves the whole schedule by the
+// same amount; a `rule` of null stops the series. The occurrences are saved
+// all or none, so one that would land on the due date of another occurrence
+// fails the edit with a unique violation. Returns the edited occurrence, or
+// undefined if the series is gone.
+export async function updateFutureOccurrences(
+  req: Request,
+  before: Task,
+  changes: Partial<Task>,
+  rule: string | null | undefined
+): Promise<Task | undefined> {
+  const recurrence = await storage.getTaskRecurrence(before.recurrenceId!);
+  if (!recurrence) return undefined;
+
+  const template = pickTemplateFields(changes);
+  const shift = changes.dueDate && before.dueDate
+    ? changes.dueDate.getTime() - before.dueDate.getTime()
+    : 0;
+
+  // Occurrences move in the direction of the shift, furthest first, so none
+  // lands on a due date another one still has
+  const occurrences = [before, ...(await getFutureOccurrences(before))].sort((a, b) =>
+    ((b.dueDate?.getTime() ?? 0) - (a.dueDate?.getTime() ?? 0)) * Math.sign(shift)
+  );
+  const updatedOccurrences = await storage.updateTasks(occurrences.map(occurrence => {
+    if (occurrence.id === before.id) return { id: occurrence.id, changes };
+
+    const occurrenceChanges: Partial<Task> = { ...template };
+    if (shift && occurrence.dueDate) {
+      occurrenceChanges.dueDate = new Date(occurrence.dueDate.getTime() + shift);
+    }
+    return { id: occurrence.id, changes: occurrenceChanges };
+  }));
+
+  const seriesChanges: Partial<TaskRecurrence> = { ...template };
+  if (shift) {
+    seriesChanges.startDate = new Date(recurrence.startDate.getTime() + shift);
+    seriesChanges.lastDueDate = new Date(recurrence.lastDueDate.getTime() + shift);
+  }
+  if (rule === null) {
+    seriesChanges.endedAt = new Date();
+  } else if (rule !== undefined) {
+    seriesChanges.rule = rule;
+    seriesChanges.endedAt = null;
+  }
+
+  const updatedRecurrence = await storage.updateTaskRecurrence(recurrence.id, seriesChanges);
+  await recordAudit(req, { action: "update", entityType: "task_recurrence", entityId: recurrence.id, before: recurrence, after: updatedRecurrence });
+
+  // The edited occurrence itself is recorded by the caller
+  for (const updatedOccurrence of updatedOccurrences) {
+    const occurrence = occurrences.find(task => task.id === updatedOccurrence.id)!;
+    if (occurrence.id === before.id) continue;
+
+    await recordAudit(req, { action: "update", entityType: "task", entityId: occurrence.id, before: occurrence, after: updatedOccurrence });
+    await recordTaskChanges(req, occurrence, updatedOccurrence);
+    eventBus.publishTaskEvent({ type: "task.updated", projectId: updatedOccurrence.projectId, task: updatedOccurrence });
+  }
+
+  return updatedOccurrences.find(task => task.id === before.id);
+}
+
+// Deleting "all future occurrences" stops the series and removes the later
+// open occurrences; the given task itself is deleted by the caller
+export async function deleteFutureOccurrences(req: Request, task: Task) {
+  const recurrence = await storage.getTaskRecurrence(task.recurrenceId!);
+  if (recurrence && !recurrence.endedAt) {
+    await endRecurrence(req, recurrence);
+  }
+
+  for (const occurrence of await getFutureOccurrences(task)) {
+    await storage.deleteTask(occurrence.id);
+    await recordAudit(req, { action: "delete", entityType: "task", entityId: occurrence.id, before: occurrence });
+    eventBus.publishTaskEvent({ type: "task.deleted", projectId: occurrence.projectId, taskId: occurrence.id });
+  }
+}
+
+// Keeps one upcoming occurrence per series: once the latest occurrence is
+// due, the next one is created even if the latest isn't complete yet
+export async function generateDueOccurrences(now = new Date()) {
+  const recurrences = await storage.getActiveTaskRecurrences();
+
+  for (const recurrence of recurrences) {
+    if (recurrence.lastDueDate <= now) {
+      await createNextOccurrence(null, recurrence, now);
+    }
+  }
+}
+
+export function startRecurrenceScheduler() {
+  const run = () => {
+    generateDueOccurrences().catch(error => {
+      console.error("Failed to generate recurring tasks:", error);
+    });
+  };
+
+  run();
+  setInterval(run, RECURRENCE_CHECK_INTERVAL).unref();
+}
@@ -1,31 +1,91 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import session from "express-session";
 import { storage } from "./storage";
+import { setupRealtime, publishToTeam } from "./realtime";
+import { eventBus } from "./events";
+import { verifyPassword, isPasswordHashed } from "./auth";
+import { bootstrapAdminFromEnv } from "./bootstrap";
+import {
+  createSessionMiddleware,
+  trackSession,
+  getActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+  describeDevice
+} from "./sessions";
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpAuthUrl,
+  generateRecoveryCodes,
+  hashRecoveryCode
+} from "./totp";
+import { createSignedToken, verifySignedToken } from "./tokens";
+import { generateApiToken, getBearerToken, authenticateApiToken } from "./api-tokens";
+import { sendPasswordResetEmail, sendVerificationEmail } from "./mail";
+import { can, isSystemAdmin, type Action, type Resource } from "./permissions";
+import { TEAM_ROLES } from "@shared/permissions";
+import { recordAudit, auditEventsToCsv } from "./audit";
+import { recordTaskChanges } from "./task-history";
+import { getOpenBlockers, wouldCreateCycle } from "./task-dependencies";
+import { countTasksInStatus, getProjectWorkflow, getStatusesInUse, isTaskDone } from "./workflow";
+import {
+  findStatus,
+  getEntryCriteriaError,
+  getInitialStatus,
+  getTransitionError,
+  getWorkflow,
+  isDoneStatus,
+  isOverWipLimit
+} from "@shared/workflow";
+import {
+  startRecurrence,
+  handleOccurrenceCompleted,
+  updateFutureOccurrences,
+  deleteFutureOccurrences,
+  isUniqueViolation,
+  startRecurrenceScheduler
+} from "./recurrence";
+import { parseRecurrenceRule, formatRecurrenceRule } from "@shared/recurrence";
+import { startTimer, stopTimeEntry, timeEntriesToCsv } from "./time-tracking";
+import { summarizeTimeEntries } from "@shared/time-tracking";
+import { closeSprint, getSprintAssignmentError, getSprintTasks } from "./sprints";
+import { getProjectFlow, startFlowSnapshotScheduler } from "./flow";
+import { getCycleTimeReport } from "./cycle-time";
+import {
+  notifyTaskAssigned,
+  notifyTaskComment,
+  notifyFileUploaded,
+  notifyTeamInvitation
+} from "./notifications";
 import { 
   insertUserSchema, 
   insertTeamSchema, 
-  insertTeamMemberSchema, 
+  insertTeamInvitationSchema,
   insertProjectSchema, 
   insertTaskSchema,
+  insertChecklistItemSchema,
+  insertTaskDependencySchema,
+  insertTimeEntrySchema,
+  insertSprintSchema,
   insertCommentSchema,
   insertFileSchema,
-  insertMessageSchema
+  insertMessageSchema,
+  workflowSchema,
+  type TeamInvitation,
+  type TwoFactorAuth,
+  type User,
+  type ApiToken,
+  type Project,
+  type Task,
+  type TimeEntry,
+  type WorkflowStatus
 } from "@shared/schema";
 import { z } from "zod";
-import MemoryStore from "memorystore";
+import { differenceInCalendarDays, parseISO, subDays } from "date-fns";
 import dotenv from 'dotenv';
 dotenv.config();
 
-// Extend the Express session to include userId
-declare module 'express-session' {
-  interface SessionData {
-    userId: number;
-  }
-}
-
-const SessionStore = MemoryStore(session);
-
 // Helper function to convert date strings to actual Date objects
 const convertDatesToObjects = (body: any) => {
   const newBody = { ...body };
@@ -66,64 +126,448 @@ const validateBody = <T>(schema: z.ZodType<T>) => {
   };
 };
 
+// Team invitations stay valid for a week
+const INVITATION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+const isInvitationExpired = (invitation: TeamInvitation) => {
+  return !!invitation.expiresAt && new Date(invitation.expiresAt).getTime() < Date.now();
+};
+
+// Password reset links are valid for an hour, email verification links for 3 days
+const PASSWORD_RESET_TTL = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL = 3 * 24 * 60 * 60 * 1000;
+
+// Tokens are signed together with the state they change, so a reset link stops
+// working once the password changes and a verification link once it is used
+const passwordResetFingerprint = async (userId: number) => {
+  const user = await storage.getUser(userId);
+  return user?.password;
+};
+
+const emailVerificationFingerprint = async (userId: number) => {
+  const user = await storage.getUser(userId);
+  if (!user || user.emailVerifiedAt) return undefined;
+  return user.email;
+};
+
+// Base URL for links in emails. It must be configured rather than taken from
+// the request's Host header, which the client controls and could point a
+// reset link at another site. Until it is, the routes that send such links
+// answer with a 503.
+const APP_URL = process.env.APP_URL?.replace(/\/+$/, "");
+const APP_URL_MISSING = "Email links are unavailable because APP_URL is not configured";
+
+const sendEmailVerification = async (user: User) => {
+  if (!APP_URL) throw new Error(APP_URL_MISSING);
+  const token = createSignedToken("email-verification", user.id, EMAIL_VERIFICATION_TTL, user.email);
+  await sendVerificationEmail(user, `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`);
+};
+
+// Scopes and optional expiry date for a new personal API token
+const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scope: z.enum(["read", "write"]).default("read"),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+// The hash is never sent back to the client
+const toPublicApiToken = (token: ApiToken) => {
+  const { tokenHash, ...publicToken } = token;
+  return publicToken;
+};
+
+// Filters of the admin audit log viewer, from the query string
+const auditEventQuerySchema = z.object({
+  actorId: z.coerce.number().int().optional(),
+  entityType: z.string().trim().min(1).optional(),
+  entityId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Day range of the project analytics charts, from the query string; the
+// last 30 days by default. Days are yyyy-MM-dd, like the flow snapshots.
+const analyticsDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date like 2025-01-31");
+
+const analyticsRangeSchema = z.object({
+  from: analyticsDaySchema.optional(),
+  to: analyticsDaySchema.optional(),
+});
+
+const ANALYTICS_DEFAULT_DAYS = 30;
+const ANALYTICS_MAX_DAYS = 366;
+
+// The day range of an analytics request. Sends a 400 and returns null if it
+// isn't valid.
+const getAnalyticsRange = (req: Request, res: Response) => {
+  const query = analyticsRangeSchema.safeParse(req.query);
+  if (!query.success) {
+    res.status(400).json({ message: "Invalid date range", errors: query.error.errors });
+    return null;
+  }
+  const to = query.data.to ? parseISO(query.data.to) : new Date();
+  const from = query.data.from ? parseISO(query.data.from) : subDays(to, ANALYTICS_DEFAULT_DAYS - 1);
+  
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    res.status(400).json({ message: "Invalid date range" });
+    return null;
+  }
+  if (from > to) {
+    res.status(400).json({ message: "The range must start before it ends" });
+    return null;
+  }
+  if (differenceInCalendarDays(to, from) >= ANALYTICS_MAX_DAYS) {
+    res.status(400).json({ message: `The range can be at most ${ANALYTICS_MAX_DAYS} days` });
+    return null;
+  }
+  return { from, to };
+};
+
+const AUDIT_EVENTS_PAGE_LIMIT = 500;
+const AUDIT_EVENTS_EXPORT_LIMIT = 50000;
+
+// Why a task can't become a subtask of `parentTaskId`, or null if it can.
+// Subtasks live in their parent's project and a task can't end up as its own
+// ancestor. `taskId` is undefined for a task that is being created.
+const getParentTaskError = async (taskId: number | undefined, projectId: number, parentTaskId: number) => {
+  const parent = await storage.getTask(parentTaskId);
+  if (!parent) return "Parent task not found";
+  if (parent.projectId !== projectId) return "A subtask must be in the same project as its parent";
+  
+  const seen = new Set<number>();
+  let ancestor: Task | undefined = parent;
+  while (ancestor && !seen.has(ancestor.id)) {
+    if (ancestor.id === taskId) return "A task can't be a subtask of itself or of its own subtasks";
+    seen.add(ancestor.id);
+    ancestor = ancestor.parentTaskId ? await storage.getTask(ancestor.parentTaskId) : undefined;
+  }
+  return null;
+};
+
+// A task planned on the timeline can't be due before it starts
+const getTaskDatesError = (startDate: Date | null | undefined, dueDate: Date | null | undefined) =>
+  startDate && dueDate && startDate > dueDate ? "A task can't start after its due date" : null;
+
+// A task can't move to a done status while some of its blockers are still
+// open. Sends a 409 listing them and returns true in that case.
+const rejectBlockedCompletion = async (res: Response, task: Task, status: string | undefined, workflow: WorkflowStatus[]) => {
+  if (status === undefined || !isDoneStatus(workflow, status) || isDoneStatus(workflow, task.status)) return false;
+  
+  const openBlockers = await getOpenBlockers(task.id);
+  if (openBlockers.length === 0) return false;
+  
+  res.status(409).json({
+    message: `This task is blocked by ${openBlockers.map(blocker => `"${blocker.title}"`).join(", ")}`,
+    blockers: openBlockers.map(({ id, title, status }) => ({ id, title, status })),
+  });
+  return true;
+};
+
+// A task entering a status has to meet the status's entry criteria and, if
+// its WIP limit is hard, fit under the limit. Sends a 400 or 409 and returns
+// true when it can't enter. `task.id` is undefined for a task being created.
+const rejectStatusEntry = async (
+  res: Response,
+  task: { id?: number; projectId: number; assigneeId: number | null; estimate: number | null },
+  status: string,
+  workflow: WorkflowStatus[]
+) => {
+  const target = findStatus(workflow, status);
+  if (!target) return false;
+  
+  const criteriaError = getEntryCriteriaError(target, task);
+  if (criteriaError) {
+    res.status(400).json({ message: criteriaError });
+    return true;
+  }
+  
+  if (target.hardLimit && target.wipLimit !== null) {
+    const count = await countTasksInStatus(task.projectId, status, task.id);
+    if (isOverWipLimit(target, count + 1)) {
+      res.status(409).json({ message: `"${target.label}" already holds its limit of ${target.wipLimit} tasks` });
+      return true;
+    }
+  }
+  return false;
+};
+
+// Moving a task on the board. Dropping it into another swimlane also changes
+// the field the lanes are grouped by.
+const laneChangesSchema = insertTaskSchema.pick({
+  assigneeId: true,
+  priority: true,
+  tags: true,
+  parentTaskId: true,
+}).partial();
+
+type LaneChanges = z.infer<typeof laneChangesSchema>;
+
+// `order` is the task's position in the column it moves to
+const moveTaskSchema = laneChangesSchema.extend({
+  status: z.string().min(1),
+  order: z.number().int().min(0),
+});
+
+// The task goes in front of `beforeTaskId`, or to the end of the column when
+// that is null. Positions relative to a neighbour stay right on boards that
+// only show some of the column's tasks, like a sprint or a swimlane.
+const reorderTaskSchema = laneChangesSchema.extend({
+  taskId: z.number().int(),
+  status: z.string().min(1),
+  beforeTaskId: z.number().int().nullable().default(null),
+});
+
+// Moves a task to a place on the board after checking the project's
+// workflow, and sends the response either way
+const moveTaskOnBoard = async (
+  req: Request,
+  res: Response,
+  task: Task,
+  project: Project,
+  { status, beforeTaskId, ...laneChanges }: LaneChanges & { status: string; beforeTaskId: number | null }
+) => {
+  const workflow = getWorkflow(project);
+  const statusError = getTransitionError(workflow, task.status, status);
+  if (statusError) {
+    return res.status(400).json({ message: statusError });
+  }
+  
+  if (beforeTaskId !== null) {
+    const before = await storage.getTask(beforeTaskId);
+    if (!before || before.projectId !== task.projectId || before.status !== status) {
+      return res.status(400).json({ message: "Tasks can only be placed next to a task in the same column" });
+    }
+  }
+  
+  if (laneChanges.parentTaskId != null && laneChanges.parentTaskId !== task.parentTaskId) {
+    const parentError = await getParentTaskError(task.id, task.projectId, laneChanges.parentTaskId);
+    if (parentError) {
+      return res.status(400).json({ message: parentError });
+    }
+  }
+  
+  if (status !== task.status && (await rejectStatusEntry(res, { ...task, ...laneChanges }, status, workflow))) return;
+  if (await rejectBlockedCompletion(res, task, status, workflow)) return;
+  
+  const move = await storage.moveTask(task.id, { ...laneChanges, status }, beforeTaskId);
+  if (!move) {
+    return res.status(404).json({ message: "Task not found" });
+  }
+  
+  const updatedTask = move.task;
+  await recordAudit(req, { action: "update", entityType: "task", entityId: task.id, before: task, after: updatedTask });
+  await recordTaskChanges(req, task, updatedTask);
+  eventBus.publishTaskEvent({ type: "task.moved", projectId: updatedTask.projectId, task: updatedTask });
+  eventBus.publishTaskEvent({ type: "tasks.reordered", projectId: updatedTask.projectId, status, taskIds: move.column });
+  await handleOccurrenceCompleted(req, task, updatedTask);
+  
+  if (updatedTask.assigneeId !== task.assigneeId) {
+    const currentUser = await storage.getUser(req.session.userId!);
+    if (currentUser) {
+      await notifyTaskAssigned(updatedTask, currentUser);
+    }
+  }
+  
+  res.status(200).json(updatedTask);
+};
+
+// Invitations grant one of the team roles the permission policy knows
+const createInvitationSchema = insertTeamInvitationSchema.pick({ userId: true }).extend({
+  role: z.enum(TEAM_ROLES).default("member"),
+});
+
+// A project's workflow replaces the previous one as a whole
+const updateWorkflowSchema = z.object({
+  statuses: workflowSchema,
+});
+
+// Recurrence rules are stored in a normalized form
+const recurrenceRuleSchema = z.string().trim().transform((rule, ctx) => {
+  try {
+    return formatRecurrenceRule(parseRecurrenceRule(rule));
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : "Invalid recurrence rule" });
+    return z.NEVER;
+  }
+});
+
+// Occurrences are linked to their series by the server only
+const createTaskSchema = insertTaskSchema.omit({ recurrenceId: true }).extend({
+  recurrenceRule: recurrenceRuleSchema.optional(),
+});
+
+// Edits of a recurring task apply to that one occurrence unless `scope` is
+// "series", which also updates the later occurrences. The schedule itself
+// can only change for the whole series; a null rule stops it.
+const taskRecurrenceUpdateSchema = z.object({
+  scope: z.enum(["occurrence", "series"]).default("occurrence"),
+  recurrenceRule: recurrenceRuleSchema.nullable().optional(),
+});
+
+// The fields a task edit can change. Its position in a column goes through
+// the move and reorder routes, and the series link can't be set directly.
+const updateTaskSchema = insertTaskSchema
+  .omit({ order: true, recurrenceId: true })
+  .partial()
+  .merge(taskRecurrenceUpdateSchema);
+
+const createTaskDependencySchema = insertTaskDependencySchema.pick({
+  blockerTaskId: true,
+  blockedTaskId: true,
+});
+
+// Filters of logged time, from the query string. Without a task or project
+// only the user's own time is listed.
+const timeEntryQuerySchema = z.object({
+  taskId: z.coerce.number().int().optional(),
+  projectId: z.coerce.number().int().optional(),
+  userId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Manually logged time needs an end or a duration; the other one is derived
+const createTimeEntrySchema = insertTimeEntrySchema.pick({ taskId: true }).extend({
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date().optional(),
+  duration: z.number().int().positive().optional(),
+  note: z.string().trim().max(1000).nullable().optional(),
+}).refine(entry => entry.endedAt !== undefined || entry.duration !== undefined, {
+  message: "Either an end time or a duration is required",
+});
+
+const updateTimeEntrySchema = z.object({
+  startedAt: z.coerce.date().optional(),
+  endedAt: z.coerce.date().optional(),
+  duration: z.number().int().positive().optional(),
+  note: z.string().trim().max(1000).nullable().optional(),
+});
+
+// Fills in the end or the duration of a finished entry from the other one.
+// Returns null when the entry would end before it starts.
+const completeTimeEntryTimes = (startedAt: Date, endedAt: Date | undefined, duration: number | undefined) => {
+  if (duration !== undefined) {
+    return { startedAt, endedAt: new Date(startedAt.getTime() + duration * 1000), duration };
+  }
+  const seconds = Math.round((endedAt!.getTime() - startedAt.getTime()) / 1000);
+  return seconds > 0 ? { startedAt, endedAt: endedAt!, duration: seconds } : null;
+};
+
+// Checklist items belong to the task in the URL; new items go to the end of
+// the list unless an order is given
+const createChecklistItemSchema = insertChecklistItemSchema.pick({ order: true }).extend({
+  text: z.string().trim().min(1, "Text is required").max(500),
+});
+
+const updateChecklistItemSchema = createChecklistItemSchema.extend({
+  done: z.boolean(),
+}).partial();
+
+// Sprints are created in the project in the URL and always start out planned
+const sprintFieldsSchema = insertSprintSchema.pick({ name: true, goal: true }).extend({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+});
+
+const sprintDatesError = { message: "A sprint can't end before it starts", path: ["endDate"] };
+
+const createSprintSchema = sprintFieldsSchema.refine(sprint => sprint.endDate >= sprint.startDate, sprintDatesError);
+
+const updateSprintSchema = sprintFieldsSchema.partial();
+
+// Unfinished tasks of a closed sprint go to another sprint or, by default,
+// to the backlog
+const closeSprintSchema = z.object({
+  moveToSprintId: z.number().int().nullable().default(null),
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Set up session middleware
-  app.use(
-    session({
-      secret: process.env.SESSION_SECRET || "teamflow-secret",
-      resave: false,
-      saveUninitialized: false,
-      cookie: { secure: process.env.NODE_ENV === "production", maxAge: 24 * 60 * 60 * 1000 },
-      store: new SessionStore({ checkPeriod: 86400000 }),
-    })
-  );
-  
-  // Authentication middleware
-  const requireAuth = (req: Request, res: Response, next: () => void) => {
+  // Set up session middleware (shared with the WebSocket server)
+  const sessionMiddleware = createSessionMiddleware();
+  // Requests with an API token skip the session, so scripts don't leave a new
+  // stored session behind on every call
+  app.use((req, res, next) => {
+    if (getBearerToken(req)) return next();
+    sessionMiddleware(req, res, next);
+  });
+  app.use(trackSession);
+  
+  // Authentication middleware - accepts a login session or an
+  // `Authorization: Bearer <token>` personal API token
+  const requireAuth = async (req: Request, res: Response, next: () => void) => {
+    const bearer = getBearerToken(req);
+    if (bearer) {
+      try {
+        const result = await authenticateApiToken(req, bearer);
+        if ("status" in result) {
+          return res.status(result.status).json({ message: result.message });
+        }
+        
+        // Routes read the user from the session, so token requests get a stand-in
+        req.apiToken = result.token;
+        req.session = { userId: result.token.userId } as Request["session"];
+        return next();
+      } catch (error) {
+        return res.status(500).json({ message: "Failed to authenticate" });
+      }
+    }
+    
     if (!req.session.userId) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     next();
   };
   
+  // Account security settings (password, 2FA, sessions, API tokens) can only
+  // be changed from a logged-in browser session, never with an API token
+  const requireSession = (req: Request, res: Response, next: () => void) => {
+    if (getBearerToken(req)) {
+      return res.status(403).json({ message: "This action is not available with an API token" });
+    }
+    return requireAuth(req, res, next);
+  };
+  
+  // Checks the logged-in user's team role against the permission policy
+  const userCan = (req: Request, action: Action, resource: Resource) =>
+    can({ id: req.session.userId! }, action, resource);
+  
+  // Create the first admin account if ADMIN_* variables are configured
+  await bootstrapAdminFromEnv();
+  
+  // Create new occurrences of recurring tasks as they fall due
+  startRecurrenceScheduler();
+  
+  // Record the daily status totals behind the project flow charts
+  startFlowSnapshotScheduler();
+  
   // Authentication routes
   // User registration is only allowed by admin, no public registration endpoint
   
   app.post("/api/auth/login", async (req, res) => {
     try {
       const { username, password } = req.body;
-      
-      // Hard-coded admin account
-      if (username === "admin" && password === "pass123") {
-        // Check if admin user exists in database
-        let adminUser = await storage.getUserByUsername("admin");
-        
-        // If admin doesn't exist, create it
-        if (!adminUser) {
-          adminUser = await storage.createUser({
-            username: "admin",
-            password: "pass123",
-            email: "admin@teamflow.com",
-            fullName: "Administrator",
-            role: "admin"
-          });
-        }
-        
-        // Set session
-        req.session.userId = adminUser.id;
-        
-        // Don't return password
-        const { password: _, ...userWithoutPassword } = adminUser;
-        
-        return res.status(200).json(userWithoutPassword);
+      if (typeof username !== "string" || typeof password !== "string") {
+        return res.status(400).json({ message: "Username and password are required" });
       }
       
-      // For normal users, only let them log in if they exist
       const user = await storage.getUserByUsername(username);
-      if (!user || user.password !== password) {
+      if (!user || !(await verifyPassword(password, user.password))) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
+      // Upgrade legacy plaintext passwords to a hash on successful login
+      if (!isPasswordHashed(user.password)) {
+        await storage.updateUser(user.id, { password });
+      }
+      
+      // Accounts with 2FA only get a session after the second step
+      const twoFactor = await storage.getTwoFactorAuth(user.id);
+      if (twoFactor?.enabled) {
+        req.session.pendingTwoFactorUserId = user.id;
+        req.session.twoFactorAttempts = 0;
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      
       // Set session
       req.session.userId = user.id;
       
@@ -136,13 +580,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/auth/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        return res.status(500).json({ message: "Failed to logout" });
+  // Checks a TOTP code or a recovery code against the user's 2FA settings.
+  // Used codes are recorded so they cannot be replayed.
+  const verifySecondFactor = async (
+    twoFactor: TwoFactorAuth,
+    { code, recoveryCode }: { code?: unknown; recoveryCode?: unknown }
+  ): Promise<boolean> => {
+    if (typeof code === "string") {
+      const step = verifyTotp(twoFactor.secret, code);
+      if (step === null || (twoFactor.lastUsedStep !== null && step <= twoFactor.lastUsedStep)) {
+        return false;
+      }
+      await storage.updateTwoFactorAuth(twoFactor.userId, { lastUsedStep: step });
+      return true;
+    }
+    
+    if (typeof recoveryCode === "string") {
+      const hash = hashRecoveryCode(recoveryCode);
+      const remaining = twoFactor.recoveryCodes || [];
+      if (!remaining.includes(hash)) {
+        return false;
+      }
+      await storage.updateTwoFactorAuth(twoFactor.userId, {
+        recoveryCodes: remaining.filter(c => c !== hash)
+      });
+      return true;
+    }
+    
+    return false;
+  };
+  
+  // Second login step for accounts with 2FA enabled
+  const MAX_TWO_FACTOR_ATTEMPTS = 5;
+  app.post("/api/auth/2fa/verify", async (req, res) => {
+    try {
+      const userId = req.session.pendingTwoFactorUserId;
+      if (!userId) {
+        return res.status(401).json({ message: "No login awaiting two-factor verification" });
+      }
+      
+      const user = await storage.getUser(userId);
+      const twoFactor = await storage.getTwoFactorAuth(userId);
+      if (!user || !twoFactor?.enabled) {
+        delete req.session.pendingTwoFactorUserId;
+        return res.status(401).json({ message: "Please log in again" });
+      }
+      
+      if (!(await verifySecondFactor(twoFactor, req.body))) {
+        req.session.twoFactorAttempts = (req.session.twoFactorAttempts || 0) + 1;
+        if (req.session.twoFactorAttempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactorUserId;
+          return res.status(429).json({ message: "Too many invalid codes, please log in again" });
+        }
+        return res.status(401).json({ message: "Invalid authentication code" });
       }
+      
+      delete req.session.pendingTwoFactorUserId;
+      delete req.session.twoFactorAttempts;
+      req.session.userId = user.id;
+      
+      // Don't return password
+      const { password, ...userWithoutPassword } = user;
+      
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify authentication code" });
+    }
+  });
+  
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await revokeSession(req.sessionID);
       res.status(200).json({ message: "Logged out successfully" });
-    });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to logout" });
+    }
   });
   
   app.get("/api/auth/me", requireAuth, async (req, res) => {
@@ -161,522 +673,2053 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // User routes
-  app.get("/api/users", requireAuth, async (req, res) => {
+  // Active sessions of the current user
+  app.get("/api/auth/sessions", requireSession, async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      if (!users) {
-        return res.status(200).json([]);
+      const sessions = await getActiveSessions(req.session.userId!);
+      res.status(200).json(sessions.map(session => ({
+        id: session.id,
+        device: describeDevice(session.userAgent),
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: session.sid === req.sessionID
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get sessions" });
+    }
+  });
+  
+  // Log out everywhere except the current session
+  app.delete("/api/auth/sessions", requireSession, async (req, res) => {
+    try {
+      await revokeUserSessions(req.session.userId!, req.sessionID);
+      await recordAudit(req, { action: "delete", entityType: "session", before: { userId: req.session.userId, scope: "others" } });
+      res.status(200).json({ message: "Logged out of all other sessions" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+  
+  app.delete("/api/auth/sessions/:id", requireSession, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      const session = await storage.getUserSession(sessionId);
+      if (!session || session.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Session not found" });
       }
       
-      // Filter out sensitive information
-      const sanitizedUsers = users.map(user => ({
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        fullName: user.fullName || user.username,
-        avatar: user.avatar,
-        role: user.role || 'member',
-        userType: user.userType || 'normal'
-      }));
-      
-      res.status(200).json(sanitizedUsers);
+      await revokeSession(session.sid);
+      await recordAudit(req, { action: "delete", entityType: "session", entityId: session.id, before: session });
+      res.status(200).json({ message: "Session revoked" });
     } catch (error) {
-      console.error("Error getting users:", error);
-      res.status(500).json({ message: "Failed to get users" });
+      res.status(500).json({ message: "Failed to revoke session" });
     }
   });
   
-  // Admin create user endpoint - only accessible by admin user
-  app.post("/api/users", requireAuth, validateBody(insertUserSchema), async (req, res) => {
+  // Personal API tokens of the current user
+  app.get("/api/auth/tokens", requireSession, async (req, res) => {
     try {
-      // Check if the current user is admin
-      const currentUser = await storage.getUser(req.session.userId!);
-      if (!currentUser || currentUser.role !== "admin") {
-        return res.status(403).json({ message: "Only admins can create new users" });
+      const tokens = await storage.getApiTokensByUser(req.session.userId!);
+      res.status(200).json(tokens.map(toPublicApiToken));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get API tokens" });
+    }
+  });
+  
+  // Create a token - the plain token is only returned in this response
+  app.post("/api/auth/tokens", requireSession, validateBody(createApiTokenSchema), async (req, res) => {
+    try {
+      const { name, scope, expiresAt } = req.body as z.infer<typeof createApiTokenSchema>;
+      if (expiresAt && expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "Expiry date must be in the future" });
       }
       
-      const { username, email } = req.body;
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        userId: req.session.userId!,
+        name,
+        scope,
+        expiresAt: expiresAt ?? null,
+        tokenHash,
+        tokenPrefix
+      });
       
-      // Check if username already exists
-      const existingUserByUsername = await storage.getUserByUsername(username);
-      if (existingUserByUsername) {
-        return res.status(400).json({ message: "Username already taken" });
-      }
+      await recordAudit(req, { action: "create", entityType: "api_token", entityId: apiToken.id, after: apiToken });
       
-      // Check if email already exists
-      const existingUserByEmail = await storage.getUserByEmail(email);
-      if (existingUserByEmail) {
-        return res.status(400).json({ message: "Email already in use" });
+      res.status(201).json({ ...toPublicApiToken(apiToken), token });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+  
+  app.delete("/api/auth/tokens/:id", requireSession, async (req, res) => {
+    try {
+      const tokenId = parseInt(req.params.id);
+      const apiToken = await storage.getApiToken(tokenId);
+      if (!apiToken || apiToken.userId !== req.session.userId) {
+        return res.status(404).json({ message: "API token not found" });
       }
       
-      // Create the user
-      const user = await storage.createUser(req.body);
-      
-      // Don't return password
-      const { password, ...userWithoutPassword } = user;
-      
-      res.status(201).json(userWithoutPassword);
+      await storage.deleteApiToken(tokenId);
+      await recordAudit(req, { action: "delete", entityType: "api_token", entityId: tokenId, before: apiToken });
+      res.status(200).json({ message: "API token revoked" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to create user" });
+      res.status(500).json({ message: "Failed to revoke API token" });
     }
   });
   
-  // Get a specific user
-  app.get("/api/users/:id", requireAuth, async (req, res) => {
+  // Two-factor authentication settings for the current user
+  app.get("/api/auth/2fa", requireSession, async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      const user = await storage.getUser(userId);
-      
+      const twoFactor = await storage.getTwoFactorAuth(req.session.userId!);
+      res.status(200).json({
+        enabled: !!twoFactor?.enabled,
+        recoveryCodesRemaining: twoFactor?.enabled ? (twoFactor.recoveryCodes || []).length : 0
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get two-factor status" });
+    }
+  });
+  
+  // Start enrollment: returns a new secret and the otpauth:// URI for authenticator apps
+  app.post("/api/auth/2fa/setup", requireSession, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Don't return password
-      const { password, ...userWithoutPassword } = user;
+      const existing = await storage.getTwoFactorAuth(user.id);
+      if (existing?.enabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
       
-      res.status(200).json(userWithoutPassword);
+      const secret = generateTotpSecret();
+      await storage.saveTwoFactorSecret({ userId: user.id, secret });
+      
+      res.status(200).json({ secret, otpauthUrl: buildOtpAuthUrl(secret, user.username) });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get user" });
+      res.status(500).json({ message: "Failed to start two-factor setup" });
     }
   });
   
-  // Update user - only admin or the user themselves
-  app.put("/api/users/:id", requireAuth, async (req, res) => {
+  // Finish enrollment by verifying a code; returns the recovery codes once
+  app.post("/api/auth/2fa/enable", requireSession, async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      const currentUser = await storage.getUser(req.session.userId!);
-      
-      // Only admins or the user themselves can update the user
-      if (req.session.userId !== userId && (!currentUser || currentUser.role !== "admin")) {
-        return res.status(403).json({ message: "Not authorized to update this user" });
+      const twoFactor = await storage.getTwoFactorAuth(req.session.userId!);
+      if (!twoFactor) {
+        return res.status(400).json({ message: "Two-factor setup has not been started" });
       }
-      
-      // Don't allow changing role unless admin
-      if (req.body.role && (!currentUser || currentUser.role !== "admin")) {
-        return res.status(403).json({ message: "Not authorized to change role" });
+      if (twoFactor.enabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
       }
       
-      const updatedUser = await storage.updateUser(userId, req.body);
-      
-      if (!updatedUser) {
-        return res.status(404).json({ message: "User not found" });
+      const step = typeof req.body.code === "string" ? verifyTotp(twoFactor.secret, req.body.code) : null;
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid authentication code" });
       }
       
-      // Don't return password
-      const { password, ...userWithoutPassword } = updatedUser;
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateTwoFactorAuth(twoFactor.userId, {
+        enabled: true,
+        enabledAt: new Date(),
+        lastUsedStep: step,
+        recoveryCodes: recoveryCodes.map(hashRecoveryCode)
+      });
       
-      res.status(200).json(userWithoutPassword);
+      await recordAudit(req, {
+        action: "update",
+        entityType: "two_factor_auth",
+        entityId: twoFactor.id,
+        before: { enabled: false },
+        after: { enabled: true }
+      });
+      
+      res.status(200).json({ recoveryCodes });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update user" });
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
     }
   });
   
-  // Delete user - only admin
-  app.delete("/api/users/:id", requireAuth, async (req, res) => {
+  // Replace all recovery codes - requires a current authentication code
+  app.post("/api/auth/2fa/recovery-codes", requireSession, async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      const currentUser = await storage.getUser(req.session.userId!);
-      
-      // Only admins can delete users
-      if (!currentUser || currentUser.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized to delete users" });
+      const twoFactor = await storage.getTwoFactorAuth(req.session.userId!);
+      if (!twoFactor?.enabled) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
       }
       
-      // Don't allow deleting self
-      if (req.session.userId === userId) {
-        return res.status(400).json({ message: "Cannot delete your own account" });
+      if (!(await verifySecondFactor(twoFactor, { code: req.body.code }))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
       }
       
-      const success = await storage.deleteUser(userId);
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateTwoFactorAuth(twoFactor.userId, {
+        recoveryCodes: recoveryCodes.map(hashRecoveryCode)
+      });
       
-      if (!success) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      await recordAudit(req, {
+        action: "update",
+        entityType: "two_factor_auth",
+        entityId: twoFactor.id,
+        before: { recoveryCodes: twoFactor.recoveryCodes },
+        after: { recoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+      });
+      
+      res.status(200).json({ recoveryCodes });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+  
+  // Turn 2FA off - requires the account password
+  app.post("/api/auth/2fa/disable", requireSession, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { password } = req.body;
+      if (typeof password !== "string" || !(await verifyPassword(password, user.password))) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+      
+      const twoFactor = await storage.getTwoFactorAuth(user.id);
+      await storage.deleteTwoFactorAuth(user.id);
+      if (twoFactor) {
+        await recordAudit(req, { action: "delete", entityType: "two_factor_auth", entityId: twoFactor.id, before: twoFactor });
+      }
+      res.status(200).json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+  
+  // Password reset - always answers the same way so it can't be used to probe for accounts
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = req.body;
+      if (typeof email !== "string" || !email.trim()) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+      if (!APP_URL) {
+        return res.status(503).json({ message: APP_URL_MISSING });
+      }
+      
+      const user = await storage.getUserByEmail(email.trim());
+      if (user) {
+        const token = createSignedToken("password-reset", user.id, PASSWORD_RESET_TTL, user.password);
+        sendPasswordResetEmail(user, `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`)
+          .catch(error => console.error("Failed to send password reset email:", error));
+      }
+      
+      res.status(200).json({ message: "If an account exists for that email, a reset link has been sent" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+  
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = req.body;
+      if (typeof token !== "string") {
+        return res.status(400).json({ message: "Reset token is required" });
+      }
+      if (typeof password !== "string" || password.length < 6) {
+        return res.status(400).json({ message: "Password must be at least 6 characters" });
+      }
+      
+      const userId = await verifySignedToken(token, "password-reset", passwordResetFingerprint);
+      const user = userId !== null ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+      
+      // Receiving the link proves the user owns the email address
+      const updatedUser = await storage.updateUser(user.id, {
+        password,
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date()
+      });
+      await recordAudit(req, { action: "update", entityType: "user", entityId: user.id, before: user, after: updatedUser });
+      
+      // Whoever had access before the reset is logged out
+      await revokeUserSessions(user.id);
+      
+      res.status(200).json({ message: "Password has been reset" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+  
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = req.body;
+      const userId = typeof token === "string"
+        ? await verifySignedToken(token, "email-verification", emailVerificationFingerprint)
+        : null;
+      if (userId === null) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+      
+      const user = await storage.getUser(userId);
+      const updatedUser = await storage.updateUser(userId, { emailVerifiedAt: new Date() });
+      await recordAudit(req, { action: "update", entityType: "user", entityId: userId, before: user, after: updatedUser });
+      res.status(200).json({ message: "Email verified" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+  
+  app.post("/api/auth/resend-verification", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Email is already verified" });
+      }
+      if (!APP_URL) {
+        return res.status(503).json({ message: APP_URL_MISSING });
+      }
+      
+      await sendEmailVerification(user);
+      res.status(200).json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Failed to send verification email:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+  
+  // User routes
+  app.get("/api/users", requireAuth, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      if (!users) {
+        return res.status(200).json([]);
+      }
+      
+      // Filter out sensitive information
+      const sanitizedUsers = users.map(user => ({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        fullName: user.fullName || user.username,
+        avatar: user.avatar,
+        role: user.role || 'member',
+        userType: user.userType || 'normal',
+        emailVerifiedAt: user.emailVerifiedAt
+      }));
+      
+      res.status(200).json(sanitizedUsers);
+    } catch (error) {
+      console.error("Error getting users:", error);
+      res.status(500).json({ message: "Failed to get users" });
+    }
+  });
+  
+  // Admin create user endpoint - only accessible by admin user
+  app.post("/api/users", requireAuth, validateBody(insertUserSchema), async (req, res) => {
+    try {
+      // Check if the current user is admin
+      const currentUser = await storage.getUser(req.session.userId!);
+      if (!isSystemAdmin(currentUser)) {
+        return res.status(403).json({ message: "Only admins can create new users" });
+      }
+      
+      const { username, email } = req.body;
+      
+      // Check if username already exists
+      const existingUserByUsername = await storage.getUserByUsername(username);
+      if (existingUserByUsername) {
+        return res.status(400).json({ message: "Username already taken" });
+      }
+      
+      // Check if email already exists
+      const existingUserByEmail = await storage.getUserByEmail(email);
+      if (existingUserByEmail) {
+        return res.status(400).json({ message: "Email already in use" });
+      }
+      
+      // Create the user
+      const user = await storage.createUser(req.body);
+      await recordAudit(req, { action: "create", entityType: "user", entityId: user.id, after: user });
+      
+      // The new account holder confirms their address from the email
+      sendEmailVerification(user)
+        .catch(error => console.error("Failed to send verification email:", error));
+      
+      // Don't return password
+      const { password, ...userWithoutPassword } = user;
+      
+      res.status(201).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+  
+  // Get a specific user
+  app.get("/api/users/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Don't return password
+      const { password, ...userWithoutPassword } = user;
+      
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get user" });
+    }
+  });
+  
+  // Update user - only admin or the user themselves
+  app.put("/api/users/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const currentUser = await storage.getUser(req.session.userId!);
+      
+      // Only admins or the user themselves can update the user
+      if (req.session.userId !== userId && !isSystemAdmin(currentUser)) {
+        return res.status(403).json({ message: "Not authorized to update this user" });
+      }
+      
+      // Don't allow changing role unless admin
+      if (req.body.role && !isSystemAdmin(currentUser)) {
+        return res.status(403).json({ message: "Not authorized to change role" });
+      }
+      
+      // Verification state is only changed by the verification flow
+      const { emailVerifiedAt, password: newPassword, ...updates } = req.body;
+      
+      // People change their own password through /password, which asks for
+      // the current one; only an admin can set someone else's here
+      const isAdminReset = newPassword !== undefined && req.session.userId !== userId && isSystemAdmin(currentUser);
+      if (newPassword !== undefined && !isAdminReset) {
+        return res.status(400).json({ message: "Change your password with the current password instead" });
+      }
+      if (isAdminReset) {
+        if (typeof newPassword !== "string" || newPassword.length < 6) {
+          return res.status(400).json({ message: "New password must be at least 6 characters" });
+        }
+        updates.password = newPassword;
+      }
+      
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const emailChanged = typeof updates.email === "string" && updates.email !== existingUser.email;
+      
+      // The email address is where reset links go, so like the password it
+      // only changes from a browser session
+      if (req.apiToken && (newPassword !== undefined || emailChanged)) {
+        return res.status(403).json({ message: "This action is not available with an API token" });
+      }
+      
+      // A new email address has to be verified again
+      if (emailChanged) {
+        updates.emailVerifiedAt = null;
+      }
+      
+      const updatedUser = await storage.updateUser(userId, updates);
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await recordAudit(req, { action: "update", entityType: "user", entityId: userId, before: existingUser, after: updatedUser });
+      
+      // Sessions opened with the old password don't outlive a reset
+      if (isAdminReset) {
+        await revokeUserSessions(userId);
+      }
+      
+      if (emailChanged) {
+        sendEmailVerification(updatedUser)
+          .catch(error => console.error("Failed to send verification email:", error));
+      }
+      
+      // Don't return password
+      const { password, ...userWithoutPassword } = updatedUser;
+      
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+  
+  // Change own password - requires the current password
+  app.put("/api/users/:id/password", requireSession, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (req.session.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to change this password" });
+      }
+      
+      const { currentPassword, newPassword } = req.body;
+      if (typeof newPassword !== "string" || newPassword.length < 6) {
+        return res.status(400).json({ message: "New password must be at least 6 characters" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (typeof currentPassword !== "string" || !(await verifyPassword(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+      
+      const updatedUser = await storage.updateUser(userId, { password: newPassword });
+      await recordAudit(req, { action: "update", entityType: "user", entityId: userId, before: user, after: updatedUser });
+      
+      // Keep this session but log out all others
+      await revokeUserSessions(userId, req.sessionID);
+      
+      res.status(200).json({ message: "Password changed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+  
+  // Reset a user's 2FA (e.g. lost device and recovery codes) - only admin
+  app.post("/api/users/:id/2fa/reset", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const currentUser = await storage.getUser(req.session.userId!);
+      
+      if (!isSystemAdmin(currentUser)) {
+        return res.status(403).json({ message: "Not authorized to reset two-factor authentication" });
+      }
+      
+      const twoFactor = await storage.getTwoFactorAuth(userId);
+      const success = await storage.deleteTwoFactorAuth(userId);
+      if (!success) {
+        return res.status(404).json({ message: "Two-factor authentication is not set up for this user" });
+      }
+      
+      await recordAudit(req, { action: "delete", entityType: "two_factor_auth", entityId: twoFactor?.id, before: twoFactor });
+      
+      res.status(200).json({ message: "Two-factor authentication reset successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+  
+  // Delete user - only admin
+  app.delete("/api/users/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const currentUser = await storage.getUser(req.session.userId!);
+      
+      // Only admins can delete users
+      if (!isSystemAdmin(currentUser)) {
+        return res.status(403).json({ message: "Not authorized to delete users" });
+      }
+      
+      // Don't allow deleting self
+      if (req.session.userId === userId) {
+        return res.status(400).json({ message: "Cannot delete your own account" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await revokeUserSessions(userId);
+      const success = await storage.deleteUser(userId);
+      
+      if (!success) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await recordAudit(req, { action: "delete", entityType: "user", entityId: userId, before: user });
+      
+      res.status(200).json({ message: "User deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+  
+  // Audit log routes - only admin
+  const getAuditEventsForRequest = async (req: Request, res: Response, limit: number) => {
+    const currentUser = await storage.getUser(req.session.userId!);
+    if (!isSystemAdmin(currentUser)) {
+      res.status(403).json({ message: "Not authorized to view the audit log" });
+      return null;
+    }
+    
+    const filter = auditEventQuerySchema.safeParse(req.query);
+    if (!filter.success) {
+      res.status(400).json({ message: "Invalid audit log filter", errors: filter.error.errors });
+      return null;
+    }
+    
+    return storage.getAuditEvents({ ...filter.data, limit });
+  };
+  
+  app.get("/api/audit-events", requireAuth, async (req, res) => {
+    try {
+      const events = await getAuditEventsForRequest(req, res, AUDIT_EVENTS_PAGE_LIMIT);
+      if (!events) return;
+      
+      res.status(200).json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get audit events" });
+    }
+  });
+  
+  app.get("/api/audit-events/export", requireAuth, async (req, res) => {
+    try {
+      const events = await getAuditEventsForRequest(req, res, AUDIT_EVENTS_EXPORT_LIMIT);
+      if (!events) return;
+      
+      const users = await storage.getAllUsers();
+      const actors = new Map(users.map(user => [user.id, user]));
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.status(200).send(auditEventsToCsv(events, actors));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export audit events" });
+    }
+  });
+  
+  // Team routes
+  app.get("/api/teams", requireAuth, async (req, res) => {
+    try {
+      const teams = await storage.getTeamsByUser(req.session.userId!);
+      res.status(200).json(teams || []);
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      const errorMessage = error instanceof Error ? error.message : "Failed to get teams";
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+  
+  app.post("/api/teams", requireAuth, validateBody(insertTeamSchema), async (req, res) => {
+    try {
+      // Get current user role
+      const currentUser = await storage.getUser(req.session.userId!);
+      if (!currentUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Only admin users can create teams
+      if (!isSystemAdmin(currentUser)) {
+        return res.status(403).json({ message: "Only admin users can create teams" });
+      }
+      
+      const team = await storage.createTeam({
+        ...req.body,
+        createdBy: req.session.userId!,
+      });
+      
+      // Add the creator as an admin of the team
+      const membership = await storage.addTeamMember({
+        teamId: team.id,
+        userId: req.session.userId!,
+        role: "admin"
+      });
+      
+      await recordAudit(req, { action: "create", entityType: "team", entityId: team.id, after: team });
+      await recordAudit(req, { action: "create", entityType: "team_member", entityId: membership.id, after: membership });
+      
+      res.status(201).json(team);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+  
+  app.get("/api/teams/:id", requireAuth, async (req, res) => {
+    try {
+      const team = await storage.getTeam(parseInt(req.params.id));
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!(await userCan(req, "team:view", { teamId: team.id }))) {
+        return res.status(403).json({ message: "Not authorized to view team" });
+      }
+      
+      res.status(200).json(team);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get team one" });
+    }
+  });
+  
+  app.put("/api/teams/:id", requireAuth, async (req, res) => {
+    try {
+      const team = await storage.getTeam(parseInt(req.params.id));
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!(await userCan(req, "team:update", { teamId: team.id }))) {
+        return res.status(403).json({ message: "Not authorized to update team" });
+      }
+      
+      const updatedTeam = await storage.updateTeam(team.id, req.body);
+      await recordAudit(req, { action: "update", entityType: "team", entityId: team.id, before: team, after: updatedTeam });
+      
+      res.status(200).json(updatedTeam);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update team" });
+    }
+  });
+  
+  app.delete("/api/teams/:id", requireAuth, async (req, res) => {
+    try {
+      const team = await storage.getTeam(parseInt(req.params.id));
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!(await userCan(req, "team:delete", { teamId: team.id }))) {
+        return res.status(403).json({ message: "Not authorized to delete team" });
+      }
+      
+      await storage.deleteTeam(team.id);
+      await recordAudit(req, { action: "delete", entityType: "team", entityId: team.id, before: team });
+      
+      res.status(200).json({ message: "Team deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete team" });
+    }
+  });
+  
+  // Team Members routes
+  app.get("/api/teams/:id/members", requireAuth, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      
+      // Check if team exists
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!(await userCan(req, "team:view", { teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view team members" });
+      }
+      
+      const teamMembers = await storage.getTeamMembers(teamId);
+      
+      // Remove password from user objects
+      const membersWithoutPassword = teamMembers.map(member => {
+        const { password, ...userWithoutPassword } = member.user;
+        return { ...member, user: userWithoutPassword };
+      });
+      
+      res.status(200).json(membersWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get team members" });
+    }
+  });
+  
+  // Get current user's role in team
+  app.get("/api/teams/:id/members/current", requireAuth, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const userId = req.session.userId!;
+      
+      // Check if team exists
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      // Find the team member entry for this user
+      const teamMembers = await storage.getTeamMembers(teamId);
+      const currentMember = teamMembers.find(member => member.userId === userId);
+      
+      if (!currentMember) {
+        return res.status(404).json({ message: "User is not a member of this team" });
+      }
+      
+      // Don't return password
+      const { password, ...userWithoutPassword } = currentMember.user;
+      
+      res.status(200).json({ ...currentMember, user: userWithoutPassword });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get user role" });
+    }
+  });
+  
+  // Team Invitation routes
+  // Members are only added to a team when they accept an invitation
+  app.get("/api/teams/:id/invitations", requireAuth, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      
+      // Check if team exists
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!(await userCan(req, "team:invite", { teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view team invitations" });
+      }
+      
+      const invitations = await storage.getTeamInvitationsByTeam(teamId);
+      
+      // Only pending invitations, without passwords
+      const pendingInvitations = invitations
+        .filter(invitation => invitation.status === "pending")
+        .map(({ user, ...invitation }) => {
+          const { password, ...userWithoutPassword } = user;
+          return { ...invitation, user: userWithoutPassword };
+        });
+      
+      res.status(200).json(pendingInvitations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get team invitations" });
+    }
+  });
+  
+  app.post("/api/teams/:id/invitations", requireAuth, validateBody(createInvitationSchema), async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const { userId, role } = req.body;
+      
+      // Check if team exists
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!(await userCan(req, "team:invite", { teamId }))) {
+        return res.status(403).json({ message: "Not authorized to invite team members" });
+      }
+      
+      // Check if the invited user exists
+      const invitedUser = await storage.getUser(userId);
+      if (!invitedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const teamMembers = await storage.getTeamMembers(teamId);
+      const currentUserMembership = teamMembers.find(member => member.userId === req.session.userId!)!;
+      
+      if (teamMembers.some(member => member.userId === userId)) {
+        return res.status(400).json({ message: "User is already a team member" });
+      }
+      
+      // Only one open invitation per user and team
+      const existingInvitations = await storage.getTeamInvitationsByTeam(teamId);
+      for (const invitation of existingInvitations) {
+        if (invitation.userId !== userId || invitation.status !== "pending") continue;
+        
+        if (!isInvitationExpired(invitation)) {
+          return res.status(400).json({ message: "User already has a pending invitation" });
+        }
+        await storage.updateTeamInvitationStatus(invitation.id, "expired");
+      }
+      
+      const invitation = await storage.createTeamInvitation({
+        teamId,
+        userId,
+        role,
+        invitedBy: req.session.userId!,
+        status: "pending",
+        expiresAt: new Date(Date.now() + INVITATION_TTL),
+      });
+      await recordAudit(req, { action: "create", entityType: "team_invitation", entityId: invitation.id, after: invitation });
+      
+      await notifyTeamInvitation(team, userId, currentUserMembership.user);
+      
+      res.status(201).json(invitation);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to invite team member" });
+    }
+  });
+  
+  // Pending invitations for the current user
+  app.get("/api/invitations", requireAuth, async (req, res) => {
+    try {
+      const invitations = await storage.getTeamInvitationsByUser(req.session.userId!);
+      
+      const pendingInvitations = invitations
+        .filter(invitation => invitation.status === "pending" && !isInvitationExpired(invitation))
+        .map(({ inviter, ...invitation }) => {
+          const { password, ...inviterWithoutPassword } = inviter;
+          return { ...invitation, inviter: inviterWithoutPassword };
+        });
+      
+      res.status(200).json(pendingInvitations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get invitations" });
+    }
+  });
+  
+  app.post("/api/invitations/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const invitation = await storage.getTeamInvitation(parseInt(req.params.id));
+      
+      // Only the invited user can respond to an invitation
+      if (!invitation || invitation.userId !== req.session.userId!) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      if (invitation.status !== "pending") {
+        return res.status(400).json({ message: "Invitation is no longer pending" });
+      }
+      
+      if (isInvitationExpired(invitation)) {
+        await storage.updateTeamInvitationStatus(invitation.id, "expired");
+        return res.status(410).json({ message: "Invitation has expired" });
+      }
+      
+      // Check if team still exists
+      const team = await storage.getTeam(invitation.teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      // Only create the membership if the user hasn't joined in the meantime
+      const teamMembers = await storage.getTeamMembers(team.id);
+      if (!teamMembers.some(member => member.userId === invitation.userId)) {
+        const membership = await storage.addTeamMember({
+          teamId: team.id,
+          userId: invitation.userId,
+          role: invitation.role,
+        });
+        await recordAudit(req, { action: "create", entityType: "team_member", entityId: membership.id, after: membership });
+      }
+      
+      const updatedInvitation = await storage.updateTeamInvitationStatus(invitation.id, "accepted");
+      await recordAudit(req, { action: "update", entityType: "team_invitation", entityId: invitation.id, before: invitation, after: updatedInvitation });
+      
+      res.status(200).json(updatedInvitation);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+  
+  app.post("/api/invitations/:id/reject", requireAuth, async (req, res) => {
+    try {
+      const invitation = await storage.getTeamInvitation(parseInt(req.params.id));
+      
+      // Only the invited user can respond to an invitation
+      if (!invitation || invitation.userId !== req.session.userId!) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      if (invitation.status !== "pending") {
+        return res.status(400).json({ message: "Invitation is no longer pending" });
+      }
+      
+      const updatedInvitation = await storage.updateTeamInvitationStatus(invitation.id, "rejected");
+      await recordAudit(req, { action: "update", entityType: "team_invitation", entityId: invitation.id, before: invitation, after: updatedInvitation });
+      
+      res.status(200).json(updatedInvitation);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reject invitation" });
+    }
+  });
+  
+  app.post("/api/invitations/:id/revoke", requireAuth, async (req, res) => {
+    try {
+      const invitation = await storage.getTeamInvitation(parseInt(req.params.id));
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      if (!(await userCan(req, "team:invite", { teamId: invitation.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to revoke invitation" });
+      }
+      
+      if (invitation.status !== "pending") {
+        return res.status(400).json({ message: "Invitation is no longer pending" });
+      }
+      
+      const updatedInvitation = await storage.updateTeamInvitationStatus(invitation.id, "revoked");
+      await recordAudit(req, { action: "update", entityType: "team_invitation", entityId: invitation.id, before: invitation, after: updatedInvitation });
+      
+      res.status(200).json(updatedInvitation);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+  
+  app.delete("/api/teams/:teamId/members/:userId", requireAuth, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.teamId);
+      const userId = parseInt(req.params.userId);
+      
+      // Check if team exists
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      // Admins can remove anyone, other members only themselves
+      if (!(await userCan(req, "member:remove", { teamId, ownerId: userId }))) {
+        return res.status(403).json({ message: "Not authorized to remove team member" });
+      }
+      
+      const teamMembers = await storage.getTeamMembers(teamId);
+      const membership = teamMembers.find(member => member.userId === userId);
+      
+      const result = await storage.removeTeamMember(teamId, userId);
+      if (!result) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      if (membership) {
+        const { user, ...removedMember } = membership;
+        await recordAudit(req, { action: "delete", entityType: "team_member", entityId: removedMember.id, before: removedMember });
+      }
+      
+      res.status(200).json({ message: "Team member removed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove team member" });
+    }
+  });
+  
+  // Project routes
+  app.get("/api/projects", requireAuth, async (req, res) => {
+    try {
+      const teamId = req.query.teamId ? parseInt(req.query.teamId as string) : undefined;
+      
+      if (teamId) {
+        // Check if team exists
+        const team = await storage.getTeam(teamId);
+        if (!team) {
+          return res.status(404).json({ message: "Team not found" });
+        }
+        
+        if (!(await userCan(req, "project:view", { teamId }))) {
+          return res.status(403).json({ message: "Not authorized to view projects" });
+        }
+        
+        const projects = await storage.getProjectsByTeam(teamId);
+        res.status(200).json(projects);
+      } else {
+        // Get all teams the user belongs to
+        const teams = await storage.getTeamsByUser(req.session.userId!);
+        
+        // Get projects for each team
+        const projectPromises = teams.map(team => storage.getProjectsByTeam(team.id));
+        const projectsByTeam = await Promise.all(projectPromises);
+        
+        // Flatten the array of projects
+        const projects = projectsByTeam.flat();
+        
+        res.status(200).json(projects);
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get projects" });
+    }
+  });
+  
+  app.post("/api/projects", requireAuth, validateBody(insertProjectSchema), async (req, res) => {
+    try {
+      const { teamId } = req.body;
+      
+      // Log the request body for debugging
+      console.log("Project creation request body:", JSON.stringify(req.body));
+      
+      // Check if team exists
+      const team = await storage.getTeam(teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      if (!(await userCan(req, "project:create", { teamId }))) {
+        return res.status(403).json({ message: "Not authorized to create project" });
+      }
+      
+      // Ensure dates are valid Date objects
+      if (req.body.startDate && !(req.body.startDate instanceof Date)) {
+        req.body.startDate = new Date(req.body.startDate);
+      }
+      
+      if (req.body.dueDate && !(req.body.dueDate instanceof Date)) {
+        req.body.dueDate = new Date(req.body.dueDate);
+      }
+      
+      const project = await storage.createProject(req.body);
+      await recordAudit(req, { action: "create", entityType: "project", entityId: project.id, after: project });
+      
+      res.status(201).json(project);
+    } catch (error) {
+      console.error("Failed to create project:", error);
+      res.status(500).json({ 
+        message: "Failed to create project", 
+        details: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+  
+  app.get("/api/projects/:id", requireAuth, async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "project:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view project" });
+      }
+      
+      res.status(200).json(project);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get project" });
+    }
+  });
+  
+  app.put("/api/projects/:id", requireAuth, async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "project:update", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to update project" });
+      }
+      
+      const estimateUnit = insertProjectSchema.pick({ estimateUnit: true }).partial().safeParse(req.body);
+      if (!estimateUnit.success) {
+        return res.status(400).json({ message: "Validation error", errors: estimateUnit.error.errors });
+      }
+      
+      // The workflow has its own route, which checks it against the project's tasks
+      const { workflow: _workflow, ...body } = req.body;
+      
+      // Convert date fields to Date objects if they exist in request body
+      const projectData = convertDatesToObjects(body);
+      
+      // Log the processed data for debugging
+      console.log("Project update data:", JSON.stringify(projectData));
+      
+      const updatedProject = await storage.updateProject(project.id, projectData);
+      await recordAudit(req, { action: "update", entityType: "project", entityId: project.id, before: project, after: updatedProject });
+      
+      res.status(200).json(updatedProject);
+    } catch (error) {
+      console.error("Failed to update project:", error);
+      res.status(500).json({ 
+        message: "Failed to update project", 
+        details: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+  
+  app.delete("/api/projects/:id", requireAuth, async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "project:delete", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to delete project" });
+      }
+      
+      await storage.deleteProject(project.id);
+      await recordAudit(req, { action: "delete", entityType: "project", entityId: project.id, before: project });
       
-      res.status(200).json({ message: "User deleted successfully" });
+      res.status(200).json({ message: "Project deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete user" });
+      res.status(500).json({ message: "Failed to delete project" });
     }
   });
   
-  // Team routes
-  app.get("/api/teams", requireAuth, async (req, res) => {
+  // The statuses of a project's workflow, in board order
+  app.get("/api/projects/:id/workflow", requireAuth, async (req, res) => {
     try {
-      const teams = await storage.getTeamsByUser(req.session.userId!);
-      res.status(200).json(teams || []);
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "project:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view project" });
+      }
+      
+      res.status(200).json(getWorkflow(project));
     } catch (error) {
-      console.error("Error fetching teams:", error);
-      const errorMessage = error instanceof Error ? error.message : "Failed to get teams";
-      res.status(500).json({ message: errorMessage });
+      res.status(500).json({ message: "Failed to get workflow" });
     }
   });
   
-  app.post("/api/teams", requireAuth, validateBody(insertTeamSchema), async (req, res) => {
+  // Statuses that tasks are still in can't be removed; those tasks have to
+  // move elsewhere first
+  app.put("/api/projects/:id/workflow", requireAuth, validateBody(updateWorkflowSchema), async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "project:update", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to update project" });
+      }
+      
+      const { statuses } = req.body as z.infer<typeof updateWorkflowSchema>;
+      const inUse = await getStatusesInUse(project.id, statuses);
+      if (Object.keys(inUse).length > 0) {
+        return res.status(409).json({
+          message: `Tasks are still in ${Object.keys(inUse).map(status => `"${status}"`).join(", ")}`,
+          statuses: inUse,
+        });
+      }
+      
+      const updatedProject = await storage.updateProject(project.id, { workflow: statuses });
+      await recordAudit(req, { action: "update", entityType: "project", entityId: project.id, before: project, after: updatedProject });
+      
+      res.status(200).json(getWorkflow(updatedProject));
+    } catch (error) {
+      console.error("Failed to update workflow:", error);
+      res.status(500).json({ message: "Failed to update workflow" });
+    }
+  });
+  
+  // Tasks per status for each day in a date range, for burndown, burnup and
+  // cumulative flow charts
+  app.get("/api/projects/:id/analytics/flow", requireAuth, async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "project:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view project analytics" });
+      }
+      
+      const range = getAnalyticsRange(req, res);
+      if (!range) return;
+      
+      const flow = await getProjectFlow(project, range.from, range.to);
+      res.status(200).json(flow);
+    } catch (error) {
+      console.error("Failed to get project flow:", error);
+      res.status(500).json({ message: "Failed to get project flow" });
+    }
+  });
+  
+  // Lead and cycle times of the tasks completed in a date range
+  app.get("/api/projects/:id/analytics/cycle-time", requireAuth, async (req, res) => {
+    try {
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "project:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view project analytics" });
+      }
+      
+      const range = getAnalyticsRange(req, res);
+      if (!range) return;
+      
+      const report = await getCycleTimeReport(project.id, range.from, range.to);
+      res.status(200).json(report);
+    } catch (error) {
+      console.error("Failed to get cycle times:", error);
+      res.status(500).json({ message: "Failed to get cycle times" });
+    }
+  });
+  
+  // Task routes
+  app.get("/api/tasks", requireAuth, async (req, res) => {
+    try {
+      const projectId = req.query.projectId ? parseInt(req.query.projectId as string) : undefined;
+      const assigneeId = req.query.assigneeId ? parseInt(req.query.assigneeId as string) : undefined;
+      
+      if (projectId) {
+        // Check if project exists
+        const project = await storage.getProject(projectId);
+        if (!project) {
+          return res.status(404).json({ message: "Project not found" });
+        }
+        
+        if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
+          return res.status(403).json({ message: "Not authorized to view tasks" });
+        }
+        
+        const tasks = await storage.getTasksByProject(projectId);
+        res.status(200).json(tasks);
+      } else if (assigneeId) {
+        // Users can only view their own assigned tasks
+        if (assigneeId !== req.session.userId!) {
+          return res.status(403).json({ message: "Not authorized to view other users' tasks" });
+        }
+        
+        const tasks = await storage.getTasksByAssignee(assigneeId);
+        res.status(200).json(tasks);
+      } else {
+        // Get all tasks assigned to the current user
+        const tasks = await storage.getTasksByAssignee(req.session.userId!);
+        res.status(200).json(tasks);
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get tasks" });
+    }
+  });
+  
+  app.post("/api/tasks", requireAuth, validateBody(createTaskSchema), async (req, res) => {
+    try {
+      const { projectId } = req.body;
+      
+      // Log the request body for debugging
+      console.log("Task creation request body:", JSON.stringify(req.body));
+      
+      // Check if project exists
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "task:create", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to create task" });
+      }
+      
+      if (req.body.parentTaskId != null) {
+        const parentError = await getParentTaskError(undefined, projectId, req.body.parentTaskId);
+        if (parentError) {
+          return res.status(400).json({ message: parentError });
+        }
+      }
+      
+      if (req.body.sprintId != null) {
+        const sprintError = await getSprintAssignmentError(projectId, req.body.sprintId);
+        if (sprintError) {
+          return res.status(400).json({ message: sprintError });
+        }
+      }
+      
+      // Use the more generic date conversion function
+      const { recurrenceRule, ...taskData } = convertDatesToObjects(req.body);
+      
+      // Tasks start in the first status of the project's workflow unless they say otherwise
+      const workflow = getWorkflow(project);
+      taskData.status = taskData.status ?? getInitialStatus(workflow);
+      const statusError = getTransitionError(workflow, null, taskData.status);
+      if (statusError) {
+        return res.status(400).json({ message: statusError });
+      }
+      if (await rejectStatusEntry(res, { ...taskData, assigneeId: taskData.assigneeId ?? null, estimate: taskData.estimate ?? null }, taskData.status, workflow)) return;
+      
+      if (recurrenceRule && !taskData.dueDate) {
+        return res.status(400).json({ message: "Recurring tasks need a due date" });
+      }
+      
+      const datesError = getTaskDatesError(taskData.startDate, taskData.dueDate);
+      if (datesError) {
+        return res.status(400).json({ message: datesError });
+      }
+      
+      let task = await storage.createTask(taskData);
+      await recordAudit(req, { action: "create", entityType: "task", entityId: task.id, after: task });
+      
+      if (recurrenceRule) {
+        task = await startRecurrence(req, task, recurrenceRule);
+      }
+      
+      eventBus.publishTaskEvent({ type: "task.created", projectId: task.projectId, task });
+      
+      const currentUser = await storage.getUser(req.session.userId!);
+      if (currentUser) {
+        await notifyTaskAssigned(task, currentUser);
+      }
+      
+      res.status(201).json(task);
+    } catch (error) {
+      console.error("Task creation error:", error);
+      res.status(500).json({ 
+        message: "Failed to create task", 
+        details: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+  
+  app.get("/api/tasks/:id", requireAuth, async (req, res) => {
+    try {
+      const task = await storage.getTask(parseInt(req.params.id));
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      // Check if project exists
+      const project = await storage.getProject(task.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view task" });
+      }
+      
+      res.status(200).json(task);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get task" });
+    }
+  });
+  
+  // Field changes and comments on a task, oldest first
+  app.get("/api/tasks/:id/activity", requireAuth, async (req, res) => {
+    try {
+      const task = await storage.getTask(parseInt(req.params.id));
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      // Check if project exists
+      const project = await storage.getProject(task.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view task activity" });
+      }
+      
+      const [events, comments] = await Promise.all([
+        storage.getTaskEventsByTask(task.id),
+        storage.getCommentsByTask(task.id)
+      ]);
+      
+      // Remove password from user objects
+      const withoutPassword = (user: User | null) => {
+        if (!user) return null;
+        const { password, ...userWithoutPassword } = user;
+        return userWithoutPassword;
+      };
+      
+      const activity = [
+        ...events.map(event => ({ type: "change" as const, ...event, user: withoutPassword(event.user) })),
+        ...comments.map(comment => ({ type: "comment" as const, ...comment, user: withoutPassword(comment.user) }))
+      ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      
+      res.status(200).json(activity);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get task activity" });
+    }
+  });
+  
+  app.put("/api/tasks/:id", requireAuth, validateBody(updateTaskSchema), async (req, res) => {
+    try {
+      const { scope, recurrenceRule, ...taskData } = req.body as z.infer<typeof updateTaskSchema>;
+      
+      const task = await storage.getTask(parseInt(req.params.id));
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      // Check if project exists
+      const project = await storage.getProject(task.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await userCan(req, "task:update", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to update task" });
+      }
+      
+      if (recurrenceRule !== undefined) {
+        if (task.recurrenceId && scope !== "series") {
+          return res.status(400).json({ message: "Schedule changes apply to all future occurrences" });
+        }
+        if (!task.recurrenceId && recurrenceRule && !(taskData.dueDate ?? task.dueDate)) {
+          return res.status(400).json({ message: "Recurring tasks need a due date" });
+        }
+      }
+      
+      const datesError = getTaskDatesError(
+        taskData.startDate !== undefined ? taskData.startDate : task.startDate,
+        taskData.dueDate !== undefined ? taskData.dueDate : task.dueDate
+      );
+      if (datesError) {
+        return res.status(400).json({ message: datesError });
+      }
+      
+      // Log the processed data for debugging
+      console.log("Task update data:", JSON.stringify(taskData));
+      
+      // Moving a task also needs permission to create tasks in the target project
+      if (taskData.projectId !== undefined && taskData.projectId !== task.projectId) {
+        const targetProject = await storage.getProject(taskData.projectId);
+        if (!targetProject) {
+          return res.status(404).json({ message: "Project not found" });
+        }
+        if (!(await userCan(req, "task:create", { teamId: targetProject.teamId }))) {
+          return res.status(403).json({ message: "Not authorized to update task" });
+        }
+        
+        // Subtasks stay in their parent's project
+        const projectTasks = await storage.getTasksByProject(task.projectId);
+        if (projectTasks.some(t => t.parentTaskId === task.id)) {
+          return res.status(400).json({ message: "Move or detach the subtasks of this task first" });
+        }
+      }
+      
+      // Check the parent when it changes or the task moves to another project
+      const projectId = taskData.projectId ?? task.projectId;
+      const parentTaskId = taskData.parentTaskId !== undefined ? taskData.parentTaskId : task.parentTaskId;
+      if (parentTaskId != null && (parentTaskId !== task.parentTaskId || projectId !== task.projectId)) {
+        const parentError = await getParentTaskError(task.id, projectId, parentTaskId);
+        if (parentError) {
+          return res.status(400).json({ message: parentError });
+        }
+      }
+      
+      // Sprints belong to one project, so a moved task leaves its sprint
+      if (projectId !== task.projectId && taskData.sprintId === undefined) {
+        taskData.sprintId = null;
+      }
+      if (taskData.sprintId != null && (taskData.sprintId !== task.sprintId || projectId !== task.projectId)) {
+        const sprintError = await getSprintAssignmentError(projectId, taskData.sprintId);
+        if (sprintError) {
+          return res.status(400).json({ message: sprintError });
+        }
+      }
+      
+      // Statuses belong to the project's workflow. A task moved to a project
+      // that doesn't have its status starts over in that project's first one.
+      const workflow = await getProjectWorkflow(projectId);
+      if (taskData.status === undefined && projectId !== task.projectId && !workflow.some(status => status.value === task.status)) {
+        taskData.status = getInitialStatus(workflow);
+      } else if (taskData.status !== undefined) {
+        const statusError = getTransitionError(workflow, projectId === task.projectId ? task.status : null, taskData.status);
+        if (statusError) {
+          return res.status(400).json({ message: statusError });
+        }
+      }
+      
+      // Only a task that enters a status has to meet its policies
+      const status = taskData.status ?? task.status;
+      if (status !== task.status || projectId !== task.projectId) {
+        if (await rejectStatusEntry(res, { ...task, ...taskData, id: task.id, projectId }, status, workflow)) return;
+      }
+      
+      if (await rejectBlockedCompletion(res, task, taskData.status, workflow)) return;
+      
+      // An edit of the whole series saves this occurrence together with the
+      // later ones. A task that lands in another column goes to the end of it.
+      const seriesTask = task.recurrenceId && scope === "series"
+        ? await updateFutureOccurrences(req, task, taskData, recurrenceRule)
+        : undefined;
+      const move = status !== task.status || projectId !== task.projectId
+        ? await storage.moveTask(task.id, { ...taskData, status }, null)
+        : undefined;
+      let updatedTask = move?.task ?? seriesTask ?? await storage.updateTask(task.id, taskData);
+      
+      if (updatedTask) {
+        await recordAudit(req, { action: "update", entityType: "task", entityId: task.id, before: task, after: updatedTask });
+        await recordTaskChanges(req, task, updatedTask);
+        
+        if (!task.recurrenceId && recurrenceRule) {
+          updatedTask = await startRecurrence(req, updatedTask, recurrenceRule);
+        }
+        await handleOccurrenceCompleted(req, task, updatedTask);
+        
+        // A task moved to another project disappears from the old one
+        if (updatedTask.projectId !== task.projectId) {
+          eventBus.publishTaskEvent({ type: "task.deleted", projectId: task.projectId, taskId: task.id });
+          eventBus.publishTaskEvent({ type: "task.created", projectId: updatedTask.projectId, task: updatedTask });
+        } else {
+          eventBus.publishTaskEvent({ type: "task.updated", projectId: updatedTask.projectId, task: updatedTask });
+        }
+        if (move) {
+          eventBus.publishTaskEvent({ type: "tasks.reordered", projectId: updatedTask.projectId, status, taskIds: move.column });
+        }
+        
+        // Notify the new assignee when the task changes hands
+        if (updatedTask.assigneeId !== task.assigneeId) {
+          const currentUser = await storage.getUser(req.session.userId!);
+          if (currentUser) {
+            await notifyTaskAssigned(updatedTask, currentUser);
+          }
+        }
+      }
+      
+      res.status(200).json(updatedTask);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "Another occurrence of this recurring task is already due on that date" });
+      }
+      console.error("Task update error:", error);
+      res.status(500).json({ 
+        message: "Failed to update task", 
+        details: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+  
+  app.put("/api/tasks/:id/status", requireAuth, validateBody(moveTaskSchema), async (req, res) => {
     try {
-      // Get current user role
-      const currentUser = await storage.getUser(req.session.userId!);
-      if (!currentUser) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const { order, ...move } = req.body as z.infer<typeof moveTaskSchema>;
       
-      // Only admin users can create teams
-      if (currentUser.role !== "admin") {
-        return res.status(403).json({ message: "Only admin users can create teams" });
+      const task = await storage.getTask(parseInt(req.params.id));
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
       }
       
-      const team = await storage.createTeam({
-        ...req.body,
-        createdBy: req.session.userId!,
-      });
+      // Check if project exists
+      const project = await storage.getProject(task.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
       
-      // Add the creator as an admin of the team
-      await storage.addTeamMember({
-        teamId: team.id,
-        userId: req.session.userId!,
-        role: "admin"
-      });
+      if (!(await userCan(req, "task:update", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to update task status" });
+      }
       
-      res.status(201).json(team);
+      // The task that is at that position now, not counting the task itself
+      const column = (await storage.getTasksByProject(task.projectId)).filter(
+        (other) => other.status === move.status && other.id !== task.id
+      );
+      await moveTaskOnBoard(req, res, task, project, { ...move, beforeTaskId: column[order]?.id ?? null });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      res.status(500).json({ message: errorMessage });
+      res.status(500).json({ message: "Failed to update task status" });
     }
   });
   
-  app.get("/api/teams/:id", requireAuth, async (req, res) => {
+  app.post("/api/projects/:id/tasks/reorder", requireAuth, validateBody(reorderTaskSchema), async (req, res) => {
     try {
-      const team = await storage.getTeam(parseInt(req.params.id));
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
+      const { taskId, ...move } = req.body as z.infer<typeof reorderTaskSchema>;
+      
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
       }
       
-      res.status(200).json(team);
+      if (!(await userCan(req, "task:update", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to reorder tasks" });
+      }
+      
+      const task = await storage.getTask(taskId);
+      if (!task || task.projectId !== project.id) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      await moveTaskOnBoard(req, res, task, project, move);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get team one" });
+      res.status(500).json({ message: "Failed to reorder tasks" });
     }
   });
   
-  app.put("/api/teams/:id", requireAuth, async (req, res) => {
+  app.delete("/api/tasks/:id", requireAuth, async (req, res) => {
     try {
-      const team = await storage.getTeam(parseInt(req.params.id));
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
+      const task = await storage.getTask(parseInt(req.params.id));
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
       }
       
-      // Check if user is admin of the team
-      const teamMembers = await storage.getTeamMembers(team.id);
-      const currentUserMembership = teamMembers.find(member => member.userId === req.session.userId!);
+      // Check if project exists
+      const project = await storage.getProject(task.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
       
-      if (!currentUserMembership || currentUserMembership.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized to update team" });
+      if (!(await userCan(req, "task:delete", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to delete task" });
       }
       
-      const updatedTeam = await storage.updateTeam(team.id, req.body);
-      res.status(200).json(updatedTeam);
+      // "?scope=series" also stops the series and deletes its later occurrences
+      if (task.recurrenceId && req.query.scope === "series") {
+        await deleteFutureOccurrences(req, task);
+      }
+      
+      await storage.deleteTask(task.id);
+      await recordAudit(req, { action: "delete", entityType: "task", entityId: task.id, before: task });
+      
+      eventBus.publishTaskEvent({ type: "task.deleted", projectId: task.projectId, taskId: task.id });
+      
+      res.status(200).json({ message: "Task deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update team" });
+      res.status(500).json({ message: "Failed to delete task" });
     }
   });
   
-  app.delete("/api/teams/:id", requireAuth, async (req, res) => {
+  app.get("/api/task-recurrences/:id", requireAuth, async (req, res) => {
     try {
-      const team = await storage.getTeam(parseInt(req.params.id));
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
+      const recurrence = await storage.getTaskRecurrence(parseInt(req.params.id));
+      if (!recurrence) {
+        return res.status(404).json({ message: "Task recurrence not found" });
       }
       
-      // Check if user is admin of the team
-      const teamMembers = await storage.getTeamMembers(team.id);
-      const currentUserMembership = teamMembers.find(member => member.userId === req.session.userId!);
+      // Check if project exists
+      const project = await storage.getProject(recurrence.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
       
-      if (!currentUserMembership || currentUserMembership.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized to delete team" });
+      if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view task recurrence" });
       }
       
-      await storage.deleteTeam(team.id);
-      res.status(200).json({ message: "Team deleted successfully" });
+      res.status(200).json(recurrence);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete team" });
+      res.status(500).json({ message: "Failed to get task recurrence" });
     }
   });
   
-  // Team Members routes
-  app.get("/api/teams/:id/members", requireAuth, async (req, res) => {
+  // Sprint routes
+  // The sprint in the URL and its project, if the user may perform `action`
+  // on it. Sends an error response and returns null otherwise.
+  const getSprintForRequest = async (req: Request, res: Response, action: Action) => {
+    const sprint = await storage.getSprint(parseInt(req.params.id));
+    if (!sprint) {
+      res.status(404).json({ message: "Sprint not found" });
+      return null;
+    }
+    
+    // Check if project exists
+    const project = await storage.getProject(sprint.projectId);
+    if (!project) {
+      res.status(404).json({ message: "Project not found" });
+      return null;
+    }
+    
+    if (!(await userCan(req, action, { teamId: project.teamId }))) {
+      res.status(403).json({ message: action === "task:view" ? "Not authorized to view sprint" : "Not authorized to manage sprints" });
+      return null;
+    }
+    
+    return { sprint, project };
+  };
+  
+  app.get("/api/projects/:id/sprints", requireAuth, async (req, res) => {
     try {
-      const teamId = parseInt(req.params.id);
-      
-      // Check if team exists
-      const team = await storage.getTeam(teamId);
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team
-      const teamMembers = await storage.getTeamMembers(teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-      
-      if (!isMember) {
-        return res.status(403).json({ message: "Not authorized to view team members" });
+      if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view sprints" });
       }
       
-      res.status(200).json(teamMembers);
+      const sprints = await storage.getSprintsByProject(project.id);
+      res.status(200).json(sprints);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get team members" });
+      res.status(500).json({ message: "Failed to get sprints" });
     }
   });
   
-  // Get current user's role in team
-  app.get("/api/teams/:id/members/current", requireAuth, async (req, res) => {
+  app.post("/api/projects/:id/sprints", requireAuth, validateBody(createSprintSchema), async (req, res) => {
     try {
-      const teamId = parseInt(req.params.id);
-      const userId = req.session.userId!;
+      const project = await storage.getProject(parseInt(req.params.id));
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
       
-      // Check if team exists
-      const team = await storage.getTeam(teamId);
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
+      if (!(await userCan(req, "sprint:manage", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to manage sprints" });
       }
       
-      // Find the team member entry for this user
-      const teamMembers = await storage.getTeamMembers(teamId);
-      const currentMember = teamMembers.find(member => member.userId === userId);
+      const sprint = await storage.createSprint({
+        ...req.body,
+        projectId: project.id,
+        createdBy: req.session.userId!,
+      });
+      await recordAudit(req, { action: "create", entityType: "sprint", entityId: sprint.id, after: sprint });
       
-      if (!currentMember) {
-        return res.status(404).json({ message: "User is not a member of this team" });
-      }
+      res.status(201).json(sprint);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create sprint" });
+    }
+  });
+  
+  // A closed sprint also carries its report
+  app.get("/api/sprints/:id", requireAuth, async (req, res) => {
+    try {
+      const result = await getSprintForRequest(req, res, "task:view");
+      if (!result) return;
       
-      res.status(200).json(currentMember);
+      res.status(200).json(result.sprint);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get user role" });
+      res.status(500).json({ message: "Failed to get sprint" });
     }
   });
   
-  app.post("/api/teams/:id/members", requireAuth, validateBody(insertTeamMemberSchema), async (req, res) => {
+  app.put("/api/sprints/:id", requireAuth, validateBody(updateSprintSchema), async (req, res) => {
     try {
-      const teamId = parseInt(req.params.id);
+      const result = await getSprintForRequest(req, res, "sprint:manage");
+      if (!result) return;
+      const { sprint } = result;
       
-      // Check if team exists
-      const team = await storage.getTeam(teamId);
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
+      if (sprint.state === "closed") {
+        return res.status(400).json({ message: "Closed sprints can't be changed" });
       }
       
-      // Check if user is admin of the team
-      const teamMembers = await storage.getTeamMembers(teamId);
-      const currentUserMembership = teamMembers.find(member => member.userId === req.session.userId!);
-      
-      if (!currentUserMembership || currentUserMembership.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized to add team members" });
+      const startDate = req.body.startDate ?? sprint.startDate;
+      const endDate = req.body.endDate ?? sprint.endDate;
+      if (endDate < startDate) {
+        return res.status(400).json({ message: sprintDatesError.message });
       }
       
-      const newTeamMember = await storage.addTeamMember({
-        ...req.body,
-        teamId,
-      });
+      const updatedSprint = await storage.updateSprint(sprint.id, req.body);
+      await recordAudit(req, { action: "update", entityType: "sprint", entityId: sprint.id, before: sprint, after: updatedSprint });
       
-      res.status(201).json(newTeamMember);
+      res.status(200).json(updatedSprint);
     } catch (error) {
-      res.status(500).json({ message: "Failed to add team member" });
+      res.status(500).json({ message: "Failed to update sprint" });
     }
   });
   
-  app.delete("/api/teams/:teamId/members/:userId", requireAuth, async (req, res) => {
+  // A project works on one sprint at a time
+  app.post("/api/sprints/:id/start", requireAuth, async (req, res) => {
     try {
-      const teamId = parseInt(req.params.teamId);
-      const userId = parseInt(req.params.userId);
+      const result = await getSprintForRequest(req, res, "sprint:manage");
+      if (!result) return;
+      const { sprint } = result;
       
-      // Check if team exists
-      const team = await storage.getTeam(teamId);
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
+      if (sprint.state !== "planned") {
+        return res.status(400).json({ message: "Only planned sprints can be started" });
       }
       
-      // Check if user is admin of the team or removing themselves
-      const teamMembers = await storage.getTeamMembers(teamId);
-      const currentUserMembership = teamMembers.find(member => member.userId === req.session.userId!);
-      
-      if (
-        !currentUserMembership || 
-        (currentUserMembership.role !== "admin" && req.session.userId !== userId)
-      ) {
-        return res.status(403).json({ message: "Not authorized to remove team member" });
+      const projectSprints = await storage.getSprintsByProject(sprint.projectId);
+      const activeSprint = projectSprints.find(s => s.state === "active");
+      if (activeSprint) {
+        return res.status(409).json({ message: `Close "${activeSprint.name}" before starting another sprint` });
       }
       
-      const result = await storage.removeTeamMember(teamId, userId);
-      if (!result) {
-        return res.status(404).json({ message: "Team member not found" });
-      }
+      const startedSprint = await storage.updateSprint(sprint.id, { state: "active" });
+      await recordAudit(req, { action: "update", entityType: "sprint", entityId: sprint.id, before: sprint, after: startedSprint });
       
-      res.status(200).json({ message: "Team member removed successfully" });
+      res.status(200).json(startedSprint);
     } catch (error) {
-      res.status(500).json({ message: "Failed to remove team member" });
+      res.status(500).json({ message: "Failed to start sprint" });
     }
   });
   
-  // Project routes
-  app.get("/api/projects", requireAuth, async (req, res) => {
+  app.post("/api/sprints/:id/close", requireAuth, validateBody(closeSprintSchema), async (req, res) => {
     try {
-      const teamId = req.query.teamId ? parseInt(req.query.teamId as string) : undefined;
+      const result = await getSprintForRequest(req, res, "sprint:manage");
+      if (!result) return;
+      const { sprint } = result;
       
-      if (teamId) {
-        // Check if team exists
-        const team = await storage.getTeam(teamId);
-        if (!team) {
-          return res.status(404).json({ message: "Team not found" });
+      if (sprint.state !== "active") {
+        return res.status(400).json({ message: "Only the active sprint can be closed" });
+      }
+      
+      const { moveToSprintId } = req.body;
+      if (moveToSprintId !== null) {
+        if (moveToSprintId === sprint.id) {
+          return res.status(400).json({ message: "Unfinished tasks must move to another sprint" });
         }
-        
-        // Check if user is member of the team
-        const teamMembers = await storage.getTeamMembers(teamId);
-        const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-        
-        if (!isMember) {
-          return res.status(403).json({ message: "Not authorized to view projects" });
+        const sprintError = await getSprintAssignmentError(sprint.projectId, moveToSprintId);
+        if (sprintError) {
+          return res.status(400).json({ message: sprintError });
         }
-        
-        const projects = await storage.getProjectsByTeam(teamId);
-        res.status(200).json(projects);
-      } else {
-        // Get all teams the user belongs to
-        const teams = await storage.getTeamsByUser(req.session.userId!);
-        
-        // Get projects for each team
-        const projectPromises = teams.map(team => storage.getProjectsByTeam(team.id));
-        const projectsByTeam = await Promise.all(projectPromises);
-        
-        // Flatten the array of projects
-        const projects = projectsByTeam.flat();
-        
-        res.status(200).json(projects);
       }
+      
+      const closedSprint = await closeSprint(req, sprint, moveToSprintId);
+      res.status(200).json(closedSprint);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get projects" });
+      console.error("Failed to close sprint:", error);
+      res.status(500).json({ message: "Failed to close sprint" });
     }
   });
   
-  app.post("/api/projects", requireAuth, validateBody(insertProjectSchema), async (req, res) => {
+  // The tasks of a deleted sprint go back to the backlog; closed sprints are
+  // kept for their reports
+  app.delete("/api/sprints/:id", requireAuth, async (req, res) => {
     try {
-      const { teamId } = req.body;
+      const result = await getSprintForRequest(req, res, "sprint:manage");
+      if (!result) return;
+      const { sprint } = result;
       
-      // Log the request body for debugging
-      console.log("Project creation request body:", JSON.stringify(req.body));
-      
-      // Check if team exists
-      const team = await storage.getTeam(teamId);
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
+      if (sprint.state === "closed") {
+        return res.status(400).json({ message: "Closed sprints can't be deleted" });
       }
       
-      // Check if user is member of the team
-      const teamMembers = await storage.getTeamMembers(teamId);
-      const userMembership = teamMembers.find(member => member.userId === req.session.userId!);
+      const sprintTasks = await getSprintTasks(sprint);
       
-      if (!userMembership) {
-        return res.status(403).json({ message: "Not authorized to create project" });
+      await storage.deleteSprint(sprint.id);
+      await recordAudit(req, { action: "delete", entityType: "sprint", entityId: sprint.id, before: sprint });
+      
+      sprintTasks.forEach(task => {
+        eventBus.publishTaskEvent({ type: "task.updated", projectId: task.projectId, task: { ...task, sprintId: null } });
+      });
+      
+      res.status(200).json({ message: "Sprint deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete sprint" });
+    }
+  });
+  
+  // Task dependency routes
+  app.get("/api/task-dependencies", requireAuth, async (req, res) => {
+    try {
+      const projectId = req.query.projectId ? parseInt(req.query.projectId as string) : undefined;
+      if (!projectId) {
+        return res.status(400).json({ message: "projectId is required" });
       }
       
-      // Ensure dates are valid Date objects
-      if (req.body.startDate && !(req.body.startDate instanceof Date)) {
-        req.body.startDate = new Date(req.body.startDate);
+      // Check if project exists
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
       }
       
-      if (req.body.dueDate && !(req.body.dueDate instanceof Date)) {
-        req.body.dueDate = new Date(req.body.dueDate);
+      if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view task dependencies" });
       }
       
-      const project = await storage.createProject(req.body);
+      // What blocks the project's tasks, and whether each blocker is done yet
+      const projectTaskIds = (await storage.getTasksByProject(projectId)).map(task => task.id);
+      const dependencies = (await storage.getTaskDependenciesByTasks(projectTaskIds))
+        .filter(dependency => projectTaskIds.includes(dependency.blockedTaskId));
       
-      res.status(201).json(project);
+      const result = await Promise.all(dependencies.map(async dependency => {
+        const blocker = await storage.getTask(dependency.blockerTaskId);
+        return { ...dependency, blockerComplete: !!blocker && (await isTaskDone(blocker)) };
+      }));
+      
+      res.status(200).json(result);
     } catch (error) {
-      console.error("Failed to create project:", error);
-      res.status(500).json({ 
-        message: "Failed to create project", 
-        details: error instanceof Error ? error.message : "Unknown error" 
-      });
+      res.status(500).json({ message: "Failed to get task dependencies" });
     }
   });
   
-  app.get("/api/projects/:id", requireAuth, async (req, res) => {
+  app.get("/api/tasks/:id/dependencies", requireAuth, async (req, res) => {
     try {
-      const project = await storage.getProject(parseInt(req.params.id));
+      const task = await storage.getTask(parseInt(req.params.id));
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      // Check if project exists
+      const project = await storage.getProject(task.projectId);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
+      if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view task dependencies" });
+      }
       
-      if (!isMember) {
-        return res.status(403).json({ message: "Not authorized to view project" });
+      // Related tasks can be in other projects; only the ones the user can
+      // see are listed
+      const visibleProjects = new Map<number, boolean>([[project.id, true]]);
+      const canViewProject = async (projectId: number) => {
+        if (!visibleProjects.has(projectId)) {
+          const other = await storage.getProject(projectId);
+          visibleProjects.set(projectId, !!other && await userCan(req, "task:view", { teamId: other.teamId }));
+        }
+        return visibleProjects.get(projectId)!;
+      };
+      
+      const dependencies = await storage.getTaskDependenciesByTasks([task.id]);
+      const blockers: (Task & { dependencyId: number })[] = [];
+      const dependents: (Task & { dependencyId: number })[] = [];
+      for (const dependency of dependencies) {
+        const isBlocker = dependency.blockedTaskId === task.id;
+        const related = await storage.getTask(isBlocker ? dependency.blockerTaskId : dependency.blockedTaskId);
+        if (!related || !(await canViewProject(related.projectId))) continue;
+        
+        (isBlocker ? blockers : dependents).push({ ...related, dependencyId: dependency.id });
       }
       
-      res.status(200).json(project);
+      res.status(200).json({ blockers, dependents });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get project" });
+      res.status(500).json({ message: "Failed to get task dependencies" });
     }
   });
   
-  app.put("/api/projects/:id", requireAuth, async (req, res) => {
+  app.post("/api/task-dependencies", requireAuth, validateBody(createTaskDependencySchema), async (req, res) => {
     try {
-      const project = await storage.getProject(parseInt(req.params.id));
-      if (!project) {
+      const { blockerTaskId, blockedTaskId } = req.body;
+      
+      const blockedTask = await storage.getTask(blockedTaskId);
+      const blockerTask = await storage.getTask(blockerTaskId);
+      if (!blockedTask || !blockerTask) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      // Adding a blocker changes the blocked task; the blocker only has to be visible
+      const blockedProject = await storage.getProject(blockedTask.projectId);
+      const blockerProject = await storage.getProject(blockerTask.projectId);
+      if (!blockedProject || !blockerProject) {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const userMembership = teamMembers.find(member => member.userId === req.session.userId!);
-      
-      if (!userMembership || userMembership.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized to update project" });
+      if (
+        !(await userCan(req, "task:update", { teamId: blockedProject.teamId })) ||
+        !(await userCan(req, "task:view", { teamId: blockerProject.teamId }))
+      ) {
+        return res.status(403).json({ message: "Not authorized to add task dependency" });
+      }
+      
+      const existing = await storage.getTaskDependenciesByTasks([blockedTaskId]);
+      if (existing.some(dependency => dependency.blockerTaskId === blockerTaskId && dependency.blockedTaskId === blockedTaskId)) {
+        return res.status(409).json({ message: "This dependency already exists" });
       }
       
-      // Convert date fields to Date objects if they exist in request body
-      const projectData = convertDatesToObjects(req.body);
+      if (await wouldCreateCycle(blockerTaskId, blockedTaskId)) {
+        return res.status(400).json({ message: "This dependency would create a cycle" });
+      }
       
-      // Log the processed data for debugging
-      console.log("Project update data:", JSON.stringify(projectData));
+      const dependency = await storage.createTaskDependency({
+        blockerTaskId,
+        blockedTaskId,
+        createdBy: req.session.userId!,
+      });
+      await recordAudit(req, { action: "create", entityType: "task_dependency", entityId: dependency.id, after: dependency });
       
-      const updatedProject = await storage.updateProject(project.id, projectData);
-      res.status(200).json(updatedProject);
+      res.status(201).json(dependency);
     } catch (error) {
-      console.error("Failed to update project:", error);
-      res.status(500).json({ 
-        message: "Failed to update project", 
-        details: error instanceof Error ? error.message : "Unknown error" 
-      });
+      res.status(500).json({ message: "Failed to add task dependency" });
     }
   });
   
-  app.delete("/api/projects/:id", requireAuth, async (req, res) => {
+  app.delete("/api/task-dependencies/:id", requireAuth, async (req, res) => {
     try {
-      const project = await storage.getProject(parseInt(req.params.id));
+      const dependency = await storage.getTaskDependency(parseInt(req.params.id));
+      if (!dependency) {
+        return res.status(404).json({ message: "Task dependency not found" });
+      }
+      
+      // Check if task exists
+      const blockedTask = await storage.getTask(dependency.blockedTaskId);
+      if (!blockedTask) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      // Check if project exists
+      const project = await storage.getProject(blockedTask.projectId);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is admin of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const userMembership = teamMembers.find(member => member.userId === req.session.userId!);
-      
-      if (!userMembership || userMembership.role !== "admin") {
-        return res.status(403).json({ message: "Not authorized to delete project" });
+      if (!(await userCan(req, "task:update", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to remove task dependency" });
       }
       
-      await storage.deleteProject(project.id);
-      res.status(200).json({ message: "Project deleted successfully" });
+      await storage.deleteTaskDependency(dependency.id);
+      await recordAudit(req, { action: "delete", entityType: "task_dependency", entityId: dependency.id, before: dependency });
+      
+      res.status(200).json({ message: "Task dependency removed successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete project" });
+      res.status(500).json({ message: "Failed to remove task dependency" });
     }
   });
   
-  // Task routes
-  app.get("/api/tasks", requireAuth, async (req, res) => {
+  // Checklist routes
+  app.get("/api/checklist-items", requireAuth, async (req, res) => {
     try {
       const projectId = req.query.projectId ? parseInt(req.query.projectId as string) : undefined;
-      const assigneeId = req.query.assigneeId ? parseInt(req.query.assigneeId as string) : undefined;
       
+      let tasks: Task[];
       if (projectId) {
         // Check if project exists
         const project = await storage.getProject(projectId);
@@ -684,73 +2727,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Project not found" });
         }
         
-        // Check if user is member of the team that owns the project
-        const teamMembers = await storage.getTeamMembers(project.teamId);
-        const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-        
-        if (!isMember) {
-          return res.status(403).json({ message: "Not authorized to view tasks" });
-        }
-        
-        const tasks = await storage.getTasksByProject(projectId);
-        res.status(200).json(tasks);
-      } else if (assigneeId) {
-        // Users can only view their own assigned tasks
-        if (assigneeId !== req.session.userId!) {
-          return res.status(403).json({ message: "Not authorized to view other users' tasks" });
+        if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
+          return res.status(403).json({ message: "Not authorized to view checklist items" });
         }
         
-        const tasks = await storage.getTasksByAssignee(assigneeId);
-        res.status(200).json(tasks);
+        tasks = await storage.getTasksByProject(projectId);
       } else {
-        // Get all tasks assigned to the current user
-        const tasks = await storage.getTasksByAssignee(req.session.userId!);
-        res.status(200).json(tasks);
+        // Checklist items on the tasks assigned to the current user
+        tasks = await storage.getTasksByAssignee(req.session.userId!);
       }
+      
+      const items = await storage.getChecklistItemsByTasks(tasks.map(task => task.id));
+      res.status(200).json(items);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get tasks" });
+      res.status(500).json({ message: "Failed to get checklist items" });
     }
   });
   
-  app.post("/api/tasks", requireAuth, validateBody(insertTaskSchema), async (req, res) => {
+  app.get("/api/tasks/:taskId/checklist", requireAuth, async (req, res) => {
     try {
-      const { projectId } = req.body;
-      
-      // Log the request body for debugging
-      console.log("Task creation request body:", JSON.stringify(req.body));
+      const task = await storage.getTask(parseInt(req.params.taskId));
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
       
       // Check if project exists
-      const project = await storage.getProject(projectId);
+      const project = await storage.getProject(task.projectId);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-      
-      if (!isMember) {
-        return res.status(403).json({ message: "Not authorized to create task" });
+      if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to view checklist" });
       }
       
-      // Use the more generic date conversion function
-      const taskData = convertDatesToObjects(req.body);
-      
-      const task = await storage.createTask(taskData);
-      
-      res.status(201).json(task);
+      const items = await storage.getChecklistItemsByTask(task.id);
+      res.status(200).json(items);
     } catch (error) {
-      console.error("Task creation error:", error);
-      res.status(500).json({ 
-        message: "Failed to create task", 
-        details: error instanceof Error ? error.message : "Unknown error" 
-      });
+      res.status(500).json({ message: "Failed to get checklist" });
     }
   });
   
-  app.get("/api/tasks/:id", requireAuth, async (req, res) => {
+  app.post("/api/tasks/:taskId/checklist", requireAuth, validateBody(createChecklistItemSchema), async (req, res) => {
     try {
-      const task = await storage.getTask(parseInt(req.params.id));
+      const task = await storage.getTask(parseInt(req.params.taskId));
       if (!task) {
         return res.status(404).json({ message: "Task not found" });
       }
@@ -761,23 +2781,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
+      if (!(await userCan(req, "task:update", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to update checklist" });
+      }
       
-      if (!isMember) {
-        return res.status(403).json({ message: "Not authorized to view task" });
+      let order = req.body.order;
+      if (order === undefined) {
+        const items = await storage.getChecklistItemsByTask(task.id);
+        order = items.reduce((max, item) => Math.max(max, item.order + 1), 0);
       }
       
-      res.status(200).json(task);
+      const item = await storage.createChecklistItem({ taskId: task.id, text: req.body.text, order });
+      await recordAudit(req, { action: "create", entityType: "checklist_item", entityId: item.id, after: item });
+      
+      res.status(201).json(item);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get task" });
+      res.status(500).json({ message: "Failed to add checklist item" });
     }
   });
   
-  app.put("/api/tasks/:id", requireAuth, async (req, res) => {
+  app.put("/api/checklist-items/:id", requireAuth, validateBody(updateChecklistItemSchema), async (req, res) => {
     try {
-      const task = await storage.getTask(parseInt(req.params.id));
+      const item = await storage.getChecklistItem(parseInt(req.params.id));
+      if (!item) {
+        return res.status(404).json({ message: "Checklist item not found" });
+      }
+      
+      // Check if task exists
+      const task = await storage.getTask(item.taskId);
       if (!task) {
         return res.status(404).json({ message: "Task not found" });
       }
@@ -788,36 +2819,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-      
-      if (!isMember) {
-        return res.status(403).json({ message: "Not authorized to update task" });
+      if (!(await userCan(req, "task:update", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to update checklist" });
       }
       
-      // Use the more generic date conversion function
-      const taskData = convertDatesToObjects(req.body);
-      
-      // Log the processed data for debugging
-      console.log("Task update data:", JSON.stringify(taskData));
+      const updatedItem = await storage.updateChecklistItem(item.id, req.body);
+      await recordAudit(req, { action: "update", entityType: "checklist_item", entityId: item.id, before: item, after: updatedItem });
       
-      const updatedTask = await storage.updateTask(task.id, taskData);
-      res.status(200).json(updatedTask);
+      res.status(200).json(updatedItem);
     } catch (error) {
-      console.error("Task update error:", error);
-      res.status(500).json({ 
-        message: "Failed to update task", 
-        details: error instanceof Error ? error.message : "Unknown error" 
-      });
+      res.status(500).json({ message: "Failed to update checklist item" });
     }
   });
   
-  app.put("/api/tasks/:id/status", requireAuth, async (req, res) => {
+  app.delete("/api/checklist-items/:id", requireAuth, async (req, res) => {
     try {
-      const { status, order } = req.body;
+      const item = await storage.getChecklistItem(parseInt(req.params.id));
+      if (!item) {
+        return res.status(404).json({ message: "Checklist item not found" });
+      }
       
-      const task = await storage.getTask(parseInt(req.params.id));
+      // Check if task exists
+      const task = await storage.getTask(item.taskId);
       if (!task) {
         return res.status(404).json({ message: "Task not found" });
       }
@@ -828,22 +2851,148 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
+      if (!(await userCan(req, "task:update", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to update checklist" });
+      }
       
-      if (!isMember) {
-        return res.status(403).json({ message: "Not authorized to update task status" });
+      await storage.deleteChecklistItem(item.id);
+      await recordAudit(req, { action: "delete", entityType: "checklist_item", entityId: item.id, before: item });
+      
+      res.status(200).json({ message: "Checklist item deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete checklist item" });
+    }
+  });
+  
+  // Time tracking routes
+  const getTeamIdOfTask = async (taskId: number) => {
+    const task = await storage.getTask(taskId);
+    const project = task && await storage.getProject(task.projectId);
+    return project ? project.teamId : undefined;
+  };
+  
+  // Logged time matching the query string filters, with the tasks it was
+  // logged on. Sends an error response and returns null if it can't be listed.
+  const getTimeEntriesForRequest = async (req: Request, res: Response) => {
+    const filter = timeEntryQuerySchema.safeParse(req.query);
+    if (!filter.success) {
+      res.status(400).json({ message: "Invalid time entry filter", errors: filter.error.errors });
+      return null;
+    }
+    const { taskId, projectId, userId, from, to } = filter.data;
+    
+    let tasks: Task[] | undefined;
+    if (taskId !== undefined || projectId !== undefined) {
+      const task = taskId !== undefined ? await storage.getTask(taskId) : undefined;
+      if (taskId !== undefined && !task) {
+        res.status(404).json({ message: "Task not found" });
+        return null;
       }
       
-      const updatedTask = await storage.updateTaskStatus(task.id, status, order);
-      res.status(200).json(updatedTask);
+      // Check if project exists
+      const project = await storage.getProject(task ? task.projectId : projectId!);
+      if (!project) {
+        res.status(404).json({ message: "Project not found" });
+        return null;
+      }
+      
+      if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
+        res.status(403).json({ message: "Not authorized to view time entries" });
+        return null;
+      }
+      
+      tasks = task ? [task] : await storage.getTasksByProject(project.id);
+    } else if (userId !== undefined && userId !== req.session.userId) {
+      res.status(403).json({ message: "Not authorized to view time entries of other users" });
+      return null;
+    }
+    
+    const entries = await storage.getTimeEntries({
+      userId: tasks ? userId : req.session.userId!,
+      taskIds: tasks?.map(task => task.id),
+      from,
+      to,
+    });
+    
+    // The user's own time can be on tasks of any project
+    if (!tasks) {
+      const taskIds = Array.from(new Set(entries.map(entry => entry.taskId)));
+      tasks = (await Promise.all(taskIds.map(id => storage.getTask(id))))
+        .filter((task): task is Task => !!task);
+    }
+    
+    return { entries, tasks: new Map(tasks.map(task => [task.id, task])) };
+  };
+  
+  const withTask = (entry: TimeEntry, tasks: Map<number, Task>) => {
+    const task = tasks.get(entry.taskId);
+    return { ...entry, task: task ? { id: task.id, title: task.title, projectId: task.projectId } : null };
+  };
+  
+  app.get("/api/time-entries", requireAuth, async (req, res) => {
+    try {
+      const result = await getTimeEntriesForRequest(req, res);
+      if (!result) return;
+      
+      res.status(200).json(result.entries.map(entry => withTask(entry, result.tasks)));
     } catch (error) {
-      res.status(500).json({ message: "Failed to update task status" });
+      res.status(500).json({ message: "Failed to get time entries" });
     }
   });
   
-  app.delete("/api/tasks/:id", requireAuth, async (req, res) => {
+  // Totals per task, project and user, in seconds
+  app.get("/api/time-entries/totals", requireAuth, async (req, res) => {
+    try {
+      const result = await getTimeEntriesForRequest(req, res);
+      if (!result) return;
+      
+      const projectIds = new Map(Array.from(result.tasks.values()).map(task => [task.id, task.projectId]));
+      res.status(200).json(summarizeTimeEntries(result.entries, projectIds));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get time totals" });
+    }
+  });
+  
+  app.get("/api/time-entries/export", requireAuth, async (req, res) => {
+    try {
+      const result = await getTimeEntriesForRequest(req, res);
+      if (!result) return;
+      
+      const users = new Map((await storage.getAllUsers()).map(user => [user.id, user]));
+      const projectIds = Array.from(new Set(Array.from(result.tasks.values()).map(task => task.projectId)));
+      const projects = (await Promise.all(projectIds.map(id => storage.getProject(id))))
+        .filter((project): project is NonNullable<typeof project> => !!project);
+      
+      const from = typeof req.query.from === "string" ? req.query.from.slice(0, 10) : new Date().toISOString().slice(0, 10);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="timesheet-${from}.csv"`);
+      res.status(200).send(timeEntriesToCsv(
+        result.entries,
+        result.tasks,
+        new Map(projects.map(project => [project.id, project])),
+        users
+      ));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export time entries" });
+    }
+  });
+  
+  // The current user's running timer, or null
+  app.get("/api/time-entries/running", requireAuth, async (req, res) => {
+    try {
+      const entry = await storage.getRunningTimeEntry(req.session.userId!);
+      if (!entry) {
+        return res.status(200).json(null);
+      }
+      
+      const task = await storage.getTask(entry.taskId);
+      res.status(200).json(withTask(entry, new Map(task ? [[task.id, task]] : [])));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get running timer" });
+    }
+  });
+  
+  app.post("/api/tasks/:id/timer/start", requireAuth, async (req, res) => {
     try {
       const task = await storage.getTask(parseInt(req.params.id));
       if (!task) {
@@ -856,18 +3005,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
+      if (!(await userCan(req, "time:log", { teamId: project.teamId }))) {
+        return res.status(403).json({ message: "Not authorized to log time on this task" });
+      }
       
-      if (!isMember) {
-        return res.status(403).json({ message: "Not authorized to delete task" });
+      const result = await startTimer(req, task);
+      res.status(201).json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start timer" });
+    }
+  });
+  
+  app.post("/api/tasks/:id/timer/stop", requireAuth, async (req, res) => {
+    try {
+      const running = await storage.getRunningTimeEntry(req.session.userId!);
+      if (!running || running.taskId !== parseInt(req.params.id)) {
+        return res.status(404).json({ message: "No timer is running on this task" });
       }
       
-      await storage.deleteTask(task.id);
-      res.status(200).json({ message: "Task deleted successfully" });
+      const entry = await stopTimeEntry(req, running);
+      res.status(200).json(entry);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete task" });
+      res.status(500).json({ message: "Failed to stop timer" });
+    }
+  });
+  
+  app.post("/api/time-entries", requireAuth, validateBody(createTimeEntrySchema), async (req, res) => {
+    try {
+      const teamId = await getTeamIdOfTask(req.body.taskId);
+      if (teamId === undefined) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      if (!(await userCan(req, "time:log", { teamId }))) {
+        return res.status(403).json({ message: "Not authorized to log time on this task" });
+      }
+      
+      const times = completeTimeEntryTimes(req.body.startedAt, req.body.endedAt, req.body.duration);
+      if (!times) {
+        return res.status(400).json({ message: "A time entry must end after it starts" });
+      }
+      
+      const entry = await storage.createTimeEntry({
+        ...times,
+        userId: req.session.userId!,
+        taskId: req.body.taskId,
+        note: req.body.note || null,
+      });
+      await recordAudit(req, { action: "create", entityType: "time_entry", entityId: entry.id, after: entry });
+      
+      res.status(201).json(entry);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create time entry" });
+    }
+  });
+  
+  app.put("/api/time-entries/:id", requireAuth, validateBody(updateTimeEntrySchema), async (req, res) => {
+    try {
+      const entry = await storage.getTimeEntry(parseInt(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+      
+      const teamId = await getTeamIdOfTask(entry.taskId);
+      if (teamId === undefined || !(await userCan(req, "time:edit", { teamId, ownerId: entry.userId }))) {
+        return res.status(403).json({ message: "Not authorized to update time entry" });
+      }
+      
+      const { startedAt, endedAt, duration, note } = req.body;
+      let entryData: Partial<TimeEntry> = {};
+      if (note !== undefined) entryData.note = note || null;
+      
+      if (entry.endedAt === null) {
+        // A running timer only gets its end when it is stopped
+        if (endedAt !== undefined || duration !== undefined) {
+          return res.status(400).json({ message: "Stop the timer before changing when it ends" });
+        }
+        if (startedAt !== undefined) entryData.startedAt = startedAt;
+      } else if (startedAt !== undefined || endedAt !== undefined || duration !== undefined) {
+        // Keeps the duration when only the start moves, unless an end is given
+        const times = completeTimeEntryTimes(
+          startedAt ?? entry.startedAt,
+          endedAt ?? entry.endedAt,
+          duration ?? (endedAt === undefined ? entry.duration ?? undefined : undefined)
+        );
+        if (!times) {
+          return res.status(400).json({ message: "A time entry must end after it starts" });
+        }
+        entryData = { ...entryData, ...times };
+      }
+      
+      const updatedEntry = await storage.updateTimeEntry(entry.id, entryData);
+      await recordAudit(req, { action: "update", entityType: "time_entry", entityId: entry.id, before: entry, after: updatedEntry });
+      
+      res.status(200).json(updatedEntry);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update time entry" });
+    }
+  });
+  
+  app.delete("/api/time-entries/:id", requireAuth, async (req, res) => {
+    try {
+      const entry = await storage.getTimeEntry(parseInt(req.params.id));
+      if (!entry) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+      
+      const teamId = await getTeamIdOfTask(entry.taskId);
+      if (teamId === undefined || !(await userCan(req, "time:edit", { teamId, ownerId: entry.userId }))) {
+        return res.status(403).json({ message: "Not authorized to delete time entry" });
+      }
+      
+      await storage.deleteTimeEntry(entry.id);
+      await recordAudit(req, { action: "delete", entityType: "time_entry", entityId: entry.id, before: entry });
+      
+      res.status(200).json({ message: "Time entry deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete time entry" });
     }
   });
   
@@ -888,16 +3142,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-      
-      if (!isMember) {
+      if (!(await userCan(req, "task:view", { teamId: project.teamId }))) {
         return res.status(403).json({ message: "Not authorized to view comments" });
       }
       
       const comments = await storage.getCommentsByTask(taskId);
-      res.status(200).json(comments);
+      
+      // Remove password from user objects
+      const commentsWithoutPassword = comments.map(comment => {
+        const { password, ...userWithoutPassword } = comment.user;
+        return { ...comment, user: userWithoutPassword };
+      });
+      
+      res.status(200).json(commentsWithoutPassword);
     } catch (error) {
       res.status(500).json({ message: "Failed to get comments" });
     }
@@ -919,11 +3176,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-      
-      if (!isMember) {
+      if (!(await userCan(req, "comment:create", { teamId: project.teamId }))) {
         return res.status(403).json({ message: "Not authorized to add comment" });
       }
       
@@ -932,6 +3185,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         taskId,
         userId: req.session.userId!,
       });
+      await recordAudit(req, { action: "create", entityType: "comment", entityId: comment.id, after: comment });
       
       // Get the user for the comment
       const user = await storage.getUser(req.session.userId!);
@@ -939,6 +3193,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Failed to get user" });
       }
       
+      await notifyTaskComment(task, user);
+      
       // Don't return password
       const { password, ...userWithoutPassword } = user;
       
@@ -959,28 +3215,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Comment not found" });
       }
       
-      // Check if the user is the author of the comment
-      if (comment.userId !== req.session.userId!) {
-        // If not, check if the user is an admin
-        const task = await storage.getTask(comment.taskId);
-        if (!task) {
-          return res.status(404).json({ message: "Task not found" });
-        }
-        
-        const project = await storage.getProject(task.projectId);
-        if (!project) {
-          return res.status(404).json({ message: "Project not found" });
-        }
-        
-        const teamMembers = await storage.getTeamMembers(project.teamId);
-        const userMembership = teamMembers.find(member => member.userId === req.session.userId!);
-        
-        if (!userMembership || userMembership.role !== "admin") {
-          return res.status(403).json({ message: "Not authorized to delete comment" });
-        }
+      const task = await storage.getTask(comment.taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      
+      const project = await storage.getProject(task.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      // Authors can delete their own comments, team admins any comment
+      if (!(await userCan(req, "comment:delete", { teamId: project.teamId, ownerId: comment.userId }))) {
+        return res.status(403).json({ message: "Not authorized to delete comment" });
       }
       
       await storage.deleteComment(commentId);
+      await recordAudit(req, { action: "delete", entityType: "comment", entityId: commentId, before: comment });
+      
       res.status(200).json({ message: "Comment deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete comment" });
@@ -998,11 +3250,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-      
-      if (!isMember) {
+      if (!(await userCan(req, "project:view", { teamId: project.teamId }))) {
         return res.status(403).json({ message: "Not authorized to view files" });
       }
       
@@ -1029,11 +3277,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-      
-      if (!isMember) {
+      if (!(await userCan(req, "project:view", { teamId: project.teamId }))) {
         return res.status(403).json({ message: "Not authorized to view files" });
       }
       
@@ -1057,11 +3301,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-      
-      if (!isMember) {
+      if (!(await userCan(req, "file:upload", { teamId: project.teamId }))) {
         return res.status(403).json({ message: "Not authorized to upload file" });
       }
       
@@ -1082,6 +3322,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const file = await storage.createFile(fileData);
+      await recordAudit(req, { action: "create", entityType: "file", entityId: file.id, after: file });
+      
+      const currentUser = await storage.getUser(req.session.userId!);
+      if (currentUser) {
+        await notifyFileUploaded(file, project.teamId, currentUser);
+      }
       
       res.status(201).json(file);
     } catch (error) {
@@ -1106,20 +3352,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Check if user is member of the team that owns the project
-      const teamMembers = await storage.getTeamMembers(project.teamId);
-      const userMembership = teamMembers.find(member => member.userId === req.session.userId!);
-      
-      if (!userMembership) {
-        return res.status(403).json({ message: "Not authorized to delete file" });
-      }
-      
       // Only the uploader or team admin can delete files
-      if (file.uploadedBy !== req.session.userId! && userMembership.role !== "admin") {
+      if (!(await userCan(req, "file:delete", { teamId: project.teamId, ownerId: file.uploadedBy }))) {
         return res.status(403).json({ message: "Not authorized to delete file" });
       }
       
       await storage.deleteFile(fileId);
+      await recordAudit(req, { action: "delete", entityType: "file", entityId: fileId, before: file });
+      
       res.status(200).json({ message: "File deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete file" });
@@ -1137,11 +3377,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Team not found" });
       }
       
-      // Check if user is member of the team
-      const teamMembers = await storage.getTeamMembers(teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-      
-      if (!isMember) {
+      if (!(await userCan(req, "team:view", { teamId }))) {
         return res.status(403).json({ message: "Not authorized to view messages" });
       }
       
@@ -1172,11 +3408,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Team not found" });
       }
       
-      // Check if user is member of the team
-      const teamMembers = await storage.getTeamMembers(teamId);
-      const isMember = teamMembers.some(member => member.userId === req.session.userId!);
-      
-      if (!isMember) {
+      if (!(await userCan(req, "message:send", { teamId }))) {
         return res.status(403).json({ message: "Not authorized to send message" });
       }
       
@@ -1185,6 +3417,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         teamId,
         userId: req.session.userId!,
       });
+      await recordAudit(req, { action: "create", entityType: "message", entityId: message.id, after: message });
       
       // Get the user for the message
       const user = await storage.getUser(req.session.userId!);
@@ -1194,8 +3427,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Don't return password
       const { password, ...userWithoutPassword } = user;
+      const messageWithUser = { ...message, user: userWithoutPassword };
       
-      res.status(201).json({ ...message, user: userWithoutPassword });
+      await publishToTeam(teamId, { type: "message.created", teamId, message: messageWithUser });
+      
+      res.status(201).json(messageWithUser);
     } catch (error) {
       res.status(500).json({ message: "Failed to send message" });
     }
@@ -1212,25 +3448,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Message not found" });
       }
       
-      // Check if the user is the author of the message
-      if (message.userId !== req.session.userId!) {
-        // If not, check if the user is an admin
-        const teamMembers = await storage.getTeamMembers(message.teamId);
-        const userMembership = teamMembers.find(member => member.userId === req.session.userId!);
-        
-        if (!userMembership || userMembership.role !== "admin") {
-          return res.status(403).json({ message: "Not authorized to delete message" });
-        }
+      // Authors can delete their own messages, team admins any message
+      if (!(await userCan(req, "message:delete", { teamId: message.teamId, ownerId: message.userId }))) {
+        return res.status(403).json({ message: "Not authorized to delete message" });
       }
       
       await storage.deleteMessage(messageId);
+      await recordAudit(req, { action: "delete", entityType: "message", entityId: messageId, before: message });
+      
+      await publishToTeam(message.teamId, { type: "message.deleted", teamId: message.teamId, messageId });
+      
       res.status(200).json({ message: "Message deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete message" });
     }
   });
   
+  // Notification routes
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const notifications = await storage.getNotificationsByUser(req.session.userId!);
+      res.status(200).json(notifications);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get notifications" });
+    }
+  });
+  
+  app.post("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      const count = await storage.markAllNotificationsRead(req.session.userId!);
+      res.status(200).json({ message: "Notifications marked as read", count });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+  
+  app.post("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const notification = await storage.getNotification(parseInt(req.params.id));
+      
+      // Users can only see their own notifications
+      if (!notification || notification.userId !== req.session.userId!) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      
+      const updatedNotification = await storage.markNotificationRead(notification.id);
+      res.status(200).json(updatedNotification);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+  
   const httpServer = createServer(app);
   
+  // Push chat, task and notification events to connected clients
+  setupRealtime(httpServer, sessionMiddleware);
+  
   return httpServer;
 }
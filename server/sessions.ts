@@ -0,0 +1,151 @@
+import type { Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import MemoryStore from "memorystore";
+import type { UserSession } from "@shared/schema";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { eventBus } from "./events";
+
+// Extend the Express session to include userId
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+    // Set after a correct password when the account still needs a 2FA code
+    pendingTwoFactorUserId: number;
+    twoFactorAttempts: number;
+  }
+}
+
+export const SESSION_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// How often a session's "last seen" time is written back
+const LAST_SEEN_INTERVAL = 60 * 1000;
+
+// SESSION_STORE selects "postgres" or "memory". Postgres is the default whenever
+// a database is configured, so sessions survive restarts and are shared by all
+// instances; the in-memory store is only suitable for a single dev process.
+function createSessionStore(): session.Store {
+  const kind = process.env.SESSION_STORE || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (kind) {
+    case "postgres": {
+      const PgStore = connectPgSimple(session);
+      return new PgStore({ pool, tableName: "session", createTableIfMissing: true });
+    }
+    case "memory": {
+      const MemStore = MemoryStore(session);
+      return new MemStore({ checkPeriod: SESSION_MAX_AGE });
+    }
+    default:
+      throw new Error(`Unknown session store: ${kind}`);
+  }
+}
+
+export const sessionStore = createSessionStore();
+
+export function createSessionMiddleware() {
+  return session({
+    secret: process.env.SESSION_SECRET || "teamflow-secret",
+    resave: false,
+    saveUninitialized: false,
+    cookie: { secure: process.env.NODE_ENV === "production", maxAge: SESSION_MAX_AGE },
+    store: sessionStore,
+  });
+}
+
+const lastRecorded = new Map<string, number>();
+
+// Records device details and the last seen time of logged-in sessions
+export function trackSession(req: Request, _res: Response, next: NextFunction) {
+  const userId = req.session?.userId;
+  if (userId) {
+    const now = Date.now();
+    const previous = lastRecorded.get(req.sessionID);
+    if (!previous || now - previous > LAST_SEEN_INTERVAL) {
+      lastRecorded.set(req.sessionID, now);
+      storage
+        .recordUserSession({
+          sid: req.sessionID,
+          userId,
+          userAgent: req.get("user-agent") || null,
+          ipAddress: req.ip || null,
+        })
+        .catch(error => console.error("Failed to record session:", error));
+    }
+  }
+  next();
+}
+
+function sessionExists(sid: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    sessionStore.get(sid, (err, data) => resolve(!err && !!data?.userId));
+  });
+}
+
+function destroySession(sid: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Sessions of a user that are still live in the store. Entries whose session
+// has expired or was destroyed elsewhere are cleaned up along the way.
+export async function getActiveSessions(userId: number): Promise<UserSession[]> {
+  const recorded = await storage.getUserSessionsByUser(userId);
+  const active: UserSession[] = [];
+
+  for (const entry of recorded) {
+    if (await sessionExists(entry.sid)) {
+      active.push(entry);
+    } else {
+      await storage.deleteUserSession(entry.sid);
+      lastRecorded.delete(entry.sid);
+    }
+  }
+  return active;
+}
+
+export async function revokeSession(sid: string) {
+  await destroySession(sid);
+  await storage.deleteUserSession(sid);
+  lastRecorded.delete(sid);
+  eventBus.publishSessionRevoked({ sid });
+}
+
+// Logs a user out of every session, optionally keeping the current one
+export async function revokeUserSessions(userId: number, exceptSid?: string) {
+  const recorded = await storage.getUserSessionsByUser(userId);
+  for (const entry of recorded) {
+    if (entry.sid !== exceptSid) {
+      await revokeSession(entry.sid);
+    }
+  }
+  // Also reaches sockets of sessions that were never recorded
+  eventBus.publishSessionRevoked({ userId, exceptSid });
+}
+
+// Short description such as "Chrome on macOS" for the sessions list
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /CrOS/.test(userAgent) ? "ChromeOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+}
@@ -0,0 +1,55 @@
+import type { Request } from "express";
+import type { Sprint, SprintReport, Task } from "@shared/schema";
+import { storage } from "./storage";
+import { eventBus } from "./events";
+import { recordAudit } from "./audit";
+import { isDoneStatus } from "@shared/workflow";
+import { getProjectWorkflow } from "./workflow";
+
+const totalEstimate = (tasks: Task[]) => tasks.reduce((sum, task) => sum + (task.estimate ?? 0), 0);
+
+// Why tasks of a project can't be planned into `sprintId`, or null if they
+// can. Closed sprints are history and don't take new tasks.
+export async function getSprintAssignmentError(projectId: number, sprintId: number): Promise<string | null> {
+  const sprint = await storage.getSprint(sprintId);
+  if (!sprint) return "Sprint not found";
+  if (sprint.projectId !== projectId) return "A task can only be planned into a sprint of its own project";
+  if (sprint.state === "closed") return "This sprint is closed";
+  return null;
+}
+
+export async function getSprintTasks(sprint: Sprint): Promise<Task[]> {
+  const tasks = await storage.getTasksByProject(sprint.projectId);
+  return tasks.filter(task => task.sprintId === sprint.id);
+}
+
+// Closes a sprint: its unfinished tasks move on to `moveToSprintId`, or to
+// the backlog when that is null, and a report of what was done is kept on
+// the sprint. Completed tasks stay in the sprint they were finished in.
+export async function closeSprint(req: Request, sprint: Sprint, moveToSprintId: number | null): Promise<Sprint | undefined> {
+  const tasks = await getSprintTasks(sprint);
+  const workflow = await getProjectWorkflow(sprint.projectId);
+  const completed = tasks.filter(task => isDoneStatus(workflow, task.status));
+  const unfinished = tasks.filter(task => !isDoneStatus(workflow, task.status));
+
+  const report: SprintReport = {
+    committedTaskIds: tasks.map(task => task.id),
+    completedTaskIds: completed.map(task => task.id),
+    carriedOverTaskIds: unfinished.map(task => task.id),
+    committedEstimate: totalEstimate(tasks),
+    completedEstimate: totalEstimate(completed),
+    carriedOverTo: moveToSprintId,
+  };
+
+  for (const task of unfinished) {
+    const updatedTask = await storage.updateTask(task.id, { sprintId: moveToSprintId });
+    if (!updatedTask) continue;
+
+    await recordAudit(req, { action: "update", entityType: "task", entityId: task.id, before: task, after: updatedTask });
+    eventBus.publishTaskEvent({ type: "task.updated", projectId: updatedTask.projectId, task: updatedTask });
+  }
+
+  const closedSprint = await storage.updateSprint(sprint.id, { state: "closed", closedAt: new Date(), report });
+  await recordAudit(req, { action: "update", entityType: "sprint", entityId: sprint.id, before: sprint, after: closedSprint });
+  return closedSprint;
+}
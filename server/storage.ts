@@ -7,10 +7,28 @@ import {
   Comment, InsertComment,
   File, InsertFile,
   Message, InsertMessage,
-  users, teams, teamMembers, projects, tasks, comments, files, messages
+  Notification, InsertNotification,
+  TeamInvitation, InsertTeamInvitation,
+  TwoFactorAuth, InsertTwoFactorAuth,
+  UserSession, InsertUserSession,
+  ApiToken, InsertApiToken,
+  AuditEvent, InsertAuditEvent,
+  TaskEvent, InsertTaskEvent,
+  ChecklistItem, InsertChecklistItem,
+  TaskDependency, InsertTaskDependency,
+  TaskRecurrence, InsertTaskRecurrence,
+  Sprint, InsertSprint,
+  ProjectFlowSnapshot, InsertProjectFlowSnapshot,
+  TimeEntry, InsertTimeEntry,
+  users, teams, teamMembers, projects, tasks, comments, files, messages, notifications,
+  teamInvitations, twoFactorAuth, userSessions, apiTokens, auditEvents, taskEvents,
+  checklistItems, taskDependencies, taskRecurrences, timeEntries, sprints,
+  projectFlowSnapshots
 } from "@shared/schema";
+import { byOrder, placeTask } from "@shared/task-order";
 import { db } from "./db";
-import { eq, and, desc, sql, asc, inArray } from "drizzle-orm";
+import { hashPassword } from "./auth";
+import { eq, and, or, desc, sql, asc, inArray, gte, lte, isNull } from "drizzle-orm";
 
 
 export interface IStorage {
@@ -36,28 +54,87 @@ export interface IStorage {
   removeTeamMember(teamId: number, userId: number): Promise<boolean>;
   updateTeamMemberRole(teamId: number, userId: number, role: string): Promise<TeamMember | undefined>;
   
+  // Team Invitation operations
+  getTeamInvitation(id: number): Promise<TeamInvitation | undefined>;
+  getTeamInvitationsByTeam(teamId: number): Promise<(TeamInvitation & { user: User })[]>;
+  getTeamInvitationsByUser(userId: number): Promise<(TeamInvitation & { team: Team; inviter: User })[]>;
+  createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation>;
+  updateTeamInvitationStatus(id: number, status: string): Promise<TeamInvitation | undefined>;
+  
   // Project operations
   getProject(id: number): Promise<Project | undefined>;
   getProjectsByTeam(teamId: number): Promise<Project[]>;
+  getAllProjects(): Promise<Project[]>;
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: number, project: Partial<Project>): Promise<Project | undefined>;
   deleteProject(id: number): Promise<boolean>;
   
+  // Project flow snapshot operations
+  getProjectFlowSnapshots(projectId: number, fromDay: string, toDay: string): Promise<ProjectFlowSnapshot[]>;
+  saveProjectFlowSnapshot(snapshot: InsertProjectFlowSnapshot): Promise<ProjectFlowSnapshot>;
+  
   // Task operations
   getTask(id: number): Promise<Task | undefined>;
   getTasksByProject(projectId: number): Promise<Task[]>;
   getTasksByAssignee(assigneeId: number): Promise<Task[]>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: number, task: Partial<Task>): Promise<Task | undefined>;
-  updateTaskStatus(id: number, status: string, order: number): Promise<Task | undefined>;
+  // Applies the updates one after the other, all or none of them, and
+  // returns the tasks that were found
+  updateTasks(updates: TaskUpdate[]): Promise<Task[]>;
+  // Puts a task in front of `beforeTaskId` in the column of its new status
+  // (and project, if that changes too), or at the end of it, and renumbers
+  // that column
+  moveTask(id: number, changes: TaskMoveChanges, beforeTaskId: number | null): Promise<TaskMove | undefined>;
   deleteTask(id: number): Promise<boolean>;
   
+  // Task recurrence operations
+  getTaskRecurrence(id: number): Promise<TaskRecurrence | undefined>;
+  getActiveTaskRecurrences(): Promise<TaskRecurrence[]>;
+  getTasksByRecurrence(recurrenceId: number): Promise<Task[]>;
+  createTaskRecurrence(recurrence: InsertTaskRecurrence): Promise<TaskRecurrence>;
+  updateTaskRecurrence(id: number, recurrence: Partial<TaskRecurrence>): Promise<TaskRecurrence | undefined>;
+  
+  // Sprint operations
+  getSprint(id: number): Promise<Sprint | undefined>;
+  getSprintsByProject(projectId: number): Promise<Sprint[]>;
+  createSprint(sprint: InsertSprint): Promise<Sprint>;
+  updateSprint(id: number, sprint: Partial<Sprint>): Promise<Sprint | undefined>;
+  deleteSprint(id: number): Promise<boolean>;
+  
+  // Task dependency operations
+  getTaskDependency(id: number): Promise<TaskDependency | undefined>;
+  getTaskDependenciesByTasks(taskIds: number[]): Promise<TaskDependency[]>;
+  createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency>;
+  deleteTaskDependency(id: number): Promise<boolean>;
+  
+  // Checklist operations
+  getChecklistItem(id: number): Promise<ChecklistItem | undefined>;
+  getChecklistItemsByTask(taskId: number): Promise<ChecklistItem[]>;
+  getChecklistItemsByTasks(taskIds: number[]): Promise<ChecklistItem[]>;
+  createChecklistItem(item: InsertChecklistItem): Promise<ChecklistItem>;
+  updateChecklistItem(id: number, item: Partial<ChecklistItem>): Promise<ChecklistItem | undefined>;
+  deleteChecklistItem(id: number): Promise<boolean>;
+  
+  // Time tracking operations
+  getTimeEntry(id: number): Promise<TimeEntry | undefined>;
+  getTimeEntries(filter: TimeEntryFilter): Promise<TimeEntry[]>;
+  getRunningTimeEntry(userId: number): Promise<TimeEntry | undefined>;
+  createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry>;
+  updateTimeEntry(id: number, entry: Partial<TimeEntry>): Promise<TimeEntry | undefined>;
+  deleteTimeEntry(id: number): Promise<boolean>;
+  
   // Comment operations
   getComment(id: number): Promise<Comment | undefined>;
   getCommentsByTask(taskId: number): Promise<(Comment & { user: User })[]>;
   createComment(comment: InsertComment): Promise<Comment>;
   deleteComment(id: number): Promise<boolean>;
   
+  // Task history operations
+  getTaskEventsByTask(taskId: number): Promise<(TaskEvent & { user: User | null })[]>;
+  getTaskEventsByTasks(taskIds: number[], field: string): Promise<TaskEvent[]>;
+  createTaskEvents(events: InsertTaskEvent[]): Promise<TaskEvent[]>;
+  
   // File operations
   getFile(id: number): Promise<File | undefined>;
   getFilesByProject(projectId: number): Promise<File[]>;
@@ -70,58 +147,157 @@ export interface IStorage {
   getMessagesByTeam(teamId: number): Promise<(Message & { user: User })[]>;
   createMessage(message: InsertMessage): Promise<Message>;
   deleteMessage(id: number): Promise<boolean>;
+  
+  // Notification operations
+  getNotification(id: number): Promise<Notification | undefined>;
+  getNotificationsByUser(userId: number): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationRead(id: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  
+  // Two-factor authentication operations
+  getTwoFactorAuth(userId: number): Promise<TwoFactorAuth | undefined>;
+  saveTwoFactorSecret(data: InsertTwoFactorAuth): Promise<TwoFactorAuth>;
+  updateTwoFactorAuth(userId: number, data: Partial<TwoFactorAuth>): Promise<TwoFactorAuth | undefined>;
+  deleteTwoFactorAuth(userId: number): Promise<boolean>;
+  
+  // Session metadata operations
+  getUserSession(id: number): Promise<UserSession | undefined>;
+  getUserSessionsByUser(userId: number): Promise<UserSession[]>;
+  recordUserSession(session: InsertUserSession): Promise<UserSession>;
+  deleteUserSession(sid: string): Promise<boolean>;
+  
+  // API token operations
+  getApiToken(id: number): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokensByUser(userId: number): Promise<ApiToken[]>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  touchApiToken(id: number): Promise<void>;
+  deleteApiToken(id: number): Promise<boolean>;
+  
+  // Audit log operations (append-only, there is no update or delete)
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]>;
+}
+
+// `from` and `to` apply to when the time entry started
+export interface TimeEntryFilter {
+  userId?: number;
+  taskIds?: number[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface TaskUpdate {
+  id: number;
+  changes: Partial<Task>;
+}
+
+export type TaskMoveChanges = Partial<Task> & { status: string };
+
+export interface TaskMove {
+  task: Task;
+  column: number[]; // ids of the tasks in the column, in their new order
+}
+
+export interface AuditEventFilter {
+  actorId?: number;
+  entityType?: string;
+  entityId?: number;
+  from?: Date;
+  to?: Date;
+  limit?: number;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private teams: Map<number, Team>;
   private teamMembers: Map<number, TeamMember>;
+  private teamInvitations: Map<number, TeamInvitation>;
   private projects: Map<number, Project>;
   private tasks: Map<number, Task>;
   private comments: Map<number, Comment>;
   private files: Map<number, File>;
   private messages: Map<number, Message>;
+  private notifications: Map<number, Notification>;
+  private twoFactorAuth: Map<number, TwoFactorAuth>;
+  private userSessions: Map<number, UserSession>;
+  private apiTokens: Map<number, ApiToken>;
+  private auditEvents: Map<number, AuditEvent>;
+  private taskEvents: Map<number, TaskEvent>;
+  private checklistItems: Map<number, ChecklistItem>;
+  private taskDependencies: Map<number, TaskDependency>;
+  private taskRecurrences: Map<number, TaskRecurrence>;
+  private timeEntries: Map<number, TimeEntry>;
+  private sprints: Map<number, Sprint>;
+  private projectFlowSnapshots: Map<number, ProjectFlowSnapshot>;
   
   private userIdCounter: number;
   private teamIdCounter: number;
   private teamMemberIdCounter: number;
+  private teamInvitationIdCounter: number;
   private projectIdCounter: number;
   private taskIdCounter: number;
   private commentIdCounter: number;
   private fileIdCounter: number;
   private messageIdCounter: number;
+  private notificationIdCounter: number;
+  private twoFactorAuthIdCounter: number;
+  private userSessionIdCounter: number;
+  private apiTokenIdCounter: number;
+  private auditEventIdCounter: number;
+  private taskEventIdCounter: number;
+  private checklistItemIdCounter: number;
+  private taskDependencyIdCounter: number;
+  private taskRecurrenceIdCounter: number;
+  private timeEntryIdCounter: number;
+  private sprintIdCounter: number;
+  private projectFlowSnapshotIdCounter: number;
   
   constructor() {
     this.users = new Map();
     this.teams = new Map();
     this.teamMembers = new Map();
+    this.teamInvitations = new Map();
     this.projects = new Map();
     this.tasks = new Map();
     this.comments = new Map();
     this.files = new Map();
     this.messages = new Map();
+    this.notifications = new Map();
+    this.twoFactorAuth = new Map();
+    this.userSessions = new Map();
+    this.apiTokens = new Map();
+    this.auditEvents = new Map();
+    this.taskEvents = new Map();
+    this.checklistItems = new Map();
+    this.taskDependencies = new Map();
+    this.taskRecurrences = new Map();
+    this.timeEntries = new Map();
+    this.sprints = new Map();
+    this.projectFlowSnapshots = new Map();
     
     this.userIdCounter = 1;
     this.teamIdCounter = 1;
     this.teamMemberIdCounter = 1;
+    this.teamInvitationIdCounter = 1;
     this.projectIdCounter = 1;
     this.taskIdCounter = 1;
     this.commentIdCounter = 1;
     this.fileIdCounter = 1;
     this.messageIdCounter = 1;
-
-    // Add some initial data for testing
-    const adminUser: User = {
-      id: this.userIdCounter++,
-      username: "admin",
-      password: "admin123",
-      email: "admin@teamflow.com",
-      fullName: "Admin User",
-      role: "admin",
-      userType: "organization",
-      avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=admin",
-    };
-    this.users.set(adminUser.id, adminUser);
+    this.notificationIdCounter = 1;
+    this.twoFactorAuthIdCounter = 1;
+    this.userSessionIdCounter = 1;
+    this.apiTokenIdCounter = 1;
+    this.auditEventIdCounter = 1;
+    this.taskEventIdCounter = 1;
+    this.checklistItemIdCounter = 1;
+    this.taskDependencyIdCounter = 1;
+    this.taskRecurrenceIdCounter = 1;
+    this.timeEntryIdCounter = 1;
+    this.sprintIdCounter = 1;
+    this.projectFlowSnapshotIdCounter = 1;
   }
   
   // User methods
@@ -147,7 +323,12 @@ export class MemStorage implements IStorage {
   
   async createUser(user: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
-    const newUser: User = { ...user, id };
+    const newUser: User = {
+      ...user,
+      id,
+      password: await hashPassword(user.password),
+      emailVerifiedAt: null
+    };
     this.users.set(id, newUser);
     return newUser;
   }
@@ -157,6 +338,9 @@ export class MemStorage implements IStorage {
     if (!existingUser) return undefined;
     
     const updatedUser = { ...existingUser, ...user };
+    if (user.password) {
+      updatedUser.password = await hashPassword(user.password);
+    }
     this.users.set(id, updatedUser);
     return updatedUser;
   }
@@ -171,6 +355,11 @@ export class MemStorage implements IStorage {
       this.teamMembers.delete(tm.id);
     }
     
+    this.twoFactorAuth.delete(id);
+    Array.from(this.apiTokens.values())
+      .filter(token => token.userId === id)
+      .forEach(token => this.apiTokens.delete(token.id));
+    
     // Delete the user
     return this.users.delete(id);
   }
@@ -257,6 +446,60 @@ export class MemStorage implements IStorage {
     return updatedTeamMember;
   }
   
+  // Team Invitation methods
+  async getTeamInvitation(id: number): Promise<TeamInvitation | undefined> {
+    return this.teamInvitations.get(id);
+  }
+  
+  async getTeamInvitationsByTeam(teamId: number): Promise<(TeamInvitation & { user: User })[]> {
+    const invitations = Array.from(this.teamInvitations.values()).filter(
+      (invitation) => invitation.teamId === teamId,
+    );
+    
+    return invitations.map((invitation) => {
+      const user = this.users.get(invitation.userId);
+      if (!user) throw new Error(`User not found for invitation: ${invitation.id}`);
+      return { ...invitation, user };
+    });
+  }
+  
+  async getTeamInvitationsByUser(userId: number): Promise<(TeamInvitation & { team: Team; inviter: User })[]> {
+    const invitations = Array.from(this.teamInvitations.values()).filter(
+      (invitation) => invitation.userId === userId,
+    );
+    
+    return invitations.map((invitation) => {
+      const team = this.teams.get(invitation.teamId);
+      const inviter = this.users.get(invitation.invitedBy);
+      if (!team || !inviter) throw new Error(`Team or inviter not found for invitation: ${invitation.id}`);
+      return { ...invitation, team, inviter };
+    });
+  }
+  
+  async createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation> {
+    const id = this.teamInvitationIdCounter++;
+    const newInvitation: TeamInvitation = {
+      ...invitation,
+      id,
+      role: invitation.role ?? "member",
+      status: invitation.status ?? "pending",
+      expiresAt: invitation.expiresAt ?? null,
+      respondedAt: null,
+      createdAt: new Date(),
+    };
+    this.teamInvitations.set(id, newInvitation);
+    return newInvitation;
+  }
+  
+  async updateTeamInvitationStatus(id: number, status: string): Promise<TeamInvitation | undefined> {
+    const existingInvitation = this.teamInvitations.get(id);
+    if (!existingInvitation) return undefined;
+    
+    const updatedInvitation = { ...existingInvitation, status, respondedAt: new Date() };
+    this.teamInvitations.set(id, updatedInvitation);
+    return updatedInvitation;
+  }
+  
   // Project methods
   async getProject(id: number): Promise<Project | undefined> {
     return this.projects.get(id);
@@ -268,9 +511,13 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getAllProjects(): Promise<Project[]> {
+    return Array.from(this.projects.values());
+  }
+  
   async createProject(project: InsertProject): Promise<Project> {
     const id = this.projectIdCounter++;
-    const newProject: Project = { ...project, id };
+    const newProject: Project = { ...project, id, workflow: null };
     this.projects.set(id, newProject);
     return newProject;
   }
@@ -288,15 +535,40 @@ export class MemStorage implements IStorage {
     return this.projects.delete(id);
   }
   
+  // Project flow snapshot methods
+  async getProjectFlowSnapshots(projectId: number, fromDay: string, toDay: string): Promise<ProjectFlowSnapshot[]> {
+    return Array.from(this.projectFlowSnapshots.values())
+      .filter((snapshot) => snapshot.projectId === projectId && snapshot.day >= fromDay && snapshot.day <= toDay)
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+  
+  // Replaces the snapshot of the same project and day, if there is one
+  async saveProjectFlowSnapshot(snapshot: InsertProjectFlowSnapshot): Promise<ProjectFlowSnapshot> {
+    const existing = Array.from(this.projectFlowSnapshots.values()).find(
+      (s) => s.projectId === snapshot.projectId && s.day === snapshot.day,
+    );
+    const id = existing ? existing.id : this.projectFlowSnapshotIdCounter++;
+    const savedSnapshot: ProjectFlowSnapshot = {
+      id,
+      projectId: snapshot.projectId,
+      day: snapshot.day,
+      statusCounts: snapshot.statusCounts,
+      statusEstimates: snapshot.statusEstimates,
+      updatedAt: new Date()
+    };
+    this.projectFlowSnapshots.set(id, savedSnapshot);
+    return savedSnapshot;
+  }
+  
   // Task methods
   async getTask(id: number): Promise<Task | undefined> {
     return this.tasks.get(id);
   }
   
   async getTasksByProject(projectId: number): Promise<Task[]> {
-    return Array.from(this.tasks.values()).filter(
-      (task) => task.projectId === projectId,
-    );
+    return Array.from(this.tasks.values())
+      .filter((task) => task.projectId === projectId)
+      .sort(byOrder);
   }
   
   async getTasksByAssignee(assigneeId: number): Promise<Task[]> {
@@ -307,7 +579,7 @@ export class MemStorage implements IStorage {
   
   async createTask(task: InsertTask): Promise<Task> {
     const id = this.taskIdCounter++;
-    const newTask: Task = { ...task, id };
+    const newTask: Task = { ...task, id, createdAt: new Date() };
     this.tasks.set(id, newTask);
     return newTask;
   }
@@ -321,19 +593,261 @@ export class MemStorage implements IStorage {
     return updatedTask;
   }
   
-  async updateTaskStatus(id: number, status: string, order: number): Promise<Task | undefined> {
+  async updateTasks(updates: TaskUpdate[]): Promise<Task[]> {
+    const updatedTasks: Task[] = [];
+    for (const { id, changes } of updates) {
+      const updatedTask = await this.updateTask(id, changes);
+      if (updatedTask) updatedTasks.push(updatedTask);
+    }
+    return updatedTasks;
+  }
+  
+  async moveTask(id: number, changes: TaskMoveChanges, beforeTaskId: number | null): Promise<TaskMove | undefined> {
     const existingTask = this.tasks.get(id);
     if (!existingTask) return undefined;
     
-    const updatedTask = { ...existingTask, status, order };
-    this.tasks.set(id, updatedTask);
-    return updatedTask;
+    const projectId = changes.projectId ?? existingTask.projectId;
+    const columnTasks = Array.from(this.tasks.values()).filter(
+      (task) => task.projectId === projectId && task.status === changes.status
+    );
+    const column = placeTask(columnTasks, id, beforeTaskId);
+    column.forEach((taskId, order) => {
+      const task = this.tasks.get(taskId)!;
+      this.tasks.set(taskId, taskId === id ? { ...task, ...changes, order } : { ...task, order });
+    });
+    return { task: this.tasks.get(id)!, column };
   }
   
   async deleteTask(id: number): Promise<boolean> {
+    // Subtasks outlive their parent as regular tasks; checklist items and
+    // logged time don't
+    Array.from(this.tasks.values())
+      .filter((task) => task.parentTaskId === id)
+      .forEach((task) => this.tasks.set(task.id, { ...task, parentTaskId: null }));
+    Array.from(this.checklistItems.values())
+      .filter((item) => item.taskId === id)
+      .forEach((item) => this.checklistItems.delete(item.id));
+    Array.from(this.taskDependencies.values())
+      .filter((dependency) => dependency.blockerTaskId === id || dependency.blockedTaskId === id)
+      .forEach((dependency) => this.taskDependencies.delete(dependency.id));
+    Array.from(this.timeEntries.values())
+      .filter((entry) => entry.taskId === id)
+      .forEach((entry) => this.timeEntries.delete(entry.id));
     return this.tasks.delete(id);
   }
   
+  // Task recurrence methods
+  async getTaskRecurrence(id: number): Promise<TaskRecurrence | undefined> {
+    return this.taskRecurrences.get(id);
+  }
+  
+  async getActiveTaskRecurrences(): Promise<TaskRecurrence[]> {
+    return Array.from(this.taskRecurrences.values()).filter(
+      (recurrence) => recurrence.endedAt === null,
+    );
+  }
+  
+  async getTasksByRecurrence(recurrenceId: number): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter(
+      (task) => task.recurrenceId === recurrenceId,
+    );
+  }
+  
+  async createTaskRecurrence(recurrence: InsertTaskRecurrence): Promise<TaskRecurrence> {
+    const id = this.taskRecurrenceIdCounter++;
+    const newRecurrence: TaskRecurrence = {
+      id,
+      projectId: recurrence.projectId,
+      rule: recurrence.rule,
+      startDate: recurrence.startDate,
+      title: recurrence.title,
+      description: recurrence.description ?? null,
+      assigneeId: recurrence.assigneeId ?? null,
+      priority: recurrence.priority ?? "medium",
+      tags: recurrence.tags ?? null,
+      estimate: recurrence.estimate ?? null,
+      occurrenceCount: 1,
+      lastTaskId: recurrence.lastTaskId ?? null,
+      lastDueDate: recurrence.lastDueDate,
+      endedAt: null,
+      createdBy: recurrence.createdBy,
+      createdAt: new Date()
+    };
+    this.taskRecurrences.set(id, newRecurrence);
+    return newRecurrence;
+  }
+  
+  async updateTaskRecurrence(id: number, recurrence: Partial<TaskRecurrence>): Promise<TaskRecurrence | undefined> {
+    const existingRecurrence = this.taskRecurrences.get(id);
+    if (!existingRecurrence) return undefined;
+    
+    const updatedRecurrence = { ...existingRecurrence, ...recurrence };
+    this.taskRecurrences.set(id, updatedRecurrence);
+    return updatedRecurrence;
+  }
+  
+  // Sprint methods
+  async getSprint(id: number): Promise<Sprint | undefined> {
+    return this.sprints.get(id);
+  }
+  
+  async getSprintsByProject(projectId: number): Promise<Sprint[]> {
+    return Array.from(this.sprints.values())
+      .filter((sprint) => sprint.projectId === projectId)
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  }
+  
+  async createSprint(sprint: InsertSprint): Promise<Sprint> {
+    const id = this.sprintIdCounter++;
+    const newSprint: Sprint = {
+      id,
+      projectId: sprint.projectId,
+      name: sprint.name,
+      goal: sprint.goal ?? null,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      state: "planned",
+      closedAt: null,
+      report: null,
+      createdBy: sprint.createdBy,
+      createdAt: new Date()
+    };
+    this.sprints.set(id, newSprint);
+    return newSprint;
+  }
+  
+  async updateSprint(id: number, sprint: Partial<Sprint>): Promise<Sprint | undefined> {
+    const existingSprint = this.sprints.get(id);
+    if (!existingSprint) return undefined;
+    
+    const updatedSprint = { ...existingSprint, ...sprint };
+    this.sprints.set(id, updatedSprint);
+    return updatedSprint;
+  }
+  
+  async deleteSprint(id: number): Promise<boolean> {
+    // The sprint's tasks go back to the backlog
+    Array.from(this.tasks.values())
+      .filter((task) => task.sprintId === id)
+      .forEach((task) => this.tasks.set(task.id, { ...task, sprintId: null }));
+    return this.sprints.delete(id);
+  }
+  
+  // Task dependency methods
+  async getTaskDependency(id: number): Promise<TaskDependency | undefined> {
+    return this.taskDependencies.get(id);
+  }
+  
+  async getTaskDependenciesByTasks(taskIds: number[]): Promise<TaskDependency[]> {
+    return Array.from(this.taskDependencies.values()).filter(
+      (dependency) => taskIds.includes(dependency.blockerTaskId) || taskIds.includes(dependency.blockedTaskId),
+    );
+  }
+  
+  async createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency> {
+    const id = this.taskDependencyIdCounter++;
+    const newDependency: TaskDependency = { ...dependency, id, createdAt: new Date() };
+    this.taskDependencies.set(id, newDependency);
+    return newDependency;
+  }
+  
+  async deleteTaskDependency(id: number): Promise<boolean> {
+    return this.taskDependencies.delete(id);
+  }
+  
+  // Checklist methods
+  async getChecklistItem(id: number): Promise<ChecklistItem | undefined> {
+    return this.checklistItems.get(id);
+  }
+  
+  async getChecklistItemsByTask(taskId: number): Promise<ChecklistItem[]> {
+    return this.getChecklistItemsByTasks([taskId]);
+  }
+  
+  async getChecklistItemsByTasks(taskIds: number[]): Promise<ChecklistItem[]> {
+    return Array.from(this.checklistItems.values())
+      .filter((item) => taskIds.includes(item.taskId))
+      .sort((a, b) => a.order - b.order || a.id - b.id);
+  }
+  
+  async createChecklistItem(item: InsertChecklistItem): Promise<ChecklistItem> {
+    const id = this.checklistItemIdCounter++;
+    const newItem: ChecklistItem = {
+      id,
+      taskId: item.taskId,
+      text: item.text,
+      done: item.done ?? false,
+      order: item.order ?? 0,
+      createdAt: new Date()
+    };
+    this.checklistItems.set(id, newItem);
+    return newItem;
+  }
+  
+  async updateChecklistItem(id: number, item: Partial<ChecklistItem>): Promise<ChecklistItem | undefined> {
+    const existingItem = this.checklistItems.get(id);
+    if (!existingItem) return undefined;
+    
+    const updatedItem = { ...existingItem, ...item };
+    this.checklistItems.set(id, updatedItem);
+    return updatedItem;
+  }
+  
+  async deleteChecklistItem(id: number): Promise<boolean> {
+    return this.checklistItems.delete(id);
+  }
+  
+  // Time tracking methods
+  async getTimeEntry(id: number): Promise<TimeEntry | undefined> {
+    return this.timeEntries.get(id);
+  }
+  
+  async getTimeEntries(filter: TimeEntryFilter): Promise<TimeEntry[]> {
+    return Array.from(this.timeEntries.values())
+      .filter((entry) =>
+        (filter.userId === undefined || entry.userId === filter.userId) &&
+        (filter.taskIds === undefined || filter.taskIds.includes(entry.taskId)) &&
+        (filter.from === undefined || entry.startedAt >= filter.from) &&
+        (filter.to === undefined || entry.startedAt <= filter.to)
+      )
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime() || a.id - b.id);
+  }
+  
+  async getRunningTimeEntry(userId: number): Promise<TimeEntry | undefined> {
+    return Array.from(this.timeEntries.values()).find(
+      (entry) => entry.userId === userId && entry.endedAt === null,
+    );
+  }
+  
+  async createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry> {
+    const id = this.timeEntryIdCounter++;
+    const newEntry: TimeEntry = {
+      id,
+      userId: entry.userId,
+      taskId: entry.taskId,
+      startedAt: entry.startedAt,
+      endedAt: entry.endedAt ?? null,
+      duration: entry.duration ?? null,
+      note: entry.note ?? null,
+      createdAt: new Date()
+    };
+    this.timeEntries.set(id, newEntry);
+    return newEntry;
+  }
+  
+  async updateTimeEntry(id: number, entry: Partial<TimeEntry>): Promise<TimeEntry | undefined> {
+    const existingEntry = this.timeEntries.get(id);
+    if (!existingEntry) return undefined;
+    
+    const updatedEntry = { ...existingEntry, ...entry };
+    this.timeEntries.set(id, updatedEntry);
+    return updatedEntry;
+  }
+  
+  async deleteTimeEntry(id: number): Promise<boolean> {
+    return this.timeEntries.delete(id);
+  }
+  
   // Comment methods
   async getComment(id: number): Promise<Comment | undefined> {
     return this.comments.get(id);
@@ -362,6 +876,41 @@ export class MemStorage implements IStorage {
     return this.comments.delete(id);
   }
   
+  // Task history methods
+  async getTaskEventsByTask(taskId: number): Promise<(TaskEvent & { user: User | null })[]> {
+    return Array.from(this.taskEvents.values())
+      .filter(event => event.taskId === taskId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id)
+      .map(event => ({
+        ...event,
+        user: event.userId !== null ? this.users.get(event.userId) ?? null : null
+      }));
+  }
+  
+  async getTaskEventsByTasks(taskIds: number[], field: string): Promise<TaskEvent[]> {
+    return Array.from(this.taskEvents.values())
+      .filter(event => taskIds.includes(event.taskId) && event.field === field)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+  
+  async createTaskEvents(events: InsertTaskEvent[]): Promise<TaskEvent[]> {
+    const createdAt = new Date();
+    return events.map(event => {
+      const id = this.taskEventIdCounter++;
+      const newEvent: TaskEvent = {
+        id,
+        taskId: event.taskId,
+        userId: event.userId ?? null,
+        field: event.field,
+        oldValue: event.oldValue ?? null,
+        newValue: event.newValue ?? null,
+        createdAt
+      };
+      this.taskEvents.set(id, newEvent);
+      return newEvent;
+    });
+  }
+  
   // File methods
   async getFile(id: number): Promise<File | undefined> {
     return this.files.get(id);
@@ -417,6 +966,189 @@ export class MemStorage implements IStorage {
   async deleteMessage(id: number): Promise<boolean> {
     return this.messages.delete(id);
   }
+  
+  // Notification methods
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+  
+  async getNotificationsByUser(userId: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const id = this.notificationIdCounter++;
+    const newNotification: Notification = {
+      ...notification,
+      link: notification.link ?? null,
+      id,
+      read: false,
+      createdAt: new Date(),
+    };
+    this.notifications.set(id, newNotification);
+    return newNotification;
+  }
+  
+  async markNotificationRead(id: number): Promise<Notification | undefined> {
+    const existingNotification = this.notifications.get(id);
+    if (!existingNotification) return undefined;
+    
+    const updatedNotification = { ...existingNotification, read: true };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+  
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    let count = 0;
+    this.notifications.forEach((notification, id) => {
+      if (notification.userId === userId && !notification.read) {
+        this.notifications.set(id, { ...notification, read: true });
+        count++;
+      }
+    });
+    return count;
+  }
+  
+  // Two-factor authentication methods (keyed by user id)
+  async getTwoFactorAuth(userId: number): Promise<TwoFactorAuth | undefined> {
+    return this.twoFactorAuth.get(userId);
+  }
+  
+  // Starts (or restarts) enrollment with a new secret; 2FA stays disabled
+  // until a code generated from it has been verified
+  async saveTwoFactorSecret(data: InsertTwoFactorAuth): Promise<TwoFactorAuth> {
+    const existing = this.twoFactorAuth.get(data.userId);
+    const record: TwoFactorAuth = {
+      id: existing?.id ?? this.twoFactorAuthIdCounter++,
+      userId: data.userId,
+      secret: data.secret,
+      enabled: false,
+      recoveryCodes: null,
+      lastUsedStep: null,
+      enabledAt: null,
+      createdAt: new Date(),
+    };
+    this.twoFactorAuth.set(data.userId, record);
+    return record;
+  }
+  
+  async updateTwoFactorAuth(userId: number, data: Partial<TwoFactorAuth>): Promise<TwoFactorAuth | undefined> {
+    const existing = this.twoFactorAuth.get(userId);
+    if (!existing) return undefined;
+    
+    const updated = { ...existing, ...data, id: existing.id, userId };
+    this.twoFactorAuth.set(userId, updated);
+    return updated;
+  }
+  
+  async deleteTwoFactorAuth(userId: number): Promise<boolean> {
+    return this.twoFactorAuth.delete(userId);
+  }
+  
+  // Session metadata methods
+  async getUserSession(id: number): Promise<UserSession | undefined> {
+    return this.userSessions.get(id);
+  }
+  
+  async getUserSessionsByUser(userId: number): Promise<UserSession[]> {
+    return Array.from(this.userSessions.values())
+      .filter(session => session.userId === userId)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+  
+  // Creates the entry for a session or refreshes its last seen time
+  async recordUserSession(session: InsertUserSession): Promise<UserSession> {
+    const existing = Array.from(this.userSessions.values()).find(s => s.sid === session.sid);
+    const now = new Date();
+    const record: UserSession = {
+      id: existing?.id ?? this.userSessionIdCounter++,
+      sid: session.sid,
+      userId: session.userId,
+      userAgent: session.userAgent ?? null,
+      ipAddress: session.ipAddress ?? null,
+      createdAt: existing?.createdAt ?? now,
+      lastSeenAt: now,
+    };
+    this.userSessions.set(record.id, record);
+    return record;
+  }
+  
+  async deleteUserSession(sid: string): Promise<boolean> {
+    const existing = Array.from(this.userSessions.values()).find(s => s.sid === sid);
+    return existing ? this.userSessions.delete(existing.id) : false;
+  }
+  
+  // API token methods
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    return this.apiTokens.get(id);
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+  
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenIdCounter++;
+    const newToken: ApiToken = {
+      ...token,
+      id,
+      scope: token.scope || "read",
+      expiresAt: token.expiresAt || null,
+      lastUsedAt: null,
+      createdAt: new Date()
+    };
+    this.apiTokens.set(id, newToken);
+    return newToken;
+  }
+  
+  async touchApiToken(id: number): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) {
+      this.apiTokens.set(id, { ...token, lastUsedAt: new Date() });
+    }
+  }
+  
+  async deleteApiToken(id: number): Promise<boolean> {
+    return this.apiTokens.delete(id);
+  }
+  
+  // Audit log methods
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const id = this.auditEventIdCounter++;
+    const newEvent: AuditEvent = {
+      id,
+      actorId: event.actorId ?? null,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId ?? null,
+      changes: event.changes ?? null,
+      ipAddress: event.ipAddress ?? null,
+      createdAt: new Date()
+    };
+    this.auditEvents.set(id, newEvent);
+    return newEvent;
+  }
+  
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]> {
+    const events = Array.from(this.auditEvents.values())
+      .filter(event =>
+        (filter.actorId === undefined || event.actorId === filter.actorId) &&
+        (filter.entityType === undefined || event.entityType === filter.entityType) &&
+        (filter.entityId === undefined || event.entityId === filter.entityId) &&
+        (filter.from === undefined || event.createdAt >= filter.from) &&
+        (filter.to === undefined || event.createdAt <= filter.to)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    return filter.limit ? events.slice(0, filter.limit) : events;
+  }
 }
 
 export class DatabaseStorage implements IStorage {
@@ -441,11 +1173,19 @@ export class DatabaseStorage implements IStorage {
   }
   
   async createUser(user: InsertUser): Promise<User> {
-    const [newUser] = await db.insert(users).values(user).returning();
+    const [newUser] = await db
+      .insert(users)
+      .values({ ...user, password: await hashPassword(user.password) })
+      .returning();
     return newUser;
   }
   
   async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
+    // Passwords are always stored hashed
+    if (userData.password) {
+      userData = { ...userData, password: await hashPassword(userData.password) };
+    }
+    
     const [updatedUser] = await db
       .update(users)
       .set(userData)
@@ -459,6 +1199,14 @@ export class DatabaseStorage implements IStorage {
     await db
       .delete(teamMembers)
       .where(eq(teamMembers.userId, id));
+    
+    await db
+      .delete(twoFactorAuth)
+      .where(eq(twoFactorAuth.userId, id));
+    
+    await db
+      .delete(apiTokens)
+      .where(eq(apiTokens.userId, id));
       
     // Then delete the user
     const result = await db
@@ -572,6 +1320,63 @@ export class DatabaseStorage implements IStorage {
     return updatedTeamMember;
   }
   
+  // Team Invitation methods
+  async getTeamInvitation(id: number): Promise<TeamInvitation | undefined> {
+    const [invitation] = await db.select().from(teamInvitations).where(eq(teamInvitations.id, id));
+    return invitation;
+  }
+  
+  async getTeamInvitationsByTeam(teamId: number): Promise<(TeamInvitation & { user: User })[]> {
+    const invitationRecords = await db
+      .select({
+        invitation: teamInvitations,
+        user: users
+      })
+      .from(teamInvitations)
+      .innerJoin(users, eq(teamInvitations.userId, users.id))
+      .where(eq(teamInvitations.teamId, teamId))
+      .orderBy(desc(teamInvitations.createdAt));
+    
+    return invitationRecords.map(record => ({
+      ...record.invitation,
+      user: record.user
+    }));
+  }
+  
+  async getTeamInvitationsByUser(userId: number): Promise<(TeamInvitation & { team: Team; inviter: User })[]> {
+    const invitationRecords = await db
+      .select({
+        invitation: teamInvitations,
+        team: teams,
+        inviter: users
+      })
+      .from(teamInvitations)
+      .innerJoin(teams, eq(teamInvitations.teamId, teams.id))
+      .innerJoin(users, eq(teamInvitations.invitedBy, users.id))
+      .where(eq(teamInvitations.userId, userId))
+      .orderBy(desc(teamInvitations.createdAt));
+    
+    return invitationRecords.map(record => ({
+      ...record.invitation,
+      team: record.team,
+      inviter: record.inviter
+    }));
+  }
+  
+  async createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation> {
+    const [newInvitation] = await db.insert(teamInvitations).values(invitation).returning();
+    return newInvitation;
+  }
+  
+  async updateTeamInvitationStatus(id: number, status: string): Promise<TeamInvitation | undefined> {
+    const [updatedInvitation] = await db
+      .update(teamInvitations)
+      .set({ status, respondedAt: new Date() })
+      .where(eq(teamInvitations.id, id))
+      .returning();
+    return updatedInvitation;
+  }
+  
   // Project methods
   async getProject(id: number): Promise<Project | undefined> {
     const [project] = await db.select().from(projects).where(eq(projects.id, id));
@@ -582,6 +1387,10 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(projects).where(eq(projects.teamId, teamId));
   }
   
+  async getAllProjects(): Promise<Project[]> {
+    return db.select().from(projects);
+  }
+  
   async createProject(project: InsertProject): Promise<Project> {
     const [newProject] = await db.insert(projects).values(project).returning();
     return newProject;
@@ -601,6 +1410,36 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount !== null && result.rowCount > 0;
   }
   
+  // Project flow snapshot methods
+  async getProjectFlowSnapshots(projectId: number, fromDay: string, toDay: string): Promise<ProjectFlowSnapshot[]> {
+    return db
+      .select()
+      .from(projectFlowSnapshots)
+      .where(and(
+        eq(projectFlowSnapshots.projectId, projectId),
+        gte(projectFlowSnapshots.day, fromDay),
+        lte(projectFlowSnapshots.day, toDay)
+      ))
+      .orderBy(asc(projectFlowSnapshots.day));
+  }
+  
+  // Replaces the snapshot of the same project and day, if there is one
+  async saveProjectFlowSnapshot(snapshot: InsertProjectFlowSnapshot): Promise<ProjectFlowSnapshot> {
+    const [savedSnapshot] = await db
+      .insert(projectFlowSnapshots)
+      .values(snapshot)
+      .onConflictDoUpdate({
+        target: [projectFlowSnapshots.projectId, projectFlowSnapshots.day],
+        set: {
+          statusCounts: snapshot.statusCounts,
+          statusEstimates: snapshot.statusEstimates,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return savedSnapshot;
+  }
+  
   // Task methods
   async getTask(id: number): Promise<Task | undefined> {
     const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
@@ -612,7 +1451,7 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(tasks)
       .where(eq(tasks.projectId, projectId))
-      .orderBy(asc(tasks.order));
+      .orderBy(asc(tasks.order), asc(tasks.id));
   }
   
   async getTasksByAssignee(assigneeId: number): Promise<Task[]> {
@@ -633,20 +1472,238 @@ export class DatabaseStorage implements IStorage {
     return updatedTask;
   }
   
-  async updateTaskStatus(id: number, status: string, order: number): Promise<Task | undefined> {
-    const [updatedTask] = await db
-      .update(tasks)
-      .set({ status, order })
-      .where(eq(tasks.id, id))
-      .returning();
-    return updatedTask;
+  async updateTasks(updates: TaskUpdate[]): Promise<Task[]> {
+    return db.transaction(async (tx) => {
+      const updatedTasks: Task[] = [];
+      for (const { id, changes } of updates) {
+        const [updatedTask] = await tx.update(tasks).set(changes).where(eq(tasks.id, id)).returning();
+        if (updatedTask) updatedTasks.push(updatedTask);
+      }
+      return updatedTasks;
+    });
+  }
+  
+  async moveTask(id: number, changes: TaskMoveChanges, beforeTaskId: number | null): Promise<TaskMove | undefined> {
+    // The column's rows stay locked until it is renumbered, so concurrent
+    // moves into the same column apply one after the other
+    return db.transaction(async (tx) => {
+      const [existingTask] = await tx.select().from(tasks).where(eq(tasks.id, id)).for("update");
+      if (!existingTask) return undefined;
+      
+      const columnTasks = await tx
+        .select()
+        .from(tasks)
+        .where(and(eq(tasks.projectId, changes.projectId ?? existingTask.projectId), eq(tasks.status, changes.status)))
+        .for("update");
+      const column = placeTask(columnTasks, id, beforeTaskId);
+      
+      let movedTask = existingTask;
+      for (let order = 0; order < column.length; order++) {
+        const taskId = column[order];
+        if (taskId === id) {
+          [movedTask] = await tx
+            .update(tasks)
+            .set({ ...changes, order })
+            .where(eq(tasks.id, id))
+            .returning();
+        } else if (columnTasks.find((task) => task.id === taskId)!.order !== order) {
+          await tx.update(tasks).set({ order }).where(eq(tasks.id, taskId));
+        }
+      }
+      return { task: movedTask, column };
+    });
   }
   
   async deleteTask(id: number): Promise<boolean> {
+    // Subtasks outlive their parent as regular tasks; checklist items and
+    // logged time don't
+    await db.update(tasks).set({ parentTaskId: null }).where(eq(tasks.parentTaskId, id));
+    await db.delete(checklistItems).where(eq(checklistItems.taskId, id));
+    await db
+      .delete(taskDependencies)
+      .where(or(eq(taskDependencies.blockerTaskId, id), eq(taskDependencies.blockedTaskId, id)));
+    await db.delete(timeEntries).where(eq(timeEntries.taskId, id));
     const result = await db.delete(tasks).where(eq(tasks.id, id));
     return result.rowCount !== null && result.rowCount > 0;
   }
   
+  // Task recurrence methods
+  async getTaskRecurrence(id: number): Promise<TaskRecurrence | undefined> {
+    const [recurrence] = await db.select().from(taskRecurrences).where(eq(taskRecurrences.id, id));
+    return recurrence;
+  }
+  
+  async getActiveTaskRecurrences(): Promise<TaskRecurrence[]> {
+    return db.select().from(taskRecurrences).where(isNull(taskRecurrences.endedAt));
+  }
+  
+  async getTasksByRecurrence(recurrenceId: number): Promise<Task[]> {
+    return db.select().from(tasks).where(eq(tasks.recurrenceId, recurrenceId));
+  }
+  
+  async createTaskRecurrence(recurrence: InsertTaskRecurrence): Promise<TaskRecurrence> {
+    const [newRecurrence] = await db.insert(taskRecurrences).values(recurrence).returning();
+    return newRecurrence;
+  }
+  
+  async updateTaskRecurrence(id: number, recurrenceData: Partial<TaskRecurrence>): Promise<TaskRecurrence | undefined> {
+    const [updatedRecurrence] = await db
+      .update(taskRecurrences)
+      .set(recurrenceData)
+      .where(eq(taskRecurrences.id, id))
+      .returning();
+    return updatedRecurrence;
+  }
+  
+  // Sprint methods
+  async getSprint(id: number): Promise<Sprint | undefined> {
+    const [sprint] = await db.select().from(sprints).where(eq(sprints.id, id));
+    return sprint;
+  }
+  
+  async getSprintsByProject(projectId: number): Promise<Sprint[]> {
+    return db
+      .select()
+      .from(sprints)
+      .where(eq(sprints.projectId, projectId))
+      .orderBy(asc(sprints.startDate));
+  }
+  
+  async createSprint(sprint: InsertSprint): Promise<Sprint> {
+    const [newSprint] = await db.insert(sprints).values(sprint).returning();
+    return newSprint;
+  }
+  
+  async updateSprint(id: number, sprintData: Partial<Sprint>): Promise<Sprint | undefined> {
+    const [updatedSprint] = await db
+      .update(sprints)
+      .set(sprintData)
+      .where(eq(sprints.id, id))
+      .returning();
+    return updatedSprint;
+  }
+  
+  async deleteSprint(id: number): Promise<boolean> {
+    // The sprint's tasks go back to the backlog
+    await db.update(tasks).set({ sprintId: null }).where(eq(tasks.sprintId, id));
+    const result = await db.delete(sprints).where(eq(sprints.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+  
+  // Task dependency methods
+  async getTaskDependency(id: number): Promise<TaskDependency | undefined> {
+    const [dependency] = await db.select().from(taskDependencies).where(eq(taskDependencies.id, id));
+    return dependency;
+  }
+  
+  async getTaskDependenciesByTasks(taskIds: number[]): Promise<TaskDependency[]> {
+    if (taskIds.length === 0) return [];
+    return db
+      .select()
+      .from(taskDependencies)
+      .where(or(
+        inArray(taskDependencies.blockerTaskId, taskIds),
+        inArray(taskDependencies.blockedTaskId, taskIds)
+      ));
+  }
+  
+  async createTaskDependency(dependency: InsertTaskDependency): Promise<TaskDependency> {
+    const [newDependency] = await db.insert(taskDependencies).values(dependency).returning();
+    return newDependency;
+  }
+  
+  async deleteTaskDependency(id: number): Promise<boolean> {
+    const result = await db.delete(taskDependencies).where(eq(taskDependencies.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+  
+  // Checklist methods
+  async getChecklistItem(id: number): Promise<ChecklistItem | undefined> {
+    const [item] = await db.select().from(checklistItems).where(eq(checklistItems.id, id));
+    return item;
+  }
+  
+  async getChecklistItemsByTask(taskId: number): Promise<ChecklistItem[]> {
+    return this.getChecklistItemsByTasks([taskId]);
+  }
+  
+  async getChecklistItemsByTasks(taskIds: number[]): Promise<ChecklistItem[]> {
+    if (taskIds.length === 0) return [];
+    return db
+      .select()
+      .from(checklistItems)
+      .where(inArray(checklistItems.taskId, taskIds))
+      .orderBy(asc(checklistItems.order), asc(checklistItems.id));
+  }
+  
+  async createChecklistItem(item: InsertChecklistItem): Promise<ChecklistItem> {
+    const [newItem] = await db.insert(checklistItems).values(item).returning();
+    return newItem;
+  }
+  
+  async updateChecklistItem(id: number, itemData: Partial<ChecklistItem>): Promise<ChecklistItem | undefined> {
+    const [updatedItem] = await db
+      .update(checklistItems)
+      .set(itemData)
+      .where(eq(checklistItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+  
+  async deleteChecklistItem(id: number): Promise<boolean> {
+    const result = await db.delete(checklistItems).where(eq(checklistItems.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+  
+  // Time tracking methods
+  async getTimeEntry(id: number): Promise<TimeEntry | undefined> {
+    const [entry] = await db.select().from(timeEntries).where(eq(timeEntries.id, id));
+    return entry;
+  }
+  
+  async getTimeEntries(filter: TimeEntryFilter): Promise<TimeEntry[]> {
+    if (filter.taskIds?.length === 0) return [];
+    
+    const conditions = [];
+    if (filter.userId !== undefined) conditions.push(eq(timeEntries.userId, filter.userId));
+    if (filter.taskIds !== undefined) conditions.push(inArray(timeEntries.taskId, filter.taskIds));
+    if (filter.from !== undefined) conditions.push(gte(timeEntries.startedAt, filter.from));
+    if (filter.to !== undefined) conditions.push(lte(timeEntries.startedAt, filter.to));
+    
+    return db
+      .select()
+      .from(timeEntries)
+      .where(and(...conditions))
+      .orderBy(asc(timeEntries.startedAt), asc(timeEntries.id));
+  }
+  
+  async getRunningTimeEntry(userId: number): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.userId, userId), isNull(timeEntries.endedAt)));
+    return entry;
+  }
+  
+  async createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry> {
+    const [newEntry] = await db.insert(timeEntries).values(entry).returning();
+    return newEntry;
+  }
+  
+  async updateTimeEntry(id: number, entryData: Partial<TimeEntry>): Promise<TimeEntry | undefined> {
+    const [updatedEntry] = await db
+      .update(timeEntries)
+      .set(entryData)
+      .where(eq(timeEntries.id, id))
+      .returning();
+    return updatedEntry;
+  }
+  
+  async deleteTimeEntry(id: number): Promise<boolean> {
+    const result = await db.delete(timeEntries).where(eq(timeEntries.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+  
   // Comment methods
   async getComment(id: number): Promise<Comment | undefined> {
     const [comment] = await db.select().from(comments).where(eq(comments.id, id));
@@ -680,6 +1737,38 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount !== null && result.rowCount > 0;
   }
   
+  // Task history methods
+  async getTaskEventsByTask(taskId: number): Promise<(TaskEvent & { user: User | null })[]> {
+    const eventRecords = await db
+      .select({
+        event: taskEvents,
+        user: users
+      })
+      .from(taskEvents)
+      .leftJoin(users, eq(taskEvents.userId, users.id))
+      .where(eq(taskEvents.taskId, taskId))
+      .orderBy(asc(taskEvents.createdAt), asc(taskEvents.id));
+    
+    return eventRecords.map(record => ({
+      ...record.event,
+      user: record.user
+    }));
+  }
+  
+  async getTaskEventsByTasks(taskIds: number[], field: string): Promise<TaskEvent[]> {
+    if (taskIds.length === 0) return [];
+    return db
+      .select()
+      .from(taskEvents)
+      .where(and(inArray(taskEvents.taskId, taskIds), eq(taskEvents.field, field)))
+      .orderBy(asc(taskEvents.createdAt), asc(taskEvents.id));
+  }
+  
+  async createTaskEvents(events: InsertTaskEvent[]): Promise<TaskEvent[]> {
+    if (events.length === 0) return [];
+    return db.insert(taskEvents).values(events).returning();
+  }
+  
   // File methods
   async getFile(id: number): Promise<File | undefined> {
     const [file] = await db.select().from(files).where(eq(files.id, id));
@@ -744,6 +1833,189 @@ export class DatabaseStorage implements IStorage {
     const result = await db.delete(messages).where(eq(messages.id, id));
     return result.rowCount !== null && result.rowCount > 0;
   }
+  
+  // Notification methods
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+  
+  async getNotificationsByUser(userId: number): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt));
+  }
+  
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [newNotification] = await db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+  
+  async markNotificationRead(id: number): Promise<Notification | undefined> {
+    const [updatedNotification] = await db
+      .update(notifications)
+      .set({ read: true })
+      .where(eq(notifications.id, id))
+      .returning();
+    return updatedNotification;
+  }
+  
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const result = await db
+      .update(notifications)
+      .set({ read: true })
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          eq(notifications.read, false)
+        )
+      );
+    return result.rowCount ?? 0;
+  }
+  
+  // Two-factor authentication methods
+  async getTwoFactorAuth(userId: number): Promise<TwoFactorAuth | undefined> {
+    const [record] = await db.select().from(twoFactorAuth).where(eq(twoFactorAuth.userId, userId));
+    return record;
+  }
+  
+  // Starts (or restarts) enrollment with a new secret; 2FA stays disabled
+  // until a code generated from it has been verified
+  async saveTwoFactorSecret(data: InsertTwoFactorAuth): Promise<TwoFactorAuth> {
+    const reset = {
+      secret: data.secret,
+      enabled: false,
+      recoveryCodes: null,
+      lastUsedStep: null,
+      enabledAt: null,
+      createdAt: new Date(),
+    };
+    const [record] = await db
+      .insert(twoFactorAuth)
+      .values({ ...data, ...reset })
+      .onConflictDoUpdate({ target: twoFactorAuth.userId, set: reset })
+      .returning();
+    return record;
+  }
+  
+  async updateTwoFactorAuth(userId: number, data: Partial<TwoFactorAuth>): Promise<TwoFactorAuth | undefined> {
+    const { id, userId: _, ...updates } = data;
+    const [record] = await db
+      .update(twoFactorAuth)
+      .set(updates)
+      .where(eq(twoFactorAuth.userId, userId))
+      .returning();
+    return record;
+  }
+  
+  async deleteTwoFactorAuth(userId: number): Promise<boolean> {
+    const result = await db
+      .delete(twoFactorAuth)
+      .where(eq(twoFactorAuth.userId, userId));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+  
+  // Session metadata methods
+  async getUserSession(id: number): Promise<UserSession | undefined> {
+    const [session] = await db.select().from(userSessions).where(eq(userSessions.id, id));
+    return session;
+  }
+  
+  async getUserSessionsByUser(userId: number): Promise<UserSession[]> {
+    return await db
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.userId, userId))
+      .orderBy(desc(userSessions.lastSeenAt));
+  }
+  
+  // Creates the entry for a session or refreshes its last seen time
+  async recordUserSession(session: InsertUserSession): Promise<UserSession> {
+    const [record] = await db
+      .insert(userSessions)
+      .values(session)
+      .onConflictDoUpdate({
+        target: userSessions.sid,
+        set: {
+          userId: session.userId,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          lastSeenAt: new Date(),
+        },
+      })
+      .returning();
+    return record;
+  }
+  
+  async deleteUserSession(sid: string): Promise<boolean> {
+    const result = await db
+      .delete(userSessions)
+      .where(eq(userSessions.sid, sid));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+  
+  // API token methods
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token;
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+  
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+  
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [newToken] = await db.insert(apiTokens).values(token).returning();
+    return newToken;
+  }
+  
+  async touchApiToken(id: number): Promise<void> {
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(apiTokens.id, id));
+  }
+  
+  async deleteApiToken(id: number): Promise<boolean> {
+    const result = await db
+      .delete(apiTokens)
+      .where(eq(apiTokens.id, id));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+  
+  // Audit log methods
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [newEvent] = await db.insert(auditEvents).values(event).returning();
+    return newEvent;
+  }
+  
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEvent[]> {
+    const conditions = [];
+    if (filter.actorId !== undefined) conditions.push(eq(auditEvents.actorId, filter.actorId));
+    if (filter.entityType !== undefined) conditions.push(eq(auditEvents.entityType, filter.entityType));
+    if (filter.entityId !== undefined) conditions.push(eq(auditEvents.entityId, filter.entityId));
+    if (filter.from !== undefined) conditions.push(gte(auditEvents.createdAt, filter.from));
+    if (filter.to !== undefined) conditions.push(lte(auditEvents.createdAt, filter.to));
+    
+    const query = db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id));
+    
+    return filter.limit ? query.limit(filter.limit) : query;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,46 @@
+import type { Task } from "@shared/schema";
+import { storage } from "./storage";
+import { isTaskDone } from "./workflow";
+
+// Whether letting `blockerTaskId` block `blockedTaskId` would close a loop:
+// that is the case when the blocked task already blocks the blocker, directly
+// or through other tasks.
+export async function wouldCreateCycle(blockerTaskId: number, blockedTaskId: number): Promise<boolean> {
+  if (blockerTaskId === blockedTaskId) return true;
+
+  const visited = new Set<number>([blockedTaskId]);
+  let frontier = [blockedTaskId];
+
+  while (frontier.length > 0) {
+    const dependencies = await storage.getTaskDependenciesByTasks(frontier);
+    const next: number[] = [];
+
+    for (const dependency of dependencies) {
+      if (!frontier.includes(dependency.blockerTaskId)) continue;
+      if (dependency.blockedTaskId === blockerTaskId) return true;
+      if (!visited.has(dependency.blockedTaskId)) {
+        visited.add(dependency.blockedTaskId);
+        next.push(dependency.blockedTaskId);
+      }
+    }
+
+    frontier = next;
+  }
+
+  return false;
+}
+
+// The blockers of a task that aren't done yet, by their own project's workflow
+export async function getOpenBlockers(taskId: number): Promise<Task[]> {
+  const dependencies = await storage.getTaskDependenciesByTasks([taskId]);
+  const blockers = await Promise.all(
+    dependencies
+      .filter(dependency => dependency.blockedTaskId === taskId)
+      .map(dependency => storage.getTask(dependency.blockerTaskId))
+  );
+  const open: Task[] = [];
+  for (const blocker of blockers) {
+    if (blocker && !(await isTaskDone(blocker))) open.push(blocker);
+  }
+  return open;
+}
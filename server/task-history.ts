@@ -0,0 +1,35 @@
+import type { Request } from "express";
+import { TRACKED_TASK_FIELDS, type Task } from "@shared/schema";
+import { diffRecords } from "./audit";
+import { storage } from "./storage";
+
+// The tracked fields of a task. Empty descriptions and tag lists count as
+// unset so clearing a field from the edit form doesn't show up as a change.
+function trackedFields(task: Task): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  TRACKED_TASK_FIELDS.forEach(field => {
+    const value = task[field];
+    fields[field] = value === "" || (Array.isArray(value) && value.length === 0) ? null : value;
+  });
+  return fields;
+}
+
+// Stores one task event per tracked field that changed between two versions
+// of a task. Like the audit log, failing to record history never fails the
+// update itself.
+export async function recordTaskChanges(req: Request, before: Task, after: Task) {
+  try {
+    const changes = diffRecords(trackedFields(before), trackedFields(after));
+    await storage.createTaskEvents(
+      Object.entries(changes).map(([field, change]) => ({
+        taskId: after.id,
+        userId: req.session?.userId ?? null,
+        field,
+        oldValue: change.before ?? null,
+        newValue: change.after ?? null,
+      }))
+    );
+  } catch (error) {
+    console.error("Failed to record task history:", error);
+  }
+}
@@ -0,0 +1,56 @@
+import type { Request } from "express";
+import type { Project, Task, TimeEntry, User } from "@shared/schema";
+import { getTimeEntryDuration } from "@shared/time-tracking";
+import { storage } from "./storage";
+import { recordAudit, csvField } from "./audit";
+
+// Stops a running timer at `now`, fixing its duration
+export async function stopTimeEntry(req: Request, entry: TimeEntry, now = new Date()): Promise<TimeEntry> {
+  const stopped = await storage.updateTimeEntry(entry.id, {
+    endedAt: now,
+    duration: getTimeEntryDuration(entry, now),
+  });
+  await recordAudit(req, { action: "update", entityType: "time_entry", entityId: entry.id, before: entry, after: stopped });
+  return stopped ?? entry;
+}
+
+// Starts the user's timer on a task. Users have one timer at a time, so a
+// timer that is still running elsewhere is stopped first and returned too.
+export async function startTimer(req: Request, task: Task): Promise<{ entry: TimeEntry; stopped: TimeEntry | null }> {
+  const userId = req.session.userId!;
+  const now = new Date();
+
+  const running = await storage.getRunningTimeEntry(userId);
+  const stopped = running ? await stopTimeEntry(req, running, now) : null;
+
+  const entry = await storage.createTimeEntry({ userId, taskId: task.id, startedAt: now });
+  await recordAudit(req, { action: "create", entityType: "time_entry", entityId: entry.id, after: entry });
+  return { entry, stopped };
+}
+
+const CSV_COLUMNS = ["date", "user", "project", "task", "started_at", "ended_at", "hours", "note"];
+
+// Timesheet export with one row per entry. Hours are decimal, which is what
+// billing spreadsheets expect.
+export function timeEntriesToCsv(
+  entries: TimeEntry[],
+  tasks: Map<number, Task>,
+  projects: Map<number, Project>,
+  users: Map<number, User>
+): string {
+  const rows = entries.map(entry => {
+    const task = tasks.get(entry.taskId);
+    return [
+      entry.startedAt.toISOString().slice(0, 10),
+      users.get(entry.userId)?.username,
+      task ? projects.get(task.projectId)?.name : "",
+      task?.title,
+      entry.startedAt.toISOString(),
+      entry.endedAt?.toISOString(),
+      (getTimeEntryDuration(entry) / 3600).toFixed(2),
+      entry.note,
+    ].map(csvField).join(",");
+  });
+
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
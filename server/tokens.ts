@@ -0,0 +1,71 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Signed, expiring tokens for links sent by email (password reset, email
+// verification). Nothing is stored server-side: each token is signed together
+// with a fingerprint of the state it acts on (e.g. the current password hash),
+// so once that state changes the token stops verifying and cannot be reused.
+
+export type TokenPurpose = "password-reset" | "email-verification";
+
+interface TokenPayload {
+  purpose: TokenPurpose;
+  userId: number;
+  exp: number; // expiry, milliseconds since epoch
+  nonce: string;
+}
+
+const TOKEN_SECRET = process.env.TOKEN_SECRET || process.env.SESSION_SECRET || "teamflow-secret";
+
+function sign(encodedPayload: string, fingerprint: string): string {
+  return createHmac("sha256", TOKEN_SECRET)
+    .update(`${encodedPayload}.${fingerprint}`)
+    .digest("base64url");
+}
+
+export function createSignedToken(
+  purpose: TokenPurpose,
+  userId: number,
+  ttlMs: number,
+  fingerprint: string
+): string {
+  const payload: TokenPayload = {
+    purpose,
+    userId,
+    exp: Date.now() + ttlMs,
+    nonce: randomBytes(8).toString("hex"),
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encodedPayload}.${sign(encodedPayload, fingerprint)}`;
+}
+
+// Returns the user id the token was issued for, or null if it is malformed,
+// expired, meant for something else or no longer matches the fingerprint.
+// The fingerprint is looked up by user id because it is only known once the
+// payload has been read.
+export async function verifySignedToken(
+  token: string,
+  purpose: TokenPurpose,
+  getFingerprint: (userId: number) => Promise<string | undefined>
+): Promise<number | null> {
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) return null;
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (payload.purpose !== purpose || typeof payload.userId !== "number") return null;
+  if (typeof payload.exp !== "number" || payload.exp < Date.now()) return null;
+
+  const fingerprint = await getFingerprint(payload.userId);
+  if (fingerprint === undefined) return null;
+
+  const expected = Buffer.from(sign(encodedPayload, fingerprint));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  return payload.userId;
+}
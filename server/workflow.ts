@@ -0,0 +1,32 @@
+import type { Task, WorkflowStatus } from "@shared/schema";
+import { getWorkflow, isDoneStatus } from "@shared/workflow";
+import { storage } from "./storage";
+
+export async function getProjectWorkflow(projectId: number): Promise<WorkflowStatus[]> {
+  return getWorkflow(await storage.getProject(projectId));
+}
+
+// Whether a task is in one of its project's done statuses
+export async function isTaskDone(task: Task): Promise<boolean> {
+  return isDoneStatus(await getProjectWorkflow(task.projectId), task.status);
+}
+
+// Statuses a new workflow leaves out that tasks of the project are still in,
+// with the number of tasks in each
+export async function getStatusesInUse(projectId: number, workflow: WorkflowStatus[]): Promise<Record<string, number>> {
+  const tasks = await storage.getTasksByProject(projectId);
+  const inUse: Record<string, number> = {};
+  tasks
+    .filter(task => !workflow.some(status => status.value === task.status))
+    .forEach(task => {
+      inUse[task.status] = (inUse[task.status] ?? 0) + 1;
+    });
+  return inUse;
+}
+
+// Tasks of a project in a status, leaving out `exceptTaskId` (a task that is
+// moving there and may already be counted)
+export async function countTasksInStatus(projectId: number, status: string, exceptTaskId?: number): Promise<number> {
+  const tasks = await storage.getTasksByProject(projectId);
+  return tasks.filter(task => task.status === status && task.id !== exceptTaskId).length;
+}
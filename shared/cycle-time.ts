@@ -0,0 +1,124 @@
+// Lead and cycle times of completed tasks, worked out from their status
+// history. Lead time runs from when a task was created until it was
+// completed, cycle time from when work on it first started, going by the
+// categories of the project's workflow. Durations are in seconds. Shared by
+// the server, which computes them, and the client, which charts them.
+import type { StatusTotals, Task, WorkflowStatus } from "./schema";
+import { findStatus, isDoneStatus } from "./workflow";
+
+export interface StatusChange {
+  from: string | null;
+  to: string | null;
+  at: Date;
+}
+
+export interface TaskTiming {
+  taskId: number;
+  title: string;
+  assigneeId: number | null;
+  tags: string[];
+  createdAt: Date;
+  startedAt: Date | null; // null for tasks that went straight to complete
+  completedAt: Date;
+  leadTime: number;
+  cycleTime: number | null;
+  timeInStatus: StatusTotals; // seconds spent in each status before completion
+}
+
+export interface DurationStats {
+  count: number;
+  average: number;
+  p50: number;
+  p85: number;
+  p95: number;
+}
+
+export interface TimingStats {
+  count: number;
+  leadTime: DurationStats | null;
+  cycleTime: DurationStats | null;
+}
+
+export interface CycleTimeReport {
+  from: string;
+  to: string;
+  tasks: TaskTiming[];
+  overall: TimingStats;
+  byAssignee: (TimingStats & { assigneeId: number | null })[];
+  byTag: (TimingStats & { tag: string })[];
+  averageTimeInStatus: StatusTotals;
+}
+
+const seconds = (from: Date, to: Date) => Math.max(0, Math.round((to.getTime() - from.getTime()) / 1000));
+
+// The timing of a completed task, or null if it isn't done or predates
+// creation times, when its history is incomplete too. `changes` are the
+// task's status changes; a task completed more than once counts from the
+// last time. Work has started once a task first reaches an active status.
+export function getTaskTiming(
+  task: Pick<Task, "id" | "title" | "assigneeId" | "tags" | "status" | "createdAt">,
+  changes: StatusChange[],
+  workflow: WorkflowStatus[]
+): TaskTiming | null {
+  if (!isDoneStatus(workflow, task.status) || !task.createdAt) return null;
+
+  const createdAt = new Date(task.createdAt);
+  const sorted = [...changes].sort((a, b) => a.at.getTime() - b.at.getTime());
+  const isActive = (value: string | null) => value !== null && findStatus(workflow, value)?.category === "active";
+  const isDone = (value: string | null) => value !== null && isDoneStatus(workflow, value);
+
+  const completedAt = [...sorted].reverse().find(change => isDone(change.to) && !isDone(change.from))?.at ?? createdAt;
+  const history = sorted.filter(change => change.at <= completedAt);
+  const startedAt = history.find(change => isActive(change.to))?.at ?? null;
+
+  // Without history the task was created in the status it has now
+  const timeInStatus: StatusTotals = {};
+  let status: string | null = history[0]?.from ?? task.status;
+  let since = createdAt;
+  history.forEach(change => {
+    if (status) timeInStatus[status] = (timeInStatus[status] ?? 0) + seconds(since, change.at);
+    status = change.to;
+    since = change.at;
+  });
+
+  return {
+    taskId: task.id,
+    title: task.title,
+    assigneeId: task.assigneeId,
+    tags: task.tags ?? [],
+    createdAt,
+    startedAt,
+    completedAt,
+    leadTime: seconds(createdAt, completedAt),
+    cycleTime: startedAt ? seconds(startedAt, completedAt) : null,
+    timeInStatus,
+  };
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function getDurationStats(values: number[]): DurationStats | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    average: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50: percentile(sorted, 50),
+    p85: percentile(sorted, 85),
+    p95: percentile(sorted, 95),
+  };
+}
+
+export function summarizeTimings(timings: TaskTiming[]): TimingStats {
+  return {
+    count: timings.length,
+    leadTime: getDurationStats(timings.map(timing => timing.leadTime)),
+    cycleTime: getDurationStats(
+      timings.map(timing => timing.cycleTime).filter((time): time is number => time !== null)
+    ),
+  };
+}
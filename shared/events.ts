@@ -0,0 +1,47 @@
+import type { Message, Notification, Task, User } from "./schema";
+
+// User as it is sent over the wire (never includes the password)
+export type PublicUser = Omit<User, "password">;
+
+// Events pushed to clients over the /ws WebSocket
+export type RealtimeEvent =
+  | {
+      type: "message.created";
+      teamId: number;
+      message: Message & { user: PublicUser };
+    }
+  | {
+      type: "message.deleted";
+      teamId: number;
+      messageId: number;
+    }
+  | {
+      type: "notification.created";
+      notification: Notification;
+    }
+  | TaskEvent;
+
+// Task mutations, delivered to everyone subscribed to the task's project
+export type TaskEvent =
+  | {
+      type: "task.created" | "task.updated" | "task.moved";
+      projectId: number;
+      task: Task;
+    }
+  | {
+      type: "task.deleted";
+      projectId: number;
+      taskId: number;
+    }
+  | {
+      // A column after a move, with its tasks in their new order
+      type: "tasks.reordered";
+      projectId: number;
+      status: string;
+      taskIds: number[];
+    };
+
+// Messages clients send over the /ws WebSocket
+export type RealtimeClientMessage =
+  | { type: "subscribe"; projectId: number }
+  | { type: "unsubscribe"; projectId: number };
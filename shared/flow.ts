@@ -0,0 +1,33 @@
+// Day-by-day status totals of a project, as served by the flow analytics
+// endpoint. Shared by the server, which records and serves them, and the
+// client, which turns them into burndown, burnup and cumulative flow charts.
+import type { StatusTotals } from "./schema";
+
+export interface FlowDay {
+  day: string; // yyyy-MM-dd
+  counts: StatusTotals; // number of tasks per status
+  estimates: StatusTotals; // sum of task estimates per status
+}
+
+export interface ProjectFlow {
+  from: string;
+  to: string;
+  days: FlowDay[]; // one per day with data, oldest first
+}
+
+// Tasks and estimates per status. Tasks without an estimate count as zero.
+export function getStatusTotals(tasks: { status: string; estimate: number | null }[]) {
+  const counts: StatusTotals = {};
+  const estimates: StatusTotals = {};
+  tasks.forEach(task => {
+    counts[task.status] = (counts[task.status] ?? 0) + 1;
+    estimates[task.status] = (estimates[task.status] ?? 0) + (task.estimate ?? 0);
+  });
+  return { counts, estimates };
+}
+
+export function sumTotals(totals: StatusTotals, statuses?: string[]): number {
+  return Object.entries(totals)
+    .filter(([status]) => !statuses || statuses.includes(status))
+    .reduce((sum, [, value]) => sum + value, 0);
+}
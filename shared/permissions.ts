@@ -0,0 +1,86 @@
+// Team roles and what each of them may do. Shared by the server, which
+// enforces it, and the client, which hides controls a user can't use.
+
+export const TEAM_ROLES = ["admin", "member", "guest"] as const;
+
+export type TeamRole = typeof TEAM_ROLES[number];
+
+export type Action =
+  | "team:view"
+  | "team:update"
+  | "team:delete"
+  | "team:invite"
+  | "member:remove"
+  | "project:view"
+  | "project:create"
+  | "project:update"
+  | "project:delete"
+  | "task:view"
+  | "task:create"
+  | "task:update"
+  | "task:delete"
+  | "sprint:manage"
+  | "comment:create"
+  | "comment:delete"
+  | "time:log"
+  | "time:edit"
+  | "file:upload"
+  | "file:delete"
+  | "message:send"
+  | "message:delete";
+
+// Actions on content someone created themselves (their comments, files,
+// messages, logged time, or their own membership) are granted separately
+// with ":own"
+type Permission = Action | `${Action}:own`;
+
+const VIEW_PERMISSIONS: Permission[] = ["team:view", "project:view", "task:view"];
+
+// Guests can look at everything in their teams but not change anything,
+// apart from leaving the team
+const GUEST_PERMISSIONS: Permission[] = [...VIEW_PERMISSIONS, "member:remove:own"];
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  ...GUEST_PERMISSIONS,
+  "project:create",
+  "task:create",
+  "task:update",
+  "task:delete",
+  "sprint:manage",
+  "comment:create",
+  "comment:delete:own",
+  "time:log",
+  "time:edit:own",
+  "file:upload",
+  "file:delete:own",
+  "message:send",
+  "message:delete:own",
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  "team:update",
+  "team:delete",
+  "team:invite",
+  "member:remove",
+  "project:update",
+  "project:delete",
+  "comment:delete",
+  "time:edit",
+  "file:delete",
+  "message:delete",
+];
+
+export const ROLE_PERMISSIONS: Record<TeamRole, ReadonlySet<Permission>> = {
+  admin: new Set(ADMIN_PERMISSIONS),
+  member: new Set(MEMBER_PERMISSIONS),
+  guest: new Set(GUEST_PERMISSIONS),
+};
+
+// Whether a team role allows an action. `isOwner` says whether the user
+// created the content the action applies to.
+export function roleCan(role: string | null | undefined, action: Action, isOwner = false): boolean {
+  const permissions = ROLE_PERMISSIONS[role as TeamRole];
+  if (!permissions) return false;
+  return permissions.has(action) || (isOwner && permissions.has(`${action}:own`));
+}
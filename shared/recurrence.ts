@@ -0,0 +1,183 @@
+// Schedules of recurring tasks, written as a subset of the iCalendar RRULE
+// format: FREQ (DAILY, WEEKLY or MONTHLY), INTERVAL, BYDAY (weekly only),
+// BYMONTHDAY (monthly only) and at most one of COUNT and UNTIL, e.g.
+// "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10". Shared by the server, which
+// generates the occurrences, and the client, which edits and describes rules.
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  endOfDay,
+  format,
+  getDaysInMonth,
+  setDate,
+} from "date-fns";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+// In the order of Date.getDay()
+export const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number;
+  count?: number;
+  until?: Date; // last day occurrences may fall on, inclusive
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY"];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: "Sun", MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat",
+};
+
+function parsePositiveInt(name: string, value: string, max: number): number {
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < 1 || number > max) {
+    throw new Error(`${name} must be a whole number between 1 and ${max}`);
+  }
+  return number;
+}
+
+// Parses a rule, throwing an Error that explains what's wrong with it
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  text.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean).forEach(part => {
+    const [key, value, ...rest] = part.split("=");
+    if (!key || value === undefined || rest.length > 0) {
+      throw new Error(`Invalid rule part "${part}"`);
+    }
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  });
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error("FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+  parts.forEach((value, key) => {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parsePositiveInt("INTERVAL", value, 365);
+        break;
+      case "BYDAY": {
+        if (freq !== "WEEKLY") throw new Error("BYDAY is only supported for weekly rules");
+        const days = value.split(",");
+        if (days.some(day => !WEEKDAYS.includes(day as Weekday))) {
+          throw new Error("BYDAY must list days like MO,WE,FR");
+        }
+        rule.byDay = WEEKDAYS.filter(day => days.includes(day));
+        break;
+      }
+      case "BYMONTHDAY":
+        if (freq !== "MONTHLY") throw new Error("BYMONTHDAY is only supported for monthly rules");
+        rule.byMonthDay = parsePositiveInt("BYMONTHDAY", value, 31);
+        break;
+      case "COUNT":
+        rule.count = parsePositiveInt("COUNT", value, 1000);
+        break;
+      case "UNTIL": {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+        const until = match && new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+        if (!until || until.getDate() !== Number(match![3])) {
+          throw new Error("UNTIL must be a date like 20250131");
+        }
+        rule.until = endOfDay(until);
+        break;
+      }
+      default:
+        throw new Error(`${key} is not supported`);
+    }
+  });
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error("A rule can't have both COUNT and UNTIL");
+  }
+
+  return rule;
+}
+
+export function isValidRecurrenceRule(text: string): boolean {
+  try {
+    parseRecurrenceRule(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${format(rule.until, "yyyyMMdd")}`);
+  return parts.join(";");
+}
+
+// A short human-readable summary, e.g. "Every 2 weeks on Mon, Thu, 10 times"
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const units = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" };
+  let text = rule.interval === 1
+    ? `Every ${units[rule.freq]}`
+    : `Every ${rule.interval} ${units[rule.freq]}s`;
+
+  if (rule.byDay?.length) text += ` on ${rule.byDay.map(day => WEEKDAY_NAMES[day]).join(", ")}`;
+  if (rule.byMonthDay) text += ` on day ${rule.byMonthDay}`;
+  if (rule.count) text += `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+  if (rule.until) text += `, until ${format(rule.until, "MMM d, yyyy")}`;
+  return text;
+}
+
+// The due date of the occurrence after `previous`, for a series whose first
+// occurrence was due at `start`. Dates are calculated in local time and keep
+// the time of day of `previous`. Returns null once UNTIL has passed; COUNT is
+// up to the caller, which knows how many occurrences there have been.
+export function getNextOccurrence(rule: RecurrenceRule, start: Date, previous: Date): Date | null {
+  let next: Date;
+
+  switch (rule.freq) {
+    case "DAILY":
+      next = addDays(previous, rule.interval);
+      break;
+    case "WEEKLY": {
+      if (!rule.byDay?.length) {
+        next = addWeeks(previous, rule.interval);
+        break;
+      }
+      // The next listed weekday in a week that is a multiple of INTERVAL
+      // weeks after the start; weeks start on Monday like in RRULE
+      let candidate = addDays(previous, 1);
+      while (
+        !rule.byDay.includes(WEEKDAYS[candidate.getDay()]) ||
+        differenceInCalendarWeeks(candidate, start, { weekStartsOn: 1 }) % rule.interval !== 0
+      ) {
+        candidate = addDays(candidate, 1);
+      }
+      next = candidate;
+      break;
+    }
+    case "MONTHLY": {
+      // Counted from the start so short months don't move later occurrences
+      const months = differenceInCalendarMonths(previous, start) + rule.interval;
+      next = addMonths(start, months);
+      next.setHours(previous.getHours(), previous.getMinutes(), previous.getSeconds(), previous.getMilliseconds());
+      if (rule.byMonthDay) {
+        next = setDate(next, Math.min(rule.byMonthDay, getDaysInMonth(next)));
+      }
+      break;
+    }
+  }
+
+  return rule.until && next > rule.until ? null : next;
+}
@@ -1,5 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, date, jsonb, json, varchar, index, uniqueIndex, real } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,6 +13,7 @@ export const users = pgTable("users", {
   avatar: text("avatar"),
   role: text("role").default("member"),
   userType: text("user_type").default("ordinary"), // "organization" or "ordinary"
+  emailVerifiedAt: timestamp("email_verified_at"), // null until the user confirms their email
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -64,15 +65,81 @@ export const projects = pgTable("projects", {
   color: text("color").default("#2563EB"),
   startDate: timestamp("start_date").notNull(),
   dueDate: timestamp("due_date"),
+  estimateUnit: text("estimate_unit").notNull().default("points"),
+  workflow: jsonb("workflow").$type<WorkflowStatus[]>(), // null for the default workflow
 });
 
-export const insertProjectSchema = createInsertSchema(projects).pick({
+// What task estimates in a project are measured in
+export const ESTIMATE_UNITS = ["points", "hours"] as const;
+
+export type EstimateUnit = typeof ESTIMATE_UNITS[number];
+
+// What a workflow status means for the rest of the app: tasks in a "done"
+// status count as completed, "active" ones as being worked on
+export const WORKFLOW_CATEGORIES = ["not started", "active", "done"] as const;
+
+export type WorkflowCategory = typeof WORKFLOW_CATEGORIES[number];
+
+// What a task needs before it can enter a workflow status
+export const ENTRY_CRITERIA = ["assignee", "estimate"] as const;
+
+export type EntryCriterion = typeof ENTRY_CRITERIA[number];
+
+// One column of a project's workflow. `value` is what tasks store in their
+// status; it can't change once tasks use it, unlike the label.
+export interface WorkflowStatus {
+  value: string;
+  label: string;
+  category: WorkflowCategory;
+  color: string;
+  transitions: string[] | null; // statuses tasks can move on to, null for any
+  wipLimit: number | null; // how many tasks the column should hold at most
+  hardLimit: boolean; // whether moves past the WIP limit are rejected rather than flagged
+  entryCriteria: EntryCriterion[];
+}
+
+export const workflowStatusSchema = z.object({
+  value: z.string().trim().min(1).max(50),
+  label: z.string().trim().min(1).max(50),
+  category: z.enum(WORKFLOW_CATEGORIES),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a color like #2563EB"),
+  transitions: z.array(z.string()).nullable().default(null),
+  wipLimit: z.number().int().positive().max(1000).nullable().default(null),
+  hardLimit: z.boolean().default(false),
+  entryCriteria: z.array(z.enum(ENTRY_CRITERIA)).default([]),
+});
+
+// The statuses of a workflow, in board order
+export const workflowSchema = z.array(workflowStatusSchema).min(1).max(20).superRefine((statuses, ctx) => {
+  const values = statuses.map(status => status.value);
+  if (new Set(values).size !== values.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Status values must be unique" });
+  }
+  if (!statuses.some(status => status.category === "done")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A workflow needs at least one done status" });
+  }
+  statuses.forEach((status, index) => {
+    const unknown = (status.transitions ?? []).filter(value => !values.includes(value));
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, "transitions"],
+        message: `Unknown status ${unknown.map(value => `"${value}"`).join(", ")}`,
+      });
+    }
+  });
+});
+
+export const insertProjectSchema = createInsertSchema(projects, {
+  estimateUnit: z.enum(ESTIMATE_UNITS),
+}).pick({
   name: true,
   description: true,
   teamId: true,
   color: true,
   startDate: true,
   dueDate: true,
+  estimateUnit: true,
 });
 
 // Tasks table
@@ -84,21 +151,211 @@ export const tasks = pgTable("tasks", {
   assigneeId: integer("assignee_id"),
   status: text("status").notNull().default("todo"),
   priority: text("priority").default("medium"),
+  startDate: timestamp("start_date"), // when work is planned to begin, for the timeline
   dueDate: timestamp("due_date"),
   tags: text("tags").array(),
   order: integer("order").notNull().default(0),
-});
-
-export const insertTaskSchema = createInsertSchema(tasks).pick({
+  parentTaskId: integer("parent_task_id"), // set for subtasks, always in the parent's project
+  recurrenceId: integer("recurrence_id"), // set for occurrences of a recurring task
+  estimate: real("estimate"), // in the project's estimate unit
+  sprintId: integer("sprint_id"), // null while the task is in the project backlog
+  // Set on insert rather than by the database, so tasks that predate the
+  // column have none instead of the time it was added
+  createdAt: timestamp("created_at").$defaultFn(() => new Date()),
+}, (table) => [
+  index("IDX_tasks_parent").on(table.parentTaskId),
+  // One occurrence per due date, however many times a series is advanced at once
+  uniqueIndex("IDX_tasks_recurrence_due").on(table.recurrenceId, table.dueDate),
+  index("IDX_tasks_sprint").on(table.sprintId),
+]);
+
+export const insertTaskSchema = createInsertSchema(tasks, {
+  estimate: (schema) => schema.nonnegative().max(10000),
+}).pick({
   title: true,
   description: true,
   projectId: true,
   assigneeId: true,
   status: true,
   priority: true,
+  startDate: true,
   dueDate: true,
   tags: true,
   order: true,
+  parentTaskId: true,
+  recurrenceId: true,
+  estimate: true,
+  sprintId: true,
+});
+
+// Sprints table: a time-boxed iteration of a project. A project has at most
+// one active sprint; tasks that aren't in a sprint make up its backlog.
+export const sprints = pgTable("sprints", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  name: text("name").notNull(),
+  goal: text("goal"),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  state: text("state").notNull().default("planned"),
+  closedAt: timestamp("closed_at"),
+  report: jsonb("report").$type<SprintReport>(), // recorded when the sprint is closed
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_sprints_project").on(table.projectId),
+]);
+
+export const SPRINT_STATES = ["planned", "active", "closed"] as const;
+
+export type SprintState = typeof SPRINT_STATES[number];
+
+// What a sprint got done, as it stood when it was closed. Estimates are in
+// the project's estimate unit.
+export interface SprintReport {
+  committedTaskIds: number[];
+  completedTaskIds: number[];
+  carriedOverTaskIds: number[];
+  committedEstimate: number;
+  completedEstimate: number;
+  carriedOverTo: number | null; // sprint the unfinished tasks moved to, null for the backlog
+}
+
+export const insertSprintSchema = createInsertSchema(sprints, {
+  name: (schema) => schema.trim().min(1).max(100),
+  goal: (schema) => schema.max(1000),
+}).pick({
+  projectId: true,
+  name: true,
+  goal: true,
+  startDate: true,
+  endDate: true,
+  createdBy: true,
+});
+
+// Project flow snapshots table: the number of tasks and the estimates in
+// each status of a project at the end of a day. Backs the burndown, burnup and
+// cumulative flow charts, which need history the tasks themselves don't keep.
+export const projectFlowSnapshots = pgTable("project_flow_snapshots", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  day: date("day", { mode: "string" }).notNull(), // yyyy-MM-dd in server time
+  statusCounts: jsonb("status_counts").$type<StatusTotals>().notNull(),
+  statusEstimates: jsonb("status_estimates").$type<StatusTotals>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_project_flow_snapshots_day").on(table.projectId, table.day),
+]);
+
+// Totals keyed by task status
+export type StatusTotals = Record<string, number>;
+
+export const insertProjectFlowSnapshotSchema = createInsertSchema(projectFlowSnapshots).pick({
+  projectId: true,
+  day: true,
+  statusCounts: true,
+  statusEstimates: true,
+});
+
+// Task recurrences table: the schedule of a recurring task and the fields
+// every new occurrence starts with
+export const taskRecurrences = pgTable("task_recurrences", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  rule: text("rule").notNull(), // RRULE subset, see shared/recurrence.ts
+  startDate: timestamp("start_date").notNull(), // due date of the first occurrence
+  title: text("title").notNull(),
+  description: text("description"),
+  assigneeId: integer("assignee_id"),
+  priority: text("priority").default("medium"),
+  tags: text("tags").array(),
+  estimate: real("estimate"),
+  occurrenceCount: integer("occurrence_count").notNull().default(1),
+  lastTaskId: integer("last_task_id"), // the most recent occurrence
+  lastDueDate: timestamp("last_due_date").notNull(), // its scheduled due date
+  endedAt: timestamp("ended_at"), // set once the schedule runs out or is stopped
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertTaskRecurrenceSchema = createInsertSchema(taskRecurrences).pick({
+  projectId: true,
+  rule: true,
+  startDate: true,
+  title: true,
+  description: true,
+  assigneeId: true,
+  priority: true,
+  tags: true,
+  estimate: true,
+  lastTaskId: true,
+  lastDueDate: true,
+  createdBy: true,
+});
+
+// Checklist items table: lightweight steps inside a task that don't need a
+// task of their own
+export const checklistItems = pgTable("checklist_items", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  text: text("text").notNull(),
+  done: boolean("done").notNull().default(false),
+  order: integer("order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_checklist_items_task").on(table.taskId),
+]);
+
+export const insertChecklistItemSchema = createInsertSchema(checklistItems).pick({
+  taskId: true,
+  text: true,
+  done: true,
+  order: true,
+});
+
+// Task dependencies table: the blocker task has to be complete before the
+// blocked task can be. Tasks may be in different projects.
+export const taskDependencies = pgTable("task_dependencies", {
+  id: serial("id").primaryKey(),
+  blockerTaskId: integer("blocker_task_id").notNull(),
+  blockedTaskId: integer("blocked_task_id").notNull(),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_task_dependencies_blocker").on(table.blockerTaskId),
+  index("IDX_task_dependencies_blocked").on(table.blockedTaskId),
+]);
+
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies).pick({
+  blockerTaskId: true,
+  blockedTaskId: true,
+  createdBy: true,
+});
+
+// Time entries table: time a user spent on a task, logged with a timer or by
+// hand. A running timer has no end yet; each user has at most one.
+export const timeEntries = pgTable("time_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  taskId: integer("task_id").notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  duration: integer("duration"), // seconds, null while the timer is running
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_time_entries_user").on(table.userId, table.startedAt),
+  index("IDX_time_entries_task").on(table.taskId),
+  uniqueIndex("IDX_time_entries_running").on(table.userId).where(sql`${table.endedAt} is null`),
+]);
+
+export const insertTimeEntrySchema = createInsertSchema(timeEntries).pick({
+  userId: true,
+  taskId: true,
+  startedAt: true,
+  endedAt: true,
+  duration: true,
+  note: true,
 });
 
 // Comments table
@@ -116,6 +373,32 @@ export const insertCommentSchema = createInsertSchema(comments).pick({
   userId: true,
 });
 
+// Task events table: one row per change to a tracked task field, shown in the
+// task's activity history
+export const taskEvents = pgTable("task_events", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull(),
+  userId: integer("user_id"), // null when the change wasn't made by a logged-in user
+  field: text("field").notNull(), // one of TRACKED_TASK_FIELDS
+  oldValue: jsonb("old_value"),
+  newValue: jsonb("new_value"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_task_events_task").on(table.taskId),
+]);
+
+export const TRACKED_TASK_FIELDS = ["status", "assigneeId", "priority", "startDate", "dueDate", "title", "description", "tags", "estimate"] as const;
+
+export type TrackedTaskField = typeof TRACKED_TASK_FIELDS[number];
+
+export const insertTaskEventSchema = createInsertSchema(taskEvents).pick({
+  taskId: true,
+  userId: true,
+  field: true,
+  oldValue: true,
+  newValue: true,
+});
+
 // Files table
 export const files = pgTable("files", {
   id: serial("id").primaryKey(),
@@ -145,7 +428,10 @@ export const teamInvitations = pgTable("team_invitations", {
   teamId: integer("team_id").notNull(),
   userId: integer("user_id").notNull(),
   invitedBy: integer("invited_by").notNull(),
-  status: text("status").default("pending"), // "pending", "accepted", "rejected"
+  role: text("role").default("member").notNull(), // role granted on accept
+  status: text("status").default("pending"), // "pending", "accepted", "rejected", "revoked", "expired"
+  expiresAt: timestamp("expires_at"),
+  respondedAt: timestamp("responded_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -153,7 +439,9 @@ export const insertTeamInvitationSchema = createInsertSchema(teamInvitations).pi
   teamId: true,
   userId: true,
   invitedBy: true,
+  role: true,
   status: true,
+  expiresAt: true,
 });
 
 // Messages table
@@ -171,6 +459,117 @@ export const insertMessageSchema = createInsertSchema(messages).pick({
   userId: true,
 });
 
+// Notifications table
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  type: text("type").notNull(), // "task_assigned", "comment", "file", "team_invitation"
+  message: text("message").notNull(),
+  link: text("link"),
+  read: boolean("read").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).pick({
+  userId: true,
+  type: true,
+  message: true,
+  link: true,
+});
+
+// Two-factor authentication (TOTP) settings, one row per enrolled user
+export const twoFactorAuth = pgTable("two_factor_auth", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  secret: text("secret").notNull(), // base32 encoded
+  enabled: boolean("enabled").notNull().default(false), // false until the first code is verified
+  recoveryCodes: text("recovery_codes").array(), // sha256 hashes of unused recovery codes
+  lastUsedStep: integer("last_used_step"), // prevents reusing a code within its time window
+  enabledAt: timestamp("enabled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertTwoFactorAuthSchema = createInsertSchema(twoFactorAuth).pick({
+  userId: true,
+  secret: true,
+});
+
+// Express sessions, managed by connect-pg-simple. Declared here so that
+// db:push keeps the table instead of dropping it.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
+// Device details for each logged-in session, shown on the settings page
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  sid: text("sid").notNull().unique(),
+  userId: integer("user_id").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+});
+
+export const insertUserSessionSchema = createInsertSchema(userSessions).pick({
+  sid: true,
+  userId: true,
+  userAgent: true,
+  ipAddress: true,
+});
+
+// Personal access tokens for scripts using the REST API
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token, which is only shown once
+  tokenPrefix: text("token_prefix").notNull(), // first characters, to recognise the token in lists
+  scope: text("scope").notNull().default("read"), // "read" or "write"
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"), // null means the token never expires
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).pick({
+  userId: true,
+  name: true,
+  tokenHash: true,
+  tokenPrefix: true,
+  scope: true,
+  expiresAt: true,
+});
+
+// Append-only record of every change made through the API. Rows are never
+// updated or deleted, and keep their actor id even after the user is removed.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"), // null for actions without a logged-in user, like password resets
+  action: text("action").notNull(), // "create", "update" or "delete"
+  entityType: text("entity_type").notNull(), // e.g. "project", "task", "team_member"
+  entityId: integer("entity_id"),
+  changes: jsonb("changes").$type<AuditChanges>(), // changed fields with their before/after values
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_audit_events_actor").on(table.actorId),
+  index("IDX_audit_events_entity").on(table.entityType, table.entityId),
+  index("IDX_audit_events_created_at").on(table.createdAt),
+]);
+
+export type AuditChanges = Record<string, { before?: unknown; after?: unknown }>;
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).pick({
+  actorId: true,
+  action: true,
+  entityType: true,
+  entityId: true,
+  changes: true,
+  ipAddress: true,
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   teamMembers: many(teamMembers),
@@ -181,6 +580,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   messages: many(messages),
   receivedInvitations: many(teamInvitations, { relationName: "invitationReceivers" }),
   sentInvitations: many(teamInvitations, { relationName: "invitationSenders" }),
+  notifications: many(notifications),
 }));
 
 export const teamsRelations = relations(teams, ({ one, many }) => ({
@@ -213,6 +613,8 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
   }),
   tasks: many(tasks),
   files: many(files),
+  sprints: many(sprints),
+  flowSnapshots: many(projectFlowSnapshots),
 }));
 
 export const tasksRelations = relations(tasks, ({ one, many }) => ({
@@ -225,8 +627,85 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     references: [users.id],
     relationName: "assignedTasks",
   }),
+  parent: one(tasks, {
+    fields: [tasks.parentTaskId],
+    references: [tasks.id],
+    relationName: "subtasks",
+  }),
+  subtasks: many(tasks, { relationName: "subtasks" }),
   comments: many(comments),
   files: many(files),
+  events: many(taskEvents),
+  checklistItems: many(checklistItems),
+  blockedBy: many(taskDependencies, { relationName: "blockedTask" }),
+  blocks: many(taskDependencies, { relationName: "blockerTask" }),
+  recurrence: one(taskRecurrences, {
+    fields: [tasks.recurrenceId],
+    references: [taskRecurrences.id],
+  }),
+  timeEntries: many(timeEntries),
+  sprint: one(sprints, {
+    fields: [tasks.sprintId],
+    references: [sprints.id],
+  }),
+}));
+
+export const sprintsRelations = relations(sprints, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [sprints.projectId],
+    references: [projects.id],
+  }),
+  tasks: many(tasks),
+}));
+
+export const projectFlowSnapshotsRelations = relations(projectFlowSnapshots, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectFlowSnapshots.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const taskRecurrencesRelations = relations(taskRecurrences, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [taskRecurrences.projectId],
+    references: [projects.id],
+  }),
+  occurrences: many(tasks),
+}));
+
+export const taskDependenciesRelations = relations(taskDependencies, ({ one }) => ({
+  blocker: one(tasks, {
+    fields: [taskDependencies.blockerTaskId],
+    references: [tasks.id],
+    relationName: "blockerTask",
+  }),
+  blocked: one(tasks, {
+    fields: [taskDependencies.blockedTaskId],
+    references: [tasks.id],
+    relationName: "blockedTask",
+  }),
+  creator: one(users, {
+    fields: [taskDependencies.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const checklistItemsRelations = relations(checklistItems, ({ one }) => ({
+  task: one(tasks, {
+    fields: [checklistItems.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
+  task: one(tasks, {
+    fields: [timeEntries.taskId],
+    references: [tasks.id],
+  }),
+  user: one(users, {
+    fields: [timeEntries.userId],
+    references: [users.id],
+  }),
 }));
 
 export const commentsRelations = relations(comments, ({ one }) => ({
@@ -284,6 +763,52 @@ export const messagesRelations = relations(messages, ({ one }) => ({
   }),
 }));
 
+export const twoFactorAuthRelations = relations(twoFactorAuth, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorAuth.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userSessionsRelations = relations(userSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [userSessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const taskEventsRelations = relations(taskEvents, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskEvents.taskId],
+    references: [tasks.id],
+  }),
+  user: one(users, {
+    fields: [taskEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+}));
+
 // Export types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -300,9 +825,30 @@ export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Task = typeof tasks.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 
+export type Sprint = typeof sprints.$inferSelect;
+export type InsertSprint = z.infer<typeof insertSprintSchema>;
+
+export type ProjectFlowSnapshot = typeof projectFlowSnapshots.$inferSelect;
+export type InsertProjectFlowSnapshot = z.infer<typeof insertProjectFlowSnapshotSchema>;
+
 export type Comment = typeof comments.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 
+export type TaskRecurrence = typeof taskRecurrences.$inferSelect;
+export type InsertTaskRecurrence = z.infer<typeof insertTaskRecurrenceSchema>;
+
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type InsertTaskDependency = z.infer<typeof insertTaskDependencySchema>;
+
+export type ChecklistItem = typeof checklistItems.$inferSelect;
+export type InsertChecklistItem = z.infer<typeof insertChecklistItemSchema>;
+
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type InsertTimeEntry = z.infer<typeof insertTimeEntrySchema>;
+
+export type TaskEvent = typeof taskEvents.$inferSelect;
+export type InsertTaskEvent = z.infer<typeof insertTaskEventSchema>;
+
 export type File = typeof files.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 
@@ -311,3 +857,18 @@ export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
 export type TeamInvitation = typeof teamInvitations.$inferSelect;
 export type InsertTeamInvitation = z.infer<typeof insertTeamInvitationSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type TwoFactorAuth = typeof twoFactorAuth.$inferSelect;
+export type InsertTwoFactorAuth = z.infer<typeof insertTwoFactorAuthSchema>;
+
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
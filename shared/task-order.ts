@@ -0,0 +1,28 @@
+// The order of tasks in a board column. Tasks are sorted by `order`, then by
+// id for tasks that share one, and a move renumbers the whole column it goes
+// into. Shared by the server, which stores the new order, and the client,
+// which shows it before the server has answered.
+import type { Task } from "./schema";
+
+type Ordered = Pick<Task, "id" | "order">;
+
+export const byOrder = (a: Ordered, b: Ordered) => a.order - b.order || a.id - b.id;
+
+// The ids of a column's tasks once `taskId` is put in front of
+// `beforeTaskId`, or at the end when that task isn't in the column
+export function placeTask(columnTasks: Ordered[], taskId: number, beforeTaskId: number | null): number[] {
+  const ids = [...columnTasks]
+    .sort(byOrder)
+    .map((task) => task.id)
+    .filter((id) => id !== taskId);
+  const index = beforeTaskId === null ? -1 : ids.indexOf(beforeTaskId);
+  ids.splice(index === -1 ? ids.length : index, 0, taskId);
+  return ids;
+}
+
+// Numbers the tasks of `column` by their position in it and sorts the list
+export function applyColumnOrder<T extends Ordered>(tasks: T[], column: number[]): T[] {
+  return tasks
+    .map((task) => (column.includes(task.id) ? { ...task, order: column.indexOf(task.id) } : task))
+    .sort(byOrder);
+}
@@ -0,0 +1,54 @@
+// Helpers for logged time, shared by the server (totals and exports) and the
+// client (timers and timesheets). Durations are in seconds.
+import type { TimeEntry } from "./schema";
+
+// A running timer counts up to `now`
+export function getTimeEntryDuration(entry: Pick<TimeEntry, "startedAt" | "endedAt" | "duration">, now = new Date()): number {
+  if (entry.duration !== null) return entry.duration;
+  const end = entry.endedAt ? new Date(entry.endedAt) : now;
+  return Math.max(0, Math.round((end.getTime() - new Date(entry.startedAt).getTime()) / 1000));
+}
+
+// "1h 05m", or "12m" under an hour; `withSeconds` is meant for live timers
+export function formatDuration(seconds: number, withSeconds = false): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+
+  if (withSeconds) {
+    const secs = seconds % 60;
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+  }
+  return hours > 0 ? `${hours}h ${pad(minutes)}m` : `${minutes}m`;
+}
+
+export interface TimeTotals {
+  total: number;
+  byTask: Record<number, number>;
+  byProject: Record<number, number>;
+  byUser: Record<number, number>;
+}
+
+// Adds up entries per task, project and user. `projectIds` maps task ids to
+// their projects; entries of unknown tasks only count towards the total.
+export function summarizeTimeEntries(
+  entries: TimeEntry[],
+  projectIds: Map<number, number>,
+  now = new Date()
+): TimeTotals {
+  const totals: TimeTotals = { total: 0, byTask: {}, byProject: {}, byUser: {} };
+  const add = (map: Record<number, number>, key: number, seconds: number) => {
+    map[key] = (map[key] ?? 0) + seconds;
+  };
+
+  entries.forEach(entry => {
+    const seconds = getTimeEntryDuration(entry, now);
+    totals.total += seconds;
+    add(totals.byTask, entry.taskId, seconds);
+    add(totals.byUser, entry.userId, seconds);
+    const projectId = projectIds.get(entry.taskId);
+    if (projectId !== undefined) add(totals.byProject, projectId, seconds);
+  });
+
+  return totals;
+}
@@ -0,0 +1,81 @@
+// Project workflows: the statuses tasks move through, their order on the
+// board, and which moves between them are allowed. Projects that never
+// customised theirs use the default workflow. Shared by the server, which
+// enforces it, and the client, which renders a column per status.
+import type { EntryCriterion, Project, Task, WorkflowCategory, WorkflowStatus } from "./schema";
+
+// Columns of the default workflow take any number of tasks of any kind
+const NO_POLICIES = { wipLimit: null, hardLimit: false, entryCriteria: [] };
+
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { value: "todo", label: "To Do", category: "not started", color: "#94A3B8", transitions: null, ...NO_POLICIES },
+  { value: "in progress", label: "In Progress", category: "active", color: "#2563EB", transitions: null, ...NO_POLICIES },
+  { value: "review", label: "Review", category: "active", color: "#F59E0B", transitions: null, ...NO_POLICIES },
+  { value: "complete", label: "Complete", category: "done", color: "#10B981", transitions: null, ...NO_POLICIES },
+];
+
+// Workflows saved before columns had policies lack those fields
+export function getWorkflow(project: Pick<Project, "workflow"> | null | undefined): WorkflowStatus[] {
+  if (!project?.workflow?.length) return DEFAULT_WORKFLOW;
+  return project.workflow.map(status => ({ ...NO_POLICIES, ...status }));
+}
+
+export function findStatus(workflow: WorkflowStatus[], value: string): WorkflowStatus | undefined {
+  return workflow.find(status => status.value === value);
+}
+
+export function getStatusLabel(workflow: WorkflowStatus[], value: string): string {
+  return findStatus(workflow, value)?.label ?? value;
+}
+
+export function getStatusesInCategory(workflow: WorkflowStatus[], category: WorkflowCategory): string[] {
+  return workflow.filter(status => status.category === category).map(status => status.value);
+}
+
+export function isDoneStatus(workflow: WorkflowStatus[], value: string): boolean {
+  return findStatus(workflow, value)?.category === "done";
+}
+
+// New tasks start in the first status that isn't done yet
+export function getInitialStatus(workflow: WorkflowStatus[]): string {
+  return (workflow.find(status => status.category === "not started") ?? workflow[0]).value;
+}
+
+// Why a task can't move from `from` to `to`, or null if it can. Staying in
+// the same status is always fine, so tasks left in a status the workflow
+// no longer has can still be edited.
+export function getTransitionError(workflow: WorkflowStatus[], from: string | null, to: string): string | null {
+  if (from === to) return null;
+
+  const target = findStatus(workflow, to);
+  if (!target) return `"${to}" isn't a status of this project`;
+
+  const source = from === null ? undefined : findStatus(workflow, from);
+  if (source?.transitions && !source.transitions.includes(to)) {
+    return `Tasks can't move from "${source.label}" to "${target.label}"`;
+  }
+  return null;
+}
+
+const ENTRY_CRITERIA_MESSAGES: Record<EntryCriterion, string> = {
+  assignee: "an assignee",
+  estimate: "an estimate",
+};
+
+// Why a task can't enter a status because of the status's entry criteria,
+// or null if it meets them
+export function getEntryCriteriaError(
+  status: WorkflowStatus,
+  task: Pick<Task, "assigneeId" | "estimate">
+): string | null {
+  const missing = status.entryCriteria.filter(criterion =>
+    criterion === "assignee" ? task.assigneeId == null : task.estimate == null
+  );
+  if (missing.length === 0) return null;
+  return `Tasks need ${missing.map(criterion => ENTRY_CRITERIA_MESSAGES[criterion]).join(" and ")} to move to "${status.label}"`;
+}
+
+// Whether `count` tasks are more than a status's WIP limit allows
+export function isOverWipLimit(status: WorkflowStatus, count: number): boolean {
+  return status.wipLimit !== null && count > status.wipLimit;
+}